@@ -0,0 +1,2 @@
+ALTER TABLE `integration` ADD `encryptedKey` text;--> statement-breakpoint
+ALTER TABLE `integration` ADD `keyId` text;
\ No newline at end of file
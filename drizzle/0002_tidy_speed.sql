@@ -0,0 +1,16 @@
+CREATE TABLE `audit_event` (
+	`id` text PRIMARY KEY NOT NULL,
+	`userId` text,
+	`userEmail` text,
+	`toolName` text NOT NULL,
+	`provider` text,
+	`arguments` text,
+	`outcome` text NOT NULL,
+	`error` text,
+	`upstreamIds` text,
+	`latencyMs` integer NOT NULL,
+	`createdAt` integer NOT NULL,
+	FOREIGN KEY (`userId`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `audit_event_user_created_idx` ON `audit_event` (`userId`,`createdAt`);
\ No newline at end of file
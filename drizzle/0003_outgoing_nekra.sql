@@ -0,0 +1,7 @@
+CREATE TABLE `user_settings` (
+	`userId` text PRIMARY KEY NOT NULL,
+	`confirmDestructiveActions` integer DEFAULT true NOT NULL,
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	FOREIGN KEY (`userId`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);
@@ -0,0 +1,26 @@
+CREATE TABLE `gmail_change` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`userId` text NOT NULL,
+	`type` text NOT NULL,
+	`messageId` text NOT NULL,
+	`threadId` text,
+	`labelIds` text,
+	`historyId` text NOT NULL,
+	`createdAt` integer NOT NULL,
+	FOREIGN KEY (`userId`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `gmail_change_user_idx` ON `gmail_change` (`userId`,`id`);--> statement-breakpoint
+CREATE TABLE `gmail_watch` (
+	`userId` text PRIMARY KEY NOT NULL,
+	`emailAddress` text NOT NULL,
+	`topicName` text NOT NULL,
+	`labelIds` text,
+	`historyId` text NOT NULL,
+	`expiration` integer NOT NULL,
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	FOREIGN KEY (`userId`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `gmail_watch_emailAddress_unique` ON `gmail_watch` (`emailAddress`);
\ No newline at end of file
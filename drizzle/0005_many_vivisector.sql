@@ -0,0 +1,13 @@
+CREATE TABLE `email_template` (
+	`id` text PRIMARY KEY NOT NULL,
+	`userId` text NOT NULL,
+	`name` text NOT NULL,
+	`subject` text NOT NULL,
+	`body` text NOT NULL,
+	`htmlBody` text,
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	FOREIGN KEY (`userId`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `email_template_user_name_idx` ON `email_template` (`userId`,`name`);
\ No newline at end of file
@@ -0,0 +1,19 @@
+CREATE TABLE `scheduled_message` (
+	`id` text PRIMARY KEY NOT NULL,
+	`userId` text NOT NULL,
+	`provider` text NOT NULL,
+	`toolName` text NOT NULL,
+	`args` text NOT NULL,
+	`sendAt` integer NOT NULL,
+	`status` text NOT NULL,
+	`attempts` integer DEFAULT 0 NOT NULL,
+	`lastError` text,
+	`result` text,
+	`sentAt` integer,
+	`createdAt` integer NOT NULL,
+	`updatedAt` integer NOT NULL,
+	FOREIGN KEY (`userId`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `scheduled_message_user_idx` ON `scheduled_message` (`userId`,`sendAt`);--> statement-breakpoint
+CREATE INDEX `scheduled_message_due_idx` ON `scheduled_message` (`status`,`sendAt`);
\ No newline at end of file
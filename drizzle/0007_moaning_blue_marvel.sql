@@ -0,0 +1 @@
+ALTER TABLE `subscription` ADD `lastStripeEventAt` integer;
\ No newline at end of file
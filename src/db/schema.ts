@@ -1,4 +1,4 @@
-import { sqliteTable, text, integer, primaryKey } from "drizzle-orm/sqlite-core";
+import { sqliteTable, text, integer, primaryKey, index, uniqueIndex } from "drizzle-orm/sqlite-core";
 
 // BetterAuth required tables
 export const user = sqliteTable("user", {
@@ -60,6 +60,10 @@ export const integration = sqliteTable("integration", {
   provider: text("provider").notNull(), // 'gmail', 'calendar', 'drive', 'notion', 'slack'
   accessToken: text("accessToken").notNull(),
   refreshToken: text("refreshToken"),
+  // Envelope encryption: wrapped per-row data key and the id of the key that wrapped it.
+  // Rows with a null keyId hold plaintext tokens saved before encryption was introduced.
+  encryptedKey: text("encryptedKey"),
+  keyId: text("keyId"),
   expiresAt: integer("expiresAt", { mode: "timestamp" }),
   scope: text("scope"),
   metadata: text("metadata"), // JSON string for provider-specific data
@@ -80,6 +84,7 @@ export const subscription = sqliteTable("subscription", {
   currentPeriodStart: integer("currentPeriodStart", { mode: "timestamp" }),
   currentPeriodEnd: integer("currentPeriodEnd", { mode: "timestamp" }),
   cancelAtPeriodEnd: integer("cancelAtPeriodEnd", { mode: "boolean" }).default(false),
+  lastStripeEventAt: integer("lastStripeEventAt", { mode: "timestamp" }), // `created` of the last Stripe event applied to this row
   createdAt: integer("createdAt", { mode: "timestamp" }).notNull(),
   updatedAt: integer("updatedAt", { mode: "timestamp" }).notNull(),
 });
@@ -97,7 +102,110 @@ export const usage = sqliteTable("usage", {
   updatedAt: integer("updatedAt", { mode: "timestamp" }).notNull(),
 });
 
+export const auditEvent = sqliteTable(
+  "audit_event",
+  {
+    id: text("id").primaryKey(),
+    userId: text("userId").references(() => user.id, { onDelete: "set null" }),
+    userEmail: text("userEmail"), // kept so events stay attributable if the user is deleted
+    toolName: text("toolName").notNull(),
+    provider: text("provider"),
+    arguments: text("arguments"), // JSON string, sensitive fields redacted
+    outcome: text("outcome").notNull(), // 'success', 'error', 'authorization_required', 'quota_exceeded', 'confirmation_required'
+    error: text("error"),
+    upstreamIds: text("upstreamIds"), // JSON string, e.g. {"messageId":"...","ts":"..."}
+    latencyMs: integer("latencyMs").notNull(),
+    createdAt: integer("createdAt", { mode: "timestamp" }).notNull(),
+  },
+  (table) => [index("audit_event_user_created_idx").on(table.userId, table.createdAt)],
+);
+
+export const userSettings = sqliteTable("user_settings", {
+  userId: text("userId")
+    .primaryKey()
+    .references(() => user.id, { onDelete: "cascade" }),
+  // When false, destructive tools run immediately instead of returning a preview first
+  confirmDestructiveActions: integer("confirmDestructiveActions", { mode: "boolean" }).notNull().default(true),
+  createdAt: integer("createdAt", { mode: "timestamp" }).notNull(),
+  updatedAt: integer("updatedAt", { mode: "timestamp" }).notNull(),
+});
+
+export const emailTemplate = sqliteTable(
+  "email_template",
+  {
+    id: text("id").primaryKey(),
+    userId: text("userId")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    subject: text("subject").notNull(), // subject and bodies may contain {{variable}} placeholders
+    body: text("body").notNull(),
+    htmlBody: text("htmlBody"),
+    createdAt: integer("createdAt", { mode: "timestamp" }).notNull(),
+    updatedAt: integer("updatedAt", { mode: "timestamp" }).notNull(),
+  },
+  (table) => [uniqueIndex("email_template_user_name_idx").on(table.userId, table.name)],
+);
+
+// One Gmail push subscription (users.watch) per user
+export const gmailWatch = sqliteTable("gmail_watch", {
+  userId: text("userId")
+    .primaryKey()
+    .references(() => user.id, { onDelete: "cascade" }),
+  emailAddress: text("emailAddress").notNull().unique(), // Pub/Sub notifications identify the mailbox by address
+  topicName: text("topicName").notNull(),
+  labelIds: text("labelIds"), // JSON array; null watches the whole mailbox
+  historyId: text("historyId").notNull(), // last history record synced into gmail_change
+  expiration: integer("expiration", { mode: "timestamp" }).notNull(),
+  createdAt: integer("createdAt", { mode: "timestamp" }).notNull(),
+  updatedAt: integer("updatedAt", { mode: "timestamp" }).notNull(),
+});
+
+// Mailbox changes computed from users.history.list, queued until read with get_mailbox_changes
+export const gmailChange = sqliteTable(
+  "gmail_change",
+  {
+    // Autoincrementing so changes are read back in the order Gmail reported them
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    userId: text("userId")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    type: text("type").notNull(), // 'messageAdded', 'messageDeleted', 'labelsAdded', 'labelsRemoved'
+    messageId: text("messageId").notNull(),
+    threadId: text("threadId"),
+    labelIds: text("labelIds"), // JSON array: the message's labels, or the labels added/removed
+    historyId: text("historyId").notNull(),
+    createdAt: integer("createdAt", { mode: "timestamp" }).notNull(),
+  },
+  (table) => [index("gmail_change_user_idx").on(table.userId, table.id)],
+);
+
 // Composite unique constraint
 export const integrationIndex = primaryKey({
   columns: [integration.userId, integration.provider],
 });
+
+export const scheduledMessage = sqliteTable(
+  "scheduled_message",
+  {
+    id: text("id").primaryKey(),
+    userId: text("userId")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    provider: text("provider").notNull(), // 'gmail', 'slack'
+    toolName: text("toolName").notNull(), // 'send_email', 'post_message'
+    args: text("args").notNull(), // JSON: the tool arguments, without sendAt
+    sendAt: integer("sendAt", { mode: "timestamp" }).notNull(), // next attempt after a transient failure
+    status: text("status").notNull(), // 'pending', 'sending', 'sent', 'failed', 'cancelled'
+    attempts: integer("attempts").notNull().default(0),
+    lastError: text("lastError"),
+    result: text("result"), // JSON: the tool's structured output once sent
+    sentAt: integer("sentAt", { mode: "timestamp" }),
+    createdAt: integer("createdAt", { mode: "timestamp" }).notNull(),
+    updatedAt: integer("updatedAt", { mode: "timestamp" }).notNull(),
+  },
+  (table) => [
+    index("scheduled_message_user_idx").on(table.userId, table.sendAt),
+    index("scheduled_message_due_idx").on(table.status, table.sendAt),
+  ],
+);
@@ -0,0 +1,21 @@
+import { createClient } from "@libsql/client";
+import { drizzle } from "drizzle-orm/libsql";
+import { migrate } from "drizzle-orm/libsql/migrator";
+import type { DbClient } from "./client";
+import * as schema from "./schema";
+
+/**
+ * An in-memory SQLite database with every migration applied, for tests. libsql runs the same
+ * SQLite dialect as D1, so services get it in place of the D1 client.
+ */
+export async function createTestDb(): Promise<DbClient> {
+  const db = drizzle(createClient({ url: ":memory:" }), { schema });
+  await migrate(db, { migrationsFolder: new URL("../../drizzle", import.meta.url).pathname });
+  return db as unknown as DbClient;
+}
+
+export async function insertTestUser(db: DbClient, id = "user_1", email = "ada@example.com") {
+  const now = new Date();
+  await db.insert(schema.user).values({ id, name: "Ada", email, emailVerified: true, createdAt: now, updatedAt: now });
+  return id;
+}
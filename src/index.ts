@@ -1,32 +1,147 @@
 import OAuthProvider from "@cloudflare/workers-oauth-provider";
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, type ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { ZodRawShapeCompat } from "@modelcontextprotocol/sdk/server/zod-compat.js";
+import type { CallToolResult, ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
 import { McpAgent } from "agents/mcp";
 import { z } from "zod";
 import { OAuthHandler } from "./oauth-handler";
-import { OAuth2Client } from "google-auth-library";
-import { gmailTools } from "./tools/gmail";
-import { createGmailContext } from "./tools/gmail/context";
-import { calendarTools } from "./tools/google-calendar";
-import { createCalendarContext } from "./tools/google-calendar/context";
-import { notionTools } from "./tools/notion";
-import { createNotionContext } from "./tools/notion/context";
-import { slackTools } from "./tools/slack";
-import { createSlackContext } from "./tools/slack/context";
-import { createDriveContext } from "./tools/google-drive/context";
-import { driveTools } from "./tools/google-drive";
+import {
+  disconnectIntegration,
+  ensureFreshCredentials,
+  getProvider,
+  LinkedContexts,
+  providers,
+  ProviderCredentials,
+  ProviderDefinition,
+  ToolDefinition,
+  ToolResult,
+} from "./providers";
 import { Props } from "./utils";
+import { consumeOAuthState, createOAuthState, OAuthError } from "./workers-oauth-utils";
 import { Auth, createAuth } from "./lib/auth";
 import { createDbClient, DbClient } from "./db/client";
+import { createTokenCipher } from "./lib/token-encryption";
 import { IntegrationService } from "./services/integrations";
-import { BillingService } from "./services/billing";
+import { BillingService, QuotaCheck } from "./services/billing";
+import { AuditOutcome, AuditService, extractUpstreamIds } from "./services/audit";
+import { SettingsService } from "./services/settings";
+import { GmailWatchError, GmailWatchService } from "./services/gmail-watch";
+import { renderTemplate, TemplateError, TemplateService } from "./services/templates";
+import { ScheduledMessageError, ScheduledMessageService } from "./services/scheduled-messages";
 import { eq } from "drizzle-orm";
 import * as schema from "./db/schema";
+import { errorResult, structuredResult, upstreamStatusOf } from "./tools/result";
+import { DraftOutputSchema, SendEmailSchema, SentMessageOutputSchema } from "./tools/gmail/schemas";
+
+interface ToolConfig {
+  title?: string;
+  description?: string;
+  inputSchema?: any;
+  outputSchema?: any;
+  annotations?: ToolAnnotations;
+}
+
+// How a tool call counts against the user's plan
+interface ToolQuota {
+  /** Also counts against `emailsSent`; a function decides per call (e.g. not for drafts or scheduled sends) */
+  sendsEmail?: boolean | ((args: any) => boolean);
+  /** Exempt from the `apiCalls` quota: account tools that must keep working once it is used up */
+  exempt?: boolean;
+}
+
+// Thrown by LinkedContexts.get; carries the authorization prompt for the missing provider
+class LinkedProviderUnavailable extends Error {
+  constructor(public result: ToolResult) {
+    super(result.content.find((item) => item.type === "text")?.text);
+    this.name = "LinkedProviderUnavailable";
+  }
+}
+
+// Audit outcomes of calls stopped before reaching the provider, read from the result's `error` or `status`
+const STOPPED_OUTCOMES = new Set<string>(["authorization_required", "quota_exceeded", "confirmation_required"]);
+
+// Must match the daily trigger in wrangler.jsonc; the other trigger runs every five minutes
+const DAILY_CRON = "0 3 * * *";
+
+// How long a destructive action preview can be confirmed
+const CONFIRMATION_TTL_SECONDS = 300;
+
+// Returned in place of a destructive tool's output while it awaits confirmation
+const ConfirmationOutputSchema = z.object({
+  status: z.literal("confirmation_required"),
+  tool: z.string(),
+  summary: z.string(),
+  items: z.array(z.record(z.string(), z.unknown())),
+  confirmationToken: z.string(),
+  expiresAt: z.string(),
+  instructions: z.string(),
+});
+
+const MailboxWatchOutputSchema = z.object({
+  emailAddress: z.string(),
+  labelIds: z.array(z.string()).nullable().describe("Watched labels; null for the whole mailbox"),
+  historyId: z.string().describe("Gmail history id changes have been synced up to"),
+  expiration: z.string().describe("When the subscription lapses unless renewed; the server renews it daily"),
+});
+
+const TemplateOutputSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  subject: z.string(),
+  body: z.string(),
+  htmlBody: z.string().nullable(),
+  variables: z.array(z.string()).describe("The {{variables}} send_from_template needs values for"),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+const ScheduledMessageOutputSchema = z.object({
+  id: z.string(),
+  tool: z.string().describe("Tool that sends the message: send_email or post_message"),
+  sendAt: z.string().describe("When the message goes out; after a transient failure, when it is retried"),
+  status: z.enum(["pending", "sending", "sent", "failed", "cancelled"]),
+  attempts: z.number(),
+  lastError: z.string().nullable(),
+  result: z.record(z.string(), z.unknown()).nullable().describe("The tool's output once sent, e.g. the message id"),
+  sentAt: z.string().nullable(),
+  args: z.record(z.string(), z.unknown()).describe("Arguments the tool will be called with"),
+});
+
+const QuotaMetricOutputSchema = z.object({
+  used: z.number(),
+  limit: z.number().nullable().describe("null when unlimited"),
+  remaining: z.number().nullable(),
+});
+
+const AuditEventOutputSchema = z.object({
+  id: z.string(),
+  userId: z.string().nullable(),
+  userEmail: z.string().nullable(),
+  toolName: z.string(),
+  provider: z.string().nullable(),
+  arguments: z.unknown().describe("Redacted tool arguments"),
+  outcome: z.string(),
+  error: z.string().nullable(),
+  upstreamIds: z.record(z.string(), z.unknown()).nullable(),
+  latencyMs: z.number(),
+  createdAt: z.string(),
+});
+
+const SettingsOutputSchema = z.object({
+  confirmDestructiveActions: z.boolean(),
+});
 
 export class MyMCP extends McpAgent<Env, Record<string, never>, Props> {
   private auth!: Auth;
   private db!: DbClient;
   private integrations!: IntegrationService;
   private billing!: BillingService;
+  private audit!: AuditService;
+  private settings!: SettingsService;
+  private gmailWatch!: GmailWatchService;
+  private templates!: TemplateService;
+  private scheduledMessages!: ScheduledMessageService;
+  private currentUser: typeof schema.user.$inferSelect | null = null;
 
   server = new McpServer({
     name: "Admin Assistant MCP with Google, Gmail, Calendar, Drive, Notion & Slack Integrations",
@@ -34,11 +149,7 @@ export class MyMCP extends McpAgent<Env, Record<string, never>, Props> {
   });
 
   async init() {
-    // Initialize services
-    this.auth = createAuth(this.env);
-    this.db = createDbClient(this.env.DB); // D1 database binding
-    this.integrations = new IntegrationService(this.db);
-    this.billing = new BillingService(this.db);
+    this.initServices();
 
     // Register the integrations resource
     this.server.registerResource(
@@ -52,76 +163,20 @@ export class MyMCP extends McpAgent<Env, Record<string, never>, Props> {
       async () => {
         const userEmail = this.props?.email || null;
 
-        let integrations = {
-          google: {
-            connected: !!this.props?.accessToken,
-            email: userEmail,
-            description: "Base Google authentication for user profile",
-          },
-          gmail: {
-            connected: false,
-            email: userEmail,
-            description: "Send, read, and manage Google emails",
-          },
-          calendar: {
-            connected: false,
-            email: userEmail,
-            description: "Manage Google Calendar events and calendars",
-          },
-          drive: {
-            connected: false,
-            email: userEmail,
-            description: "Read, write, and manage files in Google Drive",
-          },
-          notion: {
-            connected: false,
-            user: userEmail,
-            description: "Access and manage Notion pages and databases",
-          },
-          slack: {
-            connected: false,
-            user: userEmail,
-            description: "Send messages and manage Slack workspace",
-          },
-        };
+        // Connection status comes from the integration table
+        const user = await this.getCurrentUser();
+        const connected = new Set(user ? (await this.integrations.getUserIntegrations(user.id)).map((i) => i.provider) : []);
 
-        // Load from KV for non-Google-base integrations
-        if (userEmail) {
-          const key = `user-providers::${userEmail}`;
-          const stored = await this.env.PROVIDERS_KV.get(key);
-          if (stored) {
-            const data = JSON.parse(stored);
-            integrations = {
-              ...integrations,
-              gmail: {
-                ...integrations.gmail,
-                connected: !!data.providers?.gmail?.accessToken,
-              },
-              calendar: {
-                ...integrations.calendar,
-                connected: !!data.providers?.calendar?.accessToken,
-              },
-              drive: {
-                ...integrations.drive,
-                connected: !!data.providers?.drive?.accessToken,
-              },
-              notion: {
-                ...integrations.notion,
-                connected: !!data.providers?.notion?.accessToken,
-              },
-              slack: {
-                ...integrations.slack,
-                connected: !!data.providers?.slack?.accessToken,
-              },
-            };
-          }
-        }
-
-        const integrationsWithUrls = Object.entries(integrations).map(([name, info]) => ({
-          name,
-          ...info,
-          connectUrl: this.generateAuthUrl(name.toLowerCase()),
-        }));
+        const integrationsWithUrls = await Promise.all(
+          Object.values(providers).map(async (provider) => ({
+            name: provider.id,
+            connected: connected.has(provider.id),
+            email: userEmail,
+            description: provider.description,
+            connectUrl: this.generateAuthUrl(provider.id),
+            disconnectUrl: connected.has(provider.id) ? await this.generateDisconnectUrl(provider.id) : null,
+          })),
+        );
 
         const html = `
         <!DOCTYPE html>
@@ -146,9 +201,24 @@ export class MyMCP extends McpAgent<Env, Record<string, never>, Props> {
         <div id="root"></div>
         <script type="text/babel">
             const { useState } = React;
-            const IntegrationCard = ({ integration }) => {
+            const IntegrationCard = ({ integration, onDisconnected }) => {
             const capitalizedName = integration.name.charAt(0).toUpperCase() + integration.name.slice(1);
             const [isHovered, setIsHovered] = useState(false);
+            const [isDisconnecting, setIsDisconnecting] = useState(false);
+            const disconnect = async () => {
+                if (!confirm('Disconnect ' + capitalizedName + '? Access will be revoked.')) return;
+                setIsDisconnecting(true);
+                try {
+                const res = await fetch(integration.disconnectUrl, { method: 'POST' });
+                const data = await res.json();
+                if (!res.ok) throw new Error(data.message || data.error);
+                onDisconnected(integration.name);
+                } catch (err) {
+                alert('Failed to disconnect: ' + err.message);
+                } finally {
+                setIsDisconnecting(false);
+                }
+            };
             const cardStyle = {
                 background: 'white',
                 border: '1px solid #e5e7eb',
@@ -178,14 +248,15 @@ export class MyMCP extends McpAgent<Env, Record<string, never>, Props> {
                     {!integration.connected ? (
                     <a href={integration.connectUrl} target="_blank" rel="noopener noreferrer" style={{ padding: '8px 16px', borderRadius: '6px', background: '#0070f3', color: 'white', textDecoration: 'none', fontSize: '14px', fontWeight: 500, display: 'inline-block' }}>Connect</a>
                     ) : (
-                    <button onClick={() => alert('To disconnect, reconnect to revoke access.')} style={{ padding: '8px 16px', borderRadius: '6px', background: '#ef4444', color: 'white', border: 'none', fontSize: '14px', fontWeight: 500, cursor: 'pointer' }}>Disconnect</button>
+                    <button onClick={disconnect} disabled={isDisconnecting} style={{ padding: '8px 16px', borderRadius: '6px', background: '#ef4444', color: 'white', border: 'none', fontSize: '14px', fontWeight: 500, cursor: isDisconnecting ? 'wait' : 'pointer', opacity: isDisconnecting ? 0.6 : 1 }}>{isDisconnecting ? 'Disconnecting…' : 'Disconnect'}</button>
                     )}
                 </div>
                 </div>
             );
             };
             const IntegrationsList = () => {
-            const integrations = ${JSON.stringify(integrationsWithUrls)};
+            const [integrations, setIntegrations] = useState(${JSON.stringify(integrationsWithUrls)});
+            const markDisconnected = (name) => setIntegrations(list => list.map(i => i.name === name ? { ...i, connected: false, disconnectUrl: null } : i));
             const [filter, setFilter] = useState('all');
             const filteredIntegrations = integrations.filter(i => filter === 'all' || (filter === 'connected' ? i.connected : !i.connected));
             return (
@@ -198,7 +269,7 @@ export class MyMCP extends McpAgent<Env, Record<string, never>, Props> {
                     ))}
                     </div>
                 </div>
-                {filteredIntegrations.map(i => <IntegrationCard key={i.name} integration={i} />)}
+                {filteredIntegrations.map(i => <IntegrationCard key={i.name} integration={i} onDisconnected={markDisconnected} />)}
                 {filteredIntegrations.length === 0 && <div style={{ textAlign: 'center', padding: '40px', color: '#6b7280' }}>No {filter} integrations found.</div>}
                 </div>
             );
@@ -221,15 +292,36 @@ export class MyMCP extends McpAgent<Env, Record<string, never>, Props> {
     );
 
     // Register the listIntegrations tool
-    this.server.registerTool(
+    this.registerTool(
       "listIntegrations",
       {
         title: "List Integrations",
         description: "List all available integrations and their connection status",
         inputSchema: z.object({}).strict(),
+        outputSchema: z.object({
+          integrations: z.array(
+            z.object({
+              provider: z.string(),
+              name: z.string(),
+              connected: z.boolean(),
+              connectUrl: z.string(),
+            }),
+          ),
+        }),
       },
       async () => {
+        const user = await this.getCurrentUser();
+        const connected = new Set(user ? (await this.integrations.getUserIntegrations(user.id)).map((i) => i.provider) : []);
+
         return {
+          structuredContent: {
+            integrations: Object.values(providers).map((provider) => ({
+              provider: provider.id,
+              name: provider.name,
+              connected: connected.has(provider.id),
+              connectUrl: this.generateAuthUrl(provider.id),
+            })),
+          },
           content: [
             {
               type: "text" as const,
@@ -245,187 +337,798 @@ export class MyMCP extends McpAgent<Env, Record<string, never>, Props> {
           ],
         };
       },
+      undefined,
+      { exempt: true },
     );
 
-    // Register Google base auth tool
-    await this.registerGoogleTools();
-
-    // Register other tools
-    await this.registerGmailTools();
-    await this.registerCalendarTools();
-    await this.registerDriveTools();
-    await this.registerNotionTools();
-    await this.registerSlackTools();
-  }
-
-  // Google base auth
-  private async registerGoogleTools() {
-    this.server.registerTool(
-      "userInfoGoogle",
+    this.registerTool(
+      "disconnect_integration",
       {
-        title: "userInfoGoogle",
-        description: "Get authenticated user information from Google",
-        inputSchema: z.object({}).strict(),
-        annotations: { readOnlyHint: true, idempotentHint: true },
+        title: "Disconnect Integration",
+        description: "Disconnect an integration: revokes access at the provider and deletes the stored credentials",
+        inputSchema: z
+          .object({
+            provider: z.enum(Object.keys(providers) as [string, ...string[]]).describe("Integration to disconnect"),
+          })
+          .strict(),
+        outputSchema: z.object({
+          provider: z.string(),
+          disconnected: z.boolean().describe("False when the integration was not connected"),
+          revokedUpstream: z.boolean(),
+          warning: z.string().optional(),
+        }),
+        annotations: { destructiveHint: true, idempotentHint: true },
       },
-      async () => {
-        if (!this.props?.accessToken) {
-          return this.authorizationRequired("google", "Google integration is required", "userInfoGoogle");
+      async ({ provider: providerId }) => {
+        const provider = getProvider(providerId)!;
+        const user = await this.getCurrentUser();
+        if (!user) {
+          return this.authorizationRequired("google", "User not found. Please authenticate with Google first.");
         }
 
         try {
-          const response = await fetch("https://www.googleapis.com/oauth2/v2/userinfo", {
-            headers: {
-              Authorization: `Bearer ${this.props.accessToken}`,
-            },
-          });
+          const result = await disconnectIntegration(this.integrations, user.id, provider, this.env);
+          if (!result) {
+            return structuredResult(
+              { provider: provider.id, disconnected: false, revokedUpstream: false },
+              `${provider.name} is not connected.`,
+            );
+          }
 
-          if (!response.ok) {
-            throw new Error(`Failed to fetch user info: ${response.statusText}`);
+          let text = `${provider.name} disconnected.`;
+          if (result.warning) {
+            text += ` Stored credentials were deleted, but revoking access at ${provider.name} failed: ${result.warning}`;
+          } else if (!result.revokedUpstream && provider.upstreamGrant) {
+            text += ` The ${provider.upstreamGrant} grant is still used by other connected integrations and was not revoked upstream.`;
           }
 
-          const user = await response.json();
+          return structuredResult({ ...result, disconnected: true }, text);
+        } catch (err: any) {
           return {
-            content: [{ type: "text", text: JSON.stringify(user, null, 2) }],
+            content: [{ type: "text", text: `Error: ${err.message}` }],
+            isError: true,
           };
-        } catch (error: any) {
+        }
+      },
+      undefined,
+      { exempt: true },
+    );
+
+    this.registerAuditTools();
+    this.registerBillingTools();
+    this.registerSettingsTools();
+    this.registerMailboxWatchTools();
+    this.registerTemplateTools();
+    this.registerScheduledMessageTools();
+
+    // Register every provider's tools from the registry
+    for (const provider of Object.values(providers)) {
+      this.registerProviderTools(provider);
+    }
+  }
+
+  // Audit log resource and query tool
+  private initServices() {
+    this.auth = createAuth(this.env);
+    this.db = createDbClient(this.env.DB); // D1 database binding
+    this.integrations = new IntegrationService(this.db, createTokenCipher(this.env));
+    this.billing = new BillingService(this.db);
+    this.audit = new AuditService(this.db);
+    this.settings = new SettingsService(this.db);
+    this.gmailWatch = new GmailWatchService(this.db, this.integrations, this.env);
+    this.templates = new TemplateService(this.db);
+    this.scheduledMessages = new ScheduledMessageService(this.db, this.integrations, this.billing, this.audit, this.env);
+  }
+
+  /**
+   * Alarm callback for a message queued with sendAt
+   */
+  async dispatchScheduledMessage(payload: { id: string }) {
+    // Alarms can wake the agent without running init()
+    if (!this.scheduledMessages) this.initServices();
+
+    const outcome = await this.scheduledMessages.dispatch(payload.id);
+    if (outcome.retryAt) {
+      await this.schedule(outcome.retryAt, "dispatchScheduledMessage", payload);
+    }
+  }
+
+  private registerAuditTools() {
+    this.server.registerResource(
+      "audit-recent",
+      "audit://recent",
+      {
+        title: "Recent Activity",
+        description: "The 50 most recent tool invocations made on your behalf",
+        mimeType: "application/json",
+      },
+      async () => {
+        const user = await this.getCurrentUser();
+        const events = user ? await this.audit.getRecent(user.id) : [];
+
+        return {
+          contents: [
+            {
+              uri: "audit://recent",
+              mimeType: "application/json",
+              text: JSON.stringify(events, null, 2),
+            },
+          ],
+        };
+      },
+    );
+
+    this.registerTool(
+      "query_audit_log",
+      {
+        title: "Query Audit Log",
+        description:
+          "Search the log of actions taken on users' behalf (e.g. who deleted an email). Admins can query any user; others see only their own activity.",
+        inputSchema: z
+          .object({
+            userEmail: z.string().optional().describe("Only events for this user (admins only)"),
+            toolName: z.string().optional().describe("Tool name, e.g. 'delete_email'"),
+            provider: z.string().optional().describe("Provider id, e.g. 'gmail'"),
+            outcome: z
+              .enum(["success", "error", "authorization_required", "quota_exceeded", "confirmation_required"])
+              .optional()
+              .describe("Invocation outcome"),
+            upstreamId: z.string().optional().describe("Upstream object id (message id, event id, Slack ts, ...)"),
+            since: z.string().optional().describe("Only events at or after this time (ISO 8601)"),
+            until: z.string().optional().describe("Only events at or before this time (ISO 8601)"),
+            limit: z.number().min(1).max(200).optional().default(50).describe("Maximum number of events to return"),
+          })
+          .strict(),
+        outputSchema: z.object({
+          totalEvents: z.number(),
+          events: z.array(AuditEventOutputSchema),
+        }),
+        annotations: { readOnlyHint: true },
+      },
+      async (args) => {
+        const user = await this.getCurrentUser();
+        if (!user) {
+          return this.authorizationRequired("google", "User not found. Please authenticate with Google first.");
+        }
+
+        const isAdmin = this.isAdmin(user.email);
+        if (args.userEmail && args.userEmail !== user.email && !isAdmin) {
           return {
-            content: [{ type: "text", text: `Error: ${error.message}` }],
+            content: [{ type: "text", text: "Error: Only admins can query other users' activity" }],
+            isError: true,
           };
         }
+
+        const events = await this.audit.query({
+          userId: isAdmin ? undefined : user.id,
+          userEmail: args.userEmail,
+          toolName: args.toolName,
+          provider: args.provider,
+          outcome: args.outcome,
+          upstreamId: args.upstreamId,
+          since: args.since ? new Date(args.since) : undefined,
+          until: args.until ? new Date(args.until) : undefined,
+          limit: args.limit,
+        });
+
+        return structuredResult({
+          totalEvents: events.length,
+          events: events.map((event) => ({ ...event, createdAt: event.createdAt.toISOString() })),
+        });
       },
     );
   }
 
-  // ── Gmail tools registration ────────────────────────────────
-  private async registerGmailTools() {
-    for (const [toolName, toolDef] of Object.entries(gmailTools)) {
-      this.server.registerTool(
-        toolName,
-        {
-          description: toolDef.description,
-          inputSchema: toolDef.schema.shape ?? {},
-        },
-        async (args: z.infer<typeof toolDef.schema>) => {
-          const [ctx, authError] = await this.getGmailContext();
-          if (!ctx) return authError;
-
-          try {
-            return await toolDef.handler(ctx, args as any);
-          } catch (err: any) {
-            return {
-              content: [{ type: "text", text: `Error: ${err.message}` }],
-            };
-          }
-        },
-      );
-    }
+  // Usage and plan limits
+  private registerBillingTools() {
+    this.registerTool(
+      "get_usage",
+      {
+        title: "Get Usage",
+        description: "Show this month's API calls and emails sent against the limits of your plan",
+        inputSchema: {},
+        outputSchema: z.object({
+          plan: z.enum(["free", "pro", "enterprise"]),
+          month: z.string().describe("YYYY-MM"),
+          resetsAt: z.string(),
+          apiCalls: QuotaMetricOutputSchema,
+          emailsSent: QuotaMetricOutputSchema,
+        }),
+        annotations: { readOnlyHint: true },
+      },
+      async () => {
+        const user = await this.getCurrentUser();
+        if (!user) {
+          return this.authorizationRequired("google", "User not found. Please authenticate with Google first.");
+        }
+
+        return structuredResult(await this.billing.getUsageSummary(user.id));
+      },
+      undefined,
+      { exempt: true },
+    );
+  }
+
+  // Per-user preferences
+  private registerSettingsTools() {
+    this.registerTool(
+      "get_settings",
+      {
+        title: "Get Settings",
+        description: "Show your assistant preferences, such as whether destructive actions require confirmation",
+        inputSchema: {},
+        outputSchema: SettingsOutputSchema,
+        annotations: { readOnlyHint: true },
+      },
+      async () => {
+        const user = await this.getCurrentUser();
+        if (!user) {
+          return this.authorizationRequired("google", "User not found. Please authenticate with Google first.");
+        }
+
+        return structuredResult(await this.settings.getSettings(user.id));
+      },
+    );
+
+    this.registerTool(
+      "update_settings",
+      {
+        title: "Update Settings",
+        description:
+          "Update your assistant preferences. Set confirmDestructiveActions to false to let delete tools run without a preview and confirmation step.",
+        inputSchema: z
+          .object({
+            confirmDestructiveActions: z
+              .boolean()
+              .optional()
+              .describe("Require a preview and confirmation token before deleting emails, events, files, messages or labels"),
+          })
+          .strict(),
+        outputSchema: SettingsOutputSchema,
+        annotations: { idempotentHint: true },
+      },
+      async (args) => {
+        const user = await this.getCurrentUser();
+        if (!user) {
+          return this.authorizationRequired("google", "User not found. Please authenticate with Google first.");
+        }
+
+        return structuredResult(await this.settings.updateSettings(user.id, args));
+      },
+    );
+  }
+
+  // Gmail push notifications; the changes themselves are recorded by the /webhooks/gmail route
+  private registerMailboxWatchTools() {
+    const gmail = getProvider("gmail")!;
+
+    this.registerTool(
+      "watch_mailbox",
+      {
+        title: "Watch Mailbox",
+        description:
+          "Subscribe to Gmail push notifications so new and changed messages are recorded as they happen (read them with get_mailbox_changes). Calling it again renews the 7-day subscription",
+        inputSchema: z.object({
+          labelIds: z
+            .array(z.string())
+            .optional()
+            .describe("Only watch messages with these labels, e.g. ['INBOX']. Default: the whole mailbox"),
+        }),
+        outputSchema: MailboxWatchOutputSchema,
+        annotations: { idempotentHint: true },
+      },
+      async (args) => {
+        if (!this.env.GMAIL_PUBSUB_TOPIC) {
+          return { content: [{ type: "text", text: "Error: Gmail push notifications are not configured on this server" }], isError: true };
+        }
+
+        const [ctx, authError] = await this.getProviderContext(gmail, "watch_mailbox");
+        if (authError) return authError;
+        // getProviderContext has already resolved the user
+        const user = (await this.getCurrentUser())!;
+
+        try {
+          const watch = await this.gmailWatch.startWatch(user.id, ctx.gmail, this.env.GMAIL_PUBSUB_TOPIC, args.labelIds);
+          return structuredResult(watch, `Watching ${watch.emailAddress} until ${watch.expiration}`);
+        } catch (err) {
+          if (err instanceof GmailWatchError) return errorResult(err.message);
+          throw err;
+        }
+      },
+      gmail.id,
+    );
+
+    this.registerTool(
+      "stop_mailbox_watch",
+      {
+        title: "Stop Mailbox Watch",
+        description: "Stop Gmail push notifications and discard changes not yet read",
+        inputSchema: z.object({}).strict(),
+        outputSchema: z.object({ stopped: z.boolean().describe("False when no watch was active") }),
+        annotations: { idempotentHint: true },
+      },
+      async () => {
+        const [ctx, authError] = await this.getProviderContext(gmail, "stop_mailbox_watch");
+        if (authError) return authError;
+        // getProviderContext has already resolved the user
+        const user = (await this.getCurrentUser())!;
+
+        const stopped = await this.gmailWatch.stopWatch(user.id, ctx.gmail);
+        return structuredResult({ stopped }, stopped ? "Mailbox watch stopped" : "No mailbox watch was active");
+      },
+      gmail.id,
+    );
+
+    this.registerTool(
+      "get_mailbox_changes",
+      {
+        title: "Get Mailbox Changes",
+        description:
+          "List Gmail changes (messages added or deleted, labels added or removed) recorded since they were last read, oldest first. Requires watch_mailbox",
+        inputSchema: z.object({
+          limit: z.number().min(1).max(500).optional().default(100).describe("Maximum number of changes to return"),
+          acknowledge: z
+            .boolean()
+            .optional()
+            .default(true)
+            .describe("Remove the returned changes so the next call continues after them; set false to peek"),
+        }),
+        outputSchema: z.object({
+          watch: MailboxWatchOutputSchema.nullable().describe("The active watch, or null when the mailbox is not watched"),
+          changes: z.array(
+            z.object({
+              type: z.enum(["messageAdded", "messageDeleted", "labelsAdded", "labelsRemoved"]),
+              messageId: z.string(),
+              threadId: z.string().nullable(),
+              labelIds: z
+                .array(z.string())
+                .nullable()
+                .describe("For messageAdded, the message's labels; for label changes, the labels added or removed"),
+              historyId: z.string(),
+              recordedAt: z.string(),
+            }),
+          ),
+          hasMore: z.boolean(),
+        }),
+      },
+      async (args) => {
+        const user = await this.getCurrentUser();
+        if (!user) {
+          return this.authorizationRequired("google", "User not found. Please authenticate with Google first.");
+        }
+
+        const [watch, { changes, hasMore }] = await Promise.all([
+          this.gmailWatch.getWatch(user.id),
+          this.gmailWatch.listChanges(user.id, { limit: args.limit, acknowledge: args.acknowledge }),
+        ]);
+        return structuredResult({ watch, changes, hasMore });
+      },
+      gmail.id,
+    );
   }
 
-  // ── Calendar tools registration ─────────────────────
-  private async registerCalendarTools() {
-    for (const [toolName, toolDef] of Object.entries(calendarTools)) {
-      this.server.registerTool(
+  private registerTemplateTools() {
+    const gmail = getProvider("gmail")!;
+    const variablesHelp = "May contain {{variable}} placeholders, filled in by send_from_template";
+
+    this.registerTool(
+      "create_email_template",
+      {
+        title: "Create Email Template",
+        description: "Save a reusable email with {{variable}} placeholders, e.g. 'Hi {{firstName}}'",
+        inputSchema: z.object({
+          name: z.string().min(1).describe("Unique name for the template"),
+          subject: z.string().describe(`Email subject. ${variablesHelp}`),
+          body: z.string().describe(`Plain text body. ${variablesHelp}`),
+          htmlBody: z.string().optional().describe(`HTML version of the body. ${variablesHelp}; values are HTML-escaped`),
+        }),
+        outputSchema: TemplateOutputSchema,
+      },
+      async ({ name, subject, body, htmlBody }) => {
+        const user = await this.getCurrentUser();
+        if (!user) {
+          return this.authorizationRequired("google", "User not found. Please authenticate with Google first.");
+        }
+
+        try {
+          const template = await this.templates.createTemplate(user.id, { name, subject, body, htmlBody });
+          return structuredResult(template, `Created template "${template.name}" (${template.id})`);
+        } catch (err) {
+          if (err instanceof TemplateError) return errorResult(err.message);
+          throw err;
+        }
+      },
+    );
+
+    this.registerTool(
+      "list_email_templates",
+      {
+        title: "List Email Templates",
+        description: "List saved email templates and the variables each one needs",
+        inputSchema: z.object({}).strict(),
+        outputSchema: z.object({ templates: z.array(TemplateOutputSchema) }),
+        annotations: { readOnlyHint: true },
+      },
+      async () => {
+        const user = await this.getCurrentUser();
+        if (!user) {
+          return this.authorizationRequired("google", "User not found. Please authenticate with Google first.");
+        }
+
+        const templates = await this.templates.listTemplates(user.id);
+        return structuredResult(
+          { templates },
+          templates.length
+            ? templates.map((t) => `- ${t.name} (${t.id})${t.variables.length ? `: ${t.variables.join(", ")}` : ""}`).join("\n")
+            : "No email templates saved.",
+        );
+      },
+    );
+
+    this.registerTool(
+      "update_email_template",
+      {
+        title: "Update Email Template",
+        description: "Change a template's name, subject or bodies; omitted fields are kept",
+        inputSchema: z.object({
+          templateId: z.string().describe("ID of the template"),
+          name: z.string().min(1).optional(),
+          subject: z.string().optional(),
+          body: z.string().optional(),
+          htmlBody: z.string().nullable().optional().describe("New HTML body, or null to remove it"),
+        }),
+        outputSchema: TemplateOutputSchema,
+        annotations: { idempotentHint: true },
+      },
+      async ({ templateId, ...updates }) => {
+        const user = await this.getCurrentUser();
+        if (!user) {
+          return this.authorizationRequired("google", "User not found. Please authenticate with Google first.");
+        }
+
+        try {
+          const template = await this.templates.updateTemplate(user.id, templateId, updates);
+          if (!template) return errorResult(`Template ${templateId} not found`);
+          return structuredResult(template, `Updated template "${template.name}"`);
+        } catch (err) {
+          if (err instanceof TemplateError) return errorResult(err.message);
+          throw err;
+        }
+      },
+    );
+
+    this.registerTool(
+      "delete_email_template",
+      {
+        title: "Delete Email Template",
+        description: "Delete a saved email template",
+        inputSchema: z.object({ templateId: z.string().describe("ID of the template") }),
+        outputSchema: z.object({ templateId: z.string(), deleted: z.boolean().describe("False when the template did not exist") }),
+        annotations: { destructiveHint: true, idempotentHint: true },
+      },
+      async ({ templateId }) => {
+        const user = await this.getCurrentUser();
+        if (!user) {
+          return this.authorizationRequired("google", "User not found. Please authenticate with Google first.");
+        }
+
+        const deleted = await this.templates.deleteTemplate(user.id, templateId);
+        return structuredResult({ templateId, deleted }, deleted ? "Template deleted" : `Template ${templateId} not found`);
+      },
+    );
+
+    this.registerTool(
+      "send_from_template",
+      {
+        title: "Send From Template",
+        description:
+          "Fill in a saved template's {{variables}} and send the result via Gmail, or save it as a draft. Fails without sending when a variable has no value",
+        inputSchema: SendEmailSchema.omit({ subject: true, body: true, htmlBody: true, mimeType: true }).extend({
+          templateId: z.string().describe("ID of the template (see list_email_templates)"),
+          variables: z.record(z.string(), z.string()).optional().default({}).describe("Value for each {{variable}} in the template"),
+          draft: z.boolean().optional().default(false).describe("Save as a draft instead of sending"),
+        }),
+        outputSchema: SentMessageOutputSchema.partial().extend(DraftOutputSchema.partial().shape),
+      },
+      async ({ templateId, variables, draft, ...message }) => {
+        const user = await this.getCurrentUser();
+        if (!user) {
+          return this.authorizationRequired("google", "User not found. Please authenticate with Google first.");
+        }
+
+        const template = await this.templates.getTemplate(user.id, templateId);
+        if (!template) return errorResult(`Template ${templateId} not found`);
+
+        let rendered: ReturnType<typeof renderTemplate>;
+        try {
+          rendered = renderTemplate(template, variables);
+        } catch (err) {
+          if (err instanceof TemplateError) return errorResult(err.message);
+          throw err;
+        }
+
+        // Goes through the same path as calling send_email or draft_email directly
+        const toolName = draft ? "draft_email" : "send_email";
+        return this.runProviderTool(gmail, toolName, gmail.tools[toolName], { ...message, ...rendered, mimeType: "text/plain" });
+      },
+      gmail.id,
+      { sendsEmail: (args) => !args.draft },
+    );
+  }
+
+  private registerScheduledMessageTools() {
+    this.registerTool(
+      "list_scheduled",
+      {
+        title: "List Scheduled Messages",
+        description: "List emails and Slack messages queued with sendAt, soonest first, with their delivery status",
+        inputSchema: z.object({
+          status: z
+            .enum(["pending", "sending", "sent", "failed", "cancelled"])
+            .optional()
+            .describe("Only list messages with this status. Default: all"),
+        }),
+        outputSchema: z.object({ messages: z.array(ScheduledMessageOutputSchema) }),
+        annotations: { readOnlyHint: true },
+      },
+      async (args) => {
+        const user = await this.getCurrentUser();
+        if (!user) {
+          return this.authorizationRequired("google", "User not found. Please authenticate with Google first.");
+        }
+
+        const messages = await this.scheduledMessages.listScheduled(user.id, args.status);
+        return structuredResult(
+          { messages },
+          messages.length
+            ? messages.map((m) => `- ${m.id}: ${m.tool} at ${m.sendAt} (${m.status}${m.lastError ? `: ${m.lastError}` : ""})`).join("\n")
+            : "No scheduled messages.",
+        );
+      },
+    );
+
+    this.registerTool(
+      "cancel_scheduled",
+      {
+        title: "Cancel Scheduled Message",
+        description: "Cancel a message queued with sendAt before it goes out",
+        inputSchema: z.object({ id: z.string().describe("ID of the scheduled message (see list_scheduled)") }),
+        outputSchema: ScheduledMessageOutputSchema,
+        annotations: { destructiveHint: true, idempotentHint: true },
+      },
+      async ({ id }) => {
+        const user = await this.getCurrentUser();
+        if (!user) {
+          return this.authorizationRequired("google", "User not found. Please authenticate with Google first.");
+        }
+
+        const message = await this.scheduledMessages.cancel(user.id, id);
+        if (!message) return errorResult(`Scheduled message ${id} not found`);
+        if (message.status !== "cancelled") {
+          return errorResult(`Scheduled message ${id} can no longer be cancelled (status: ${message.status})`);
+        }
+        return structuredResult(message, `Cancelled scheduled ${message.tool} ${id}`);
+      },
+    );
+  }
+
+  /**
+   * Registers a tool whose every invocation counts against the user's plan and is
+   * recorded in the audit log
+   */
+  private registerTool(
+    name: string,
+    config: ToolConfig,
+    callback: ToolCallback<ZodRawShapeCompat>,
+    provider?: string,
+    quota: ToolQuota = {},
+  ) {
+    const handler: ToolCallback<ZodRawShapeCompat> = async (args, extra) => {
+      const startedAt = Date.now();
+      let result: CallToolResult | undefined;
+      let thrown: any;
+
+      // Without a user the callback returns the authorization prompt, which is not metered
+      const user = quota.exempt ? null : await this.getCurrentUser();
+      const sendsEmail = typeof quota.sendsEmail === "function" ? quota.sendsEmail(args) : !!quota.sendsEmail;
+
+      let emailReserved = false;
+
+      try {
+        const quotaError = user ? await this.enforceQuota(user.id, sendsEmail) : null;
+        if (quotaError) {
+          result = quotaError;
+          return result;
+        }
+        emailReserved = !!user && sendsEmail;
+
+        result = await callback(args, extra);
+        return result;
+      } catch (err) {
+        thrown = err;
+        throw err;
+      } finally {
+        // Only emails that actually went out count against the sending quota, not failures or previews
+        if (emailReserved && (thrown || result?.isError || result?.structuredContent?.status === "confirmation_required")) {
+          await this.billing.releaseQuota(user!.id, "emailsSent");
+        }
+        await this.recordAudit(name, provider, args, result, thrown, Date.now() - startedAt);
+      }
+    };
+    this.server.registerTool(name, config, handler);
+  }
+
+  private async recordAudit(
+    toolName: string,
+    provider: string | undefined,
+    args: unknown,
+    result: CallToolResult | undefined,
+    thrown: any,
+    latencyMs: number,
+  ) {
+    try {
+      let outcome: AuditOutcome = "success";
+      let error: string | undefined;
+      if (thrown || result?.isError) {
+        outcome = "error";
+        error = thrown?.message || result?.content?.find((c) => c.type === "text")?.text;
+      }
+
+      // Structured responses that stopped the call before it reached the provider
+      const stopped = result?.structuredContent?.error ?? result?.structuredContent?.status;
+      if (typeof stopped === "string" && STOPPED_OUTCOMES.has(stopped)) {
+        outcome = stopped as AuditOutcome;
+        error = undefined;
+      }
+
+      const user = await this.getCurrentUser();
+      await this.audit.record({
+        userId: user?.id,
+        userEmail: this.props?.email,
         toolName,
-        {
-          description: toolDef.description,
-          inputSchema: toolDef.schema.shape ?? {},
-        },
-        async (args: z.infer<typeof toolDef.schema>) => {
-          const [ctx, authError] = await this.getCalendarContext();
-          if (!ctx) return authError;
-
-          try {
-            return await toolDef.handler(ctx, args as any);
-          } catch (err: any) {
-            return {
-              content: [{ type: "text", text: `Error: ${err.message}` }],
-            };
-          }
-        },
-      );
+        provider,
+        arguments: args,
+        outcome,
+        error,
+        upstreamIds: extractUpstreamIds(args, result),
+        latencyMs,
+      });
+    } catch (err) {
+      // Auditing must never break the tool call itself
+      console.error("Failed to record audit event:", err);
     }
   }
 
-  private async registerDriveTools() {
-    for (const [toolName, toolDef] of Object.entries(driveTools)) {
-      this.server.registerTool(
+  private registerProviderTools(provider: ProviderDefinition) {
+    for (const [toolName, toolDef] of Object.entries(provider.tools)) {
+      // Destructive tools take the token returned by their preview
+      let schema = toolDef.preview
+        ? toolDef.schema.extend({
+            confirmationToken: z
+              .string()
+              .optional()
+              .describe("Token returned by the preview call. Omit it to preview what will be affected."),
+          })
+        : toolDef.schema;
+      // ...and return either the preview or their usual output
+      let outputSchema = toolDef.preview
+        ? toolDef.outputSchema.partial().extend(ConfirmationOutputSchema.partial().shape)
+        : toolDef.outputSchema;
+
+      // Sending tools can be queued instead, returning the queued message
+      if (toolDef.schedulable) {
+        schema = schema.extend({
+          sendAt: z
+            .string()
+            .optional()
+            .describe("Send later instead: when, in ISO 8601 (e.g. 2024-01-15T09:00:00-08:00). See list_scheduled and cancel_scheduled"),
+        });
+        outputSchema = outputSchema.partial().extend({ scheduledMessage: ScheduledMessageOutputSchema.optional() });
+      }
+
+      this.registerTool(
         toolName,
         {
-          description: toolDef.description,
-          inputSchema: toolDef.schema.shape ?? {},
+          title: toolDef.title,
+          description: toolDef.preview
+            ? `${toolDef.description}. Requires confirmation: the first call returns a preview and a confirmationToken; call again with the token to proceed.`
+            : toolDef.description,
+          inputSchema: schema.shape ?? {},
+          outputSchema,
+          annotations: toolDef.annotations,
         },
-        async (args: z.infer<typeof toolDef.schema>) => {
-          const [ctx, authError] = await this.getDriveContext();
-          if (!ctx) return authError;
-
-          try {
-            return await toolDef.handler(ctx, args as any);
-          } catch (err: any) {
-            return {
-              content: [{ type: "text", text: `Error: ${err.message}` }],
-            };
-          }
+        async ({ confirmationToken, sendAt, ...args }: { confirmationToken?: string; sendAt?: string; [key: string]: unknown }) =>
+          sendAt
+            ? this.scheduleProviderTool(provider, toolName, args, sendAt)
+            : this.runProviderTool(provider, toolName, toolDef, args, confirmationToken),
+        provider.id,
+        {
+          sendsEmail: (args) =>
+            !args.sendAt && (typeof toolDef.sendsEmail === "function" ? toolDef.sendsEmail(args) : !!toolDef.sendsEmail),
         },
       );
     }
   }
 
-  // ── Notion tools registration ───────────────────
-  private async registerNotionTools() {
-    for (const [toolName, toolDef] of Object.entries(notionTools)) {
-      this.server.registerTool(
+  /**
+   * Runs a provider tool for the current user, asking for confirmation first when it is
+   * destructive. Quota is handled by registerTool.
+   */
+  private async runProviderTool(
+    provider: ProviderDefinition,
+    toolName: string,
+    toolDef: ToolDefinition<any>,
+    args: Record<string, unknown>,
+    confirmationToken?: string,
+  ): Promise<ToolResult> {
+    const [ctx, authError] = await this.getProviderContext(provider, toolName);
+    if (!ctx) return authError;
+
+    // getProviderContext has already resolved the user
+    const user = (await this.getCurrentUser())!;
+
+    // Checked before the preview so the user is not asked to confirm a call that cannot run
+    const missingScopes = await this.missingScopes(user.id, provider, toolDef.requiredScopes?.(args) ?? []);
+    if (missingScopes.length) {
+      return this.authorizationRequired(
+        provider.id,
+        `${toolName} with these arguments needs more ${provider.name} access (${missingScopes.join(", ")}). Please reauthorize ${provider.name} to grant it.`,
         toolName,
-        {
-          description: toolDef.description,
-          inputSchema: toolDef.schema.shape ?? {},
-        },
-        async (args: z.infer<typeof toolDef.schema>) => {
-          const [ctx, authError] = await this.getNotionContext();
-          if (!ctx) return authError;
-
-          try {
-            return await toolDef.handler(ctx, args as any);
-          } catch (err: any) {
-            return {
-              content: [{ type: "text", text: `Error: ${err.message}` }],
-            };
-          }
-        },
+        missingScopes,
       );
     }
+
+    let result: ToolResult;
+    try {
+      const confirmation = toolDef.preview
+        ? await this.requireConfirmation(user.id, toolName, toolDef, ctx, args, confirmationToken)
+        : { args };
+      result =
+        "result" in confirmation ? confirmation.result : await toolDef.handler(ctx, confirmation.args, this.linkedContexts(toolName));
+    } catch (err: any) {
+      result = err instanceof LinkedProviderUnavailable ? err.result : errorResult(err.message, upstreamStatusOf(err));
+    }
+    return result;
   }
 
-  // ── Slack tools registration ────────────────────
-  private async registerSlackTools() {
-    for (const [toolName, toolDef] of Object.entries(slackTools)) {
-      this.server.registerTool(
-        toolName,
-        {
-          description: toolDef.description,
-          inputSchema: toolDef.schema.shape ?? {},
-        },
-        async (args: z.infer<typeof toolDef.schema>) => {
-          const [ctx, authError] = await this.getSlackContext();
-          if (!ctx) return authError;
-
-          try {
-            return await toolDef.handler(ctx, args as any);
-          } catch (err: any) {
-            return {
-              content: [{ type: "text", text: `Error: ${err.message}` }],
-            };
-          }
-        },
-      );
+  /**
+   * Queues a schedulable tool call to run at sendAt. A sent email counts against the
+   * sending quota when it goes out, not now.
+   */
+  private async scheduleProviderTool(
+    provider: ProviderDefinition,
+    toolName: string,
+    args: Record<string, unknown>,
+    sendAt: string,
+  ): Promise<ToolResult> {
+    const [ctx, authError] = await this.getProviderContext(provider, toolName);
+    if (!ctx) return authError;
+
+    const when = new Date(sendAt);
+    if (isNaN(when.getTime())) return errorResult(`Invalid sendAt: ${sendAt}`);
+    if (when.getTime() <= Date.now()) return errorResult("sendAt must be in the future");
+
+    // getProviderContext has already resolved the user
+    const user = (await this.getCurrentUser())!;
+    let scheduled;
+    try {
+      scheduled = await this.scheduledMessages.schedule(user.id, provider.id, toolName, args, when);
+    } catch (err) {
+      if (err instanceof ScheduledMessageError) return errorResult(err.message);
+      throw err;
     }
+    await this.schedule(when, "dispatchScheduledMessage", { id: scheduled.id });
+    return structuredResult({ scheduledMessage: scheduled }, `Scheduled ${toolName} for ${scheduled.sendAt} (id: ${scheduled.id})`);
   }
 
   // ── Helpers ─────────────────────────────────────────────────
-  private generateAuthUrl(provider: string, returnContext?: any): string {
+  private generateAuthUrl(provider: string, returnContext?: any, scopes?: string[]): string {
     const baseUrl = this.env.SERVER_URL;
     const url = new URL("/authorize", baseUrl);
     url.searchParams.set("provider", provider);
+    if (scopes?.length) {
+      url.searchParams.set("scope", scopes.join(" "));
+    }
 
     // Include Google email in URL
     if (this.props?.email) {
@@ -438,248 +1141,245 @@ export class MyMCP extends McpAgent<Env, Record<string, never>, Props> {
     return url.toString();
   }
 
-  private authorizationRequired(provider: string, message: string, toolName?: string) {
-    const authUrl = this.generateAuthUrl(provider, {
-      returnTool: toolName,
-      timestamp: Date.now(),
-    });
-
-    return {
-      content: [
-        {
-          type: "text" as const,
-          text: JSON.stringify(
-            {
-              error: "authorization_required",
-              provider,
-              message,
-              authorizationUrl: authUrl,
-              instructions: `Please visit the authorization URL to connect ${provider}, then retry this action.`,
-            },
-            null,
-            2,
-          ),
-        },
-      ],
-    };
+  // Single-use link the integrations dashboard calls to disconnect a provider
+  private async generateDisconnectUrl(provider: string): Promise<string> {
+    const { stateToken } = await createOAuthState({ action: "disconnect", email: this.props?.email, provider }, this.env.OAUTH_KV);
+    const url = new URL(`/integrations/${provider}/disconnect`, this.env.SERVER_URL);
+    url.searchParams.set("token", stateToken);
+    return url.toString();
   }
 
-  // Fixed context getters that check KV FIRST, then fall back to props
-
-  private async getGmailContext(): Promise<[any, null] | [null, any]> {
+  private async getCurrentUser() {
     const userEmail = this.props?.email;
-    if (!userEmail) {
-      return [null, this.authorizationRequired("gmail", "No user found.")];
-    }
-
-    try {
-      // Check if DB binding exists
-      if (!this.env.DB) {
-        console.error("D1 Database binding 'DB' not found in environment");
-        return [null, this.authorizationRequired("gmail", "Database not configured.")];
-      }
+    if (!userEmail) return null;
 
-      // Get user from database
+    // Props are fixed for the lifetime of this agent, so the user can be cached once found
+    if (!this.currentUser) {
       const user = await this.db.query.user.findFirst({
         where: eq(schema.user.email, userEmail),
       });
-
-      if (!user) {
-        console.log("User not found in database:", userEmail);
-        return [null, this.authorizationRequired("gmail", "User not found. Please authenticate with Google first.")];
-      }
-
-      // Get integration from database
-      const gmailIntegration = await this.integrations.getIntegration(user.id, "gmail");
-
-      if (!gmailIntegration?.accessToken) {
-        return [null, this.authorizationRequired("gmail", "Gmail not connected. Please authorize Gmail integration.")];
-      }
-
-      const oauth = new OAuth2Client();
-      oauth.setCredentials({
-        access_token: gmailIntegration.accessToken,
-        refresh_token: gmailIntegration.refreshToken,
-      });
-
-      return [createGmailContext(oauth), null];
-    } catch (error: any) {
-      console.error("Error in getGmailContext:", error);
-      return [
-        null,
-        {
-          content: [{ type: "text", text: `Database error: ${error.message}` }],
-        },
-      ];
+      this.currentUser = user || null;
     }
+    return this.currentUser;
   }
 
-  private async getCalendarContext(): Promise<[any, null] | [null, any]> {
-    const userEmail = this.props?.email;
-    if (!userEmail) {
-      return [null, this.authorizationRequired("calendar", "No user found.")];
-    }
+  private isAdmin(email: string) {
+    const admins = (this.env.ADMIN_EMAILS || "").split(",").map((e) => e.trim().toLowerCase());
+    return admins.includes(email.toLowerCase());
+  }
 
-    try {
-      if (!this.env.DB) {
-        console.error("D1 Database binding 'DB' not found");
-        return [null, this.authorizationRequired("calendar", "Database not configured.")];
+  /**
+   * Two-phase protocol for destructive tools. Without a token, returns a preview and
+   * stores a single-use token bound to the user, tool and exact arguments. When the
+   * action may proceed (valid token, or the user opted out), returns the arguments to
+   * run it with: the preview's confirmedArgs if it pinned them down.
+   */
+  private async requireConfirmation(
+    userId: string,
+    toolName: string,
+    toolDef: ToolDefinition<any>,
+    ctx: any,
+    args: Record<string, unknown>,
+    confirmationToken?: string,
+  ): Promise<{ result: ToolResult } | { args: Record<string, unknown> }> {
+    const { confirmDestructiveActions } = await this.settings.getSettings(userId);
+    if (!confirmDestructiveActions) return { args };
+
+    if (confirmationToken) {
+      const pending = await consumeOAuthState<{
+        action: string;
+        userId: string;
+        toolName: string;
+        args: string;
+        confirmedArgs?: Record<string, unknown>;
+      }>(confirmationToken, this.env.OAUTH_KV);
+      if (
+        pending?.action === "confirm" &&
+        pending.userId === userId &&
+        pending.toolName === toolName &&
+        pending.args === JSON.stringify(args)
+      ) {
+        return { args: pending.confirmedArgs ?? args };
       }
 
-      const user = await this.db.query.user.findFirst({
-        where: eq(schema.user.email, userEmail),
-      });
-
-      if (!user) {
-        return [null, this.authorizationRequired("calendar", "User not found.")];
-      }
+      return {
+        result: errorResult(
+          "Invalid or expired confirmation token, or the arguments changed since the preview. Call the tool again without a token to get a new preview.",
+        ),
+      };
+    }
 
-      const calendarIntegration = await this.integrations.getIntegration(user.id, "calendar");
+    const { confirmedArgs, ...preview } = await toolDef.preview!(ctx, args);
+    const { stateToken } = await createOAuthState(
+      { action: "confirm", userId, toolName, args: JSON.stringify(args), confirmedArgs },
+      this.env.OAUTH_KV,
+      CONFIRMATION_TTL_SECONDS,
+    );
 
-      if (!calendarIntegration?.accessToken) {
-        return [null, this.authorizationRequired("calendar", "Calendar not connected.")];
-      }
+    const result = structuredResult({
+      status: "confirmation_required",
+      tool: toolName,
+      ...preview,
+      confirmationToken: stateToken,
+      expiresAt: new Date(Date.now() + CONFIRMATION_TTL_SECONDS * 1000).toISOString(),
+      instructions: `Nothing has been changed yet. Show this preview to the user and, once they agree, call ${toolName} again with the same arguments and this confirmationToken.`,
+    });
+    return { result };
+  }
 
-      const oauth = new OAuth2Client();
-      oauth.setCredentials({
-        access_token: calendarIntegration.accessToken,
-        refresh_token: calendarIntegration.refreshToken,
-      });
+  // Reserves one API call (and one sent email when applicable) against the user's plan
+  private async enforceQuota(userId: string, sendsEmail?: boolean) {
+    const apiCalls = await this.billing.consumeQuota(userId, "apiCalls");
+    if (!apiCalls.allowed) return this.quotaExceeded(apiCalls);
 
-      return [createCalendarContext(oauth), null];
-    } catch (error: any) {
-      console.error("Error in getCalendarContext:", error);
-      return [
-        null,
-        {
-          content: [{ type: "text", text: `Database error: ${error.message}` }],
-        },
-      ];
+    if (sendsEmail) {
+      const emailsSent = await this.billing.consumeQuota(userId, "emailsSent");
+      if (!emailsSent.allowed) return this.quotaExceeded(emailsSent);
     }
+    return null;
   }
 
-  private async getDriveContext(): Promise<[any, null] | [null, any]> {
-    const userEmail = this.props?.email;
-    if (!userEmail) {
-      return [null, this.authorizationRequired("drive", "No user found.")];
-    }
-
-    try {
-      if (!this.env.DB) {
-        console.error("D1 Database binding 'DB' not found");
-        return [null, this.authorizationRequired("drive", "Database not configured.")];
-      }
-
-      const user = await this.db.query.user.findFirst({
-        where: eq(schema.user.email, userEmail),
-      });
+  private quotaExceeded(check: QuotaCheck) {
+    const details = {
+      error: "quota_exceeded",
+      metric: check.metric,
+      plan: check.plan,
+      used: check.used,
+      limit: check.limit,
+      resetsAt: check.resetsAt,
+      message: `Monthly ${check.metric} limit of ${check.limit} reached on the ${check.plan} plan. Upgrade your plan or wait until ${check.resetsAt}.`,
+    };
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(details, null, 2) }],
+      structuredContent: details,
+      isError: true,
+    };
+  }
 
-      if (!user) {
-        return [null, this.authorizationRequired("drive", "User not found.")];
-      }
+  private authorizationRequired(provider: string, message: string, toolName?: string, scopes?: string[]) {
+    const authUrl = this.generateAuthUrl(
+      provider,
+      {
+        returnTool: toolName,
+        timestamp: Date.now(),
+      },
+      scopes,
+    );
 
-      const driveIntegration = await this.integrations.getIntegration(user.id, "drive");
+    const details = {
+      error: "authorization_required",
+      provider,
+      message,
+      authorizationUrl: authUrl,
+      instructions: `Please visit the authorization URL to connect ${provider}, then retry this action.`,
+    };
+    return {
+      content: [{ type: "text" as const, text: JSON.stringify(details, null, 2) }],
+      structuredContent: details,
+      isError: true,
+    };
+  }
 
-      if (!driveIntegration?.accessToken) {
-        return [null, this.authorizationRequired("drive", "Google Drive not connected.")];
-      }
+  // Scopes among `required` the user's stored grant for the provider does not include
+  private async missingScopes(userId: string, provider: ProviderDefinition, required: string[]) {
+    if (!required.length) return [];
+    const integration = await this.integrations.getIntegration(userId, provider.id);
+    const granted = new Set(integration?.scope?.split(provider.authorization.scopeSeparator ?? " ") ?? []);
+    return required.filter((scope) => !granted.has(scope));
+  }
 
-      const oauth = new OAuth2Client();
-      oauth.setCredentials({
-        access_token: driveIntegration.accessToken,
-        refresh_token: driveIntegration.refreshToken,
-      });
+  // Contexts of the user's other integrations, resolved on demand by cross-provider tools
+  private linkedContexts(toolName: string): LinkedContexts {
+    return {
+      get: async (providerId) => {
+        const provider = getProvider(providerId);
+        if (!provider) throw new Error(`Unknown provider: ${providerId}`);
 
-      return [createDriveContext(oauth), null];
-    } catch (error: any) {
-      console.error("Error in getDriveContext:", error);
-      return [
-        null,
-        {
-          content: [{ type: "text", text: `Database error: ${error.message}` }],
-        },
-      ];
-    }
+        const [ctx, authError] = await this.getProviderContext(provider, toolName);
+        if (!ctx) throw new LinkedProviderUnavailable(authError);
+        return ctx;
+      },
+    };
   }
 
-  private async getNotionContext(): Promise<[any, null] | [null, any]> {
+  // Resolves the current user's stored credentials for a provider and builds its tool context
+  private async getProviderContext(provider: ProviderDefinition, toolName?: string): Promise<[any, null] | [null, any]> {
     const userEmail = this.props?.email;
     if (!userEmail) {
-      return [null, this.authorizationRequired("notion", "No user found.")];
+      return [null, this.authorizationRequired(provider.id, "No user found.", toolName)];
     }
 
     try {
+      // Check if DB binding exists
       if (!this.env.DB) {
-        console.error("D1 Database binding 'DB' not found");
-        return [null, this.authorizationRequired("notion", "Database not configured.")];
+        console.error("D1 Database binding 'DB' not found in environment");
+        return [null, this.authorizationRequired(provider.id, "Database not configured.", toolName)];
       }
 
-      const user = await this.db.query.user.findFirst({
-        where: eq(schema.user.email, userEmail),
-      });
+      // Get user from database
+      const user = await this.getCurrentUser();
 
       if (!user) {
-        return [null, this.authorizationRequired("notion", "User not found.")];
-      }
-
-      const notionIntegration = await this.integrations.getIntegration(user.id, "notion");
-
-      if (!notionIntegration?.accessToken) {
-        return [null, this.authorizationRequired("notion", "Notion not connected.")];
+        console.log("User not found in database:", userEmail);
+        return [null, this.authorizationRequired(provider.id, "User not found. Please authenticate with Google first.", toolName)];
       }
 
-      return [createNotionContext(notionIntegration.accessToken), null];
-    } catch (error: any) {
-      console.error("Error in getNotionContext:", error);
-      return [
-        null,
-        {
-          content: [{ type: "text", text: `Database error: ${error.message}` }],
-        },
-      ];
-    }
-  }
-
-  private async getSlackContext(): Promise<[any, null] | [null, any]> {
-    const userEmail = this.props?.email;
-    if (!userEmail) {
-      return [null, this.authorizationRequired("slack", "No user found.")];
-    }
-
-    try {
-      if (!this.env.DB) {
-        console.error("D1 Database binding 'DB' not found");
-        return [null, this.authorizationRequired("slack", "Database not configured.")];
+      // Get integration from database
+      const integration = await this.integrations.getIntegration(user.id, provider.id);
+
+      if (!integration?.accessToken) {
+        return [
+          null,
+          this.authorizationRequired(
+            provider.id,
+            `${provider.name} not connected. Please authorize ${provider.name} integration.`,
+            toolName,
+          ),
+        ];
       }
 
-      const user = await this.db.query.user.findFirst({
-        where: eq(schema.user.email, userEmail),
-      });
-
-      if (!user) {
-        return [null, this.authorizationRequired("slack", "User not found.")];
-      }
+      let credentials: ProviderCredentials;
 
-      const slackIntegration = await this.integrations.getIntegration(user.id, "slack");
+      // Refresh expired access tokens and persist them for the next call
+      try {
+        credentials = await ensureFreshCredentials(this.integrations, provider, integration, this.env);
+      } catch (error: any) {
+        if (error instanceof OAuthError && error.code === "invalid_grant") {
+          return [
+            null,
+            this.authorizationRequired(
+              provider.id,
+              `${provider.name} access has been revoked or expired. Please reconnect ${provider.name}.`,
+              toolName,
+            ),
+          ];
+        }
 
-      if (!slackIntegration?.accessToken) {
-        return [null, this.authorizationRequired("slack", "Slack not connected.")];
+        console.error(`Failed to refresh ${provider.id} token:`, error);
+        return [
+          null,
+          {
+            content: [{ type: "text", text: `Failed to refresh ${provider.name} access token: ${error.message}` }],
+            isError: true,
+          },
+        ];
       }
 
-      return [createSlackContext(slackIntegration.accessToken), null];
+      return [provider.createContext(credentials, this.env), null];
     } catch (error: any) {
-      console.error("Error in getSlackContext:", error);
+      console.error(`Error in getProviderContext(${provider.id}):`, error);
       return [
         null,
         {
           content: [{ type: "text", text: `Database error: ${error.message}` }],
+          isError: true,
         },
       ];
     }
   }
 }
 
-export default new OAuthProvider({
+const oauthProvider = new OAuthProvider({
   apiHandlers: {
     "/sse": MyMCP.serveSSE("/sse"),
     "/mcp": MyMCP.serve("/mcp"),
@@ -689,3 +1389,40 @@ export default new OAuthProvider({
   defaultHandler: OAuthHandler as any,
   tokenEndpoint: "/token",
 });
+
+export default {
+  fetch: (request, env, ctx) => oauthProvider.fetch(request, env, ctx),
+
+  // Cron: the daily trigger encrypts legacy plaintext tokens, re-encrypts rows after a key rotation
+  // and renews Gmail watches; the five-minute trigger sends scheduled messages an alarm missed
+  async scheduled(controller, env) {
+    const db = createDbClient(env.DB);
+    const integrations = new IntegrationService(db, createTokenCipher(env));
+
+    const jobs: [string, () => Promise<unknown>][] =
+      controller.cron === DAILY_CRON
+        ? [
+            ["re-encrypt integration tokens", () => integrations.reencryptTokens()],
+            // Gmail push subscriptions lapse after 7 days unless renewed
+            ["renew Gmail watches", () => new GmailWatchService(db, integrations, env).renewExpiringWatches()],
+          ]
+        : [
+            [
+              "dispatch overdue scheduled messages",
+              () => new ScheduledMessageService(db, integrations, new BillingService(db), new AuditService(db), env).dispatchOverdue(),
+            ],
+          ];
+
+    // Run one at a time, since both daily jobs write integration rows, and keep going past a failure
+    const failures: unknown[] = [];
+    for (const [name, job] of jobs) {
+      try {
+        await job();
+      } catch (error) {
+        console.error(`Cron job "${name}" failed:`, error);
+        failures.push(error);
+      }
+    }
+    if (failures.length) throw new AggregateError(failures, `${failures.length} cron job(s) failed`);
+  },
+} satisfies ExportedHandler<Env>;
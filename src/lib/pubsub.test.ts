@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { parseGmailPushNotification, PubSubPayloadError } from "./pubsub";
+
+// A push delivery as Pub/Sub POSTs it, with the Gmail notification base64-encoded in message.data
+function envelope(data: string) {
+  return JSON.stringify({
+    message: {
+      data,
+      messageId: "15623848462516920",
+      message_id: "15623848462516920",
+      publishTime: "2026-10-19T09:14:03.218Z",
+      publish_time: "2026-10-19T09:14:03.218Z",
+    },
+    subscription: "projects/my-project/subscriptions/gmail-push",
+  });
+}
+
+const encode = (value: string) => Buffer.from(value, "utf8").toString("base64");
+
+describe("parseGmailPushNotification", () => {
+  it("decodes a Gmail notification, keeping the numeric historyId as a string", () => {
+    // What Gmail publishes: historyId is a JSON number
+    const body = envelope("eyJlbWFpbEFkZHJlc3MiOiJ1c2VyQGV4YW1wbGUuY29tIiwiaGlzdG9yeUlkIjo5ODc2NTQzfQ==");
+
+    expect(parseGmailPushNotification(body)).toEqual({
+      messageId: "15623848462516920",
+      notification: { emailAddress: "user@example.com", historyId: "9876543" },
+    });
+  });
+
+  it("accepts a historyId sent as a string", () => {
+    const body = envelope(encode('{"emailAddress":"user@example.com","historyId":"18446744073709551615"}'));
+    expect(parseGmailPushNotification(body).notification.historyId).toBe("18446744073709551615");
+  });
+
+  it("rejects data that is not base64-encoded JSON", () => {
+    expect(() => parseGmailPushNotification(envelope("not base64!"))).toThrow("message.data is not base64-encoded JSON");
+  });
+
+  it("rejects a notification without a historyId", () => {
+    const body = envelope(encode('{"emailAddress":"user@example.com"}'));
+    expect(() => parseGmailPushNotification(body)).toThrow(PubSubPayloadError);
+  });
+
+  it.each([["abc"], ["-5"], ["1.5"], [""], ["1e21"]])("rejects the historyId %j", (historyId) => {
+    const body = envelope(encode(JSON.stringify({ emailAddress: "user@example.com", historyId })));
+    expect(() => parseGmailPushNotification(body)).toThrow(/historyId .* is not an unsigned integer/);
+  });
+
+  it("rejects a body that is not a push envelope", () => {
+    expect(() => parseGmailPushNotification("{")).toThrow("Body is not valid JSON");
+    expect(() => parseGmailPushNotification('{"subscription":"x"}')).toThrow("Missing message.data");
+  });
+});
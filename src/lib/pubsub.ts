@@ -0,0 +1,65 @@
+/**
+ * Google Cloud Pub/Sub push delivery: the envelope POSTed to a push endpoint, and the
+ * Gmail notification it carries. See https://cloud.google.com/pubsub/docs/push and
+ * https://developers.google.com/gmail/api/guides/push
+ */
+
+export class PubSubPayloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PubSubPayloadError";
+  }
+}
+
+export interface PubSubPushEnvelope {
+  message: {
+    data?: string; // base64
+    messageId: string;
+    publishTime?: string;
+    attributes?: Record<string, string>;
+  };
+  subscription: string;
+}
+
+export interface GmailPushNotification {
+  emailAddress: string;
+  historyId: string;
+}
+
+/**
+ * Decodes a push envelope into the Gmail notification in its data field.
+ * Throws PubSubPayloadError when the body is not a Gmail push message.
+ */
+export function parseGmailPushNotification(body: string): { messageId: string; notification: GmailPushNotification } {
+  let envelope: PubSubPushEnvelope;
+  try {
+    envelope = JSON.parse(body);
+  } catch {
+    throw new PubSubPayloadError("Body is not valid JSON");
+  }
+  if (!envelope?.message?.data) {
+    throw new PubSubPayloadError("Missing message.data");
+  }
+
+  let data: { emailAddress?: unknown; historyId?: unknown };
+  try {
+    data = JSON.parse(Buffer.from(envelope.message.data, "base64").toString("utf8"));
+  } catch {
+    throw new PubSubPayloadError("message.data is not base64-encoded JSON");
+  }
+
+  // Gmail sends historyId as a number; it is an unsigned 64-bit id, so keep it as a string
+  if (typeof data.emailAddress !== "string" || (typeof data.historyId !== "number" && typeof data.historyId !== "string")) {
+    throw new PubSubPayloadError("message.data is not a Gmail notification");
+  }
+  // Checked here so a malformed id is a payload error, not a SyntaxError from BigInt during the sync
+  const historyId = String(data.historyId);
+  if (!/^\d+$/.test(historyId)) {
+    throw new PubSubPayloadError(`historyId ${historyId} is not an unsigned integer`);
+  }
+
+  return {
+    messageId: envelope.message.messageId,
+    notification: { emailAddress: data.emailAddress, historyId },
+  };
+}
@@ -0,0 +1,112 @@
+/**
+ * Minimal Stripe webhook support: signature verification and the event shapes we consume.
+ * Verification follows https://docs.stripe.com/webhooks#verify-manually so the Stripe SDK
+ * (which needs Node APIs) is not required in the Worker.
+ */
+
+// Stripe's default tolerance between the signed timestamp and now
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+const encoder = new TextEncoder();
+
+export class StripeSignatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StripeSignatureError";
+  }
+}
+
+export interface StripePrice {
+  id: string;
+  lookup_key?: string | null;
+  metadata?: Record<string, string>;
+}
+
+export interface StripeSubscription {
+  id: string;
+  object: "subscription";
+  customer: string;
+  status: string;
+  cancel_at_period_end: boolean;
+  // Older API versions expose the period on the subscription, newer ones on each item
+  current_period_start?: number;
+  current_period_end?: number;
+  metadata?: Record<string, string>;
+  items: {
+    data: {
+      price: StripePrice;
+      current_period_start?: number;
+      current_period_end?: number;
+    }[];
+  };
+}
+
+export interface StripeInvoice {
+  id: string;
+  object: "invoice";
+  customer: string;
+  customer_email?: string | null;
+  subscription?: string | null;
+  parent?: { subscription_details?: { subscription?: string | null } | null } | null;
+}
+
+export interface StripeEvent {
+  id: string;
+  type: string;
+  created: number;
+  data: { object: any };
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Verifies the `Stripe-Signature` header against the raw request body and returns the parsed event.
+ * Throws StripeSignatureError when the header is missing, malformed, stale or does not match.
+ */
+export async function verifyStripeWebhook(
+  payload: string,
+  signatureHeader: string | null | undefined,
+  secret: string,
+  toleranceSeconds = DEFAULT_TOLERANCE_SECONDS,
+): Promise<StripeEvent> {
+  if (!signatureHeader) {
+    throw new StripeSignatureError("Missing Stripe-Signature header");
+  }
+
+  let timestamp: string | undefined;
+  const signatures: string[] = [];
+  for (const part of signatureHeader.split(",")) {
+    const [key, value] = part.split("=", 2);
+    if (key === "t") timestamp = value;
+    else if (key === "v1" && value) signatures.push(value);
+  }
+
+  if (!timestamp || !signatures.length) {
+    throw new StripeSignatureError("Malformed Stripe-Signature header");
+  }
+
+  const age = Math.abs(Math.floor(Date.now() / 1000) - Number(timestamp));
+  if (!Number.isFinite(age) || age > toleranceSeconds) {
+    throw new StripeSignatureError("Stripe signature timestamp is outside the tolerance window");
+  }
+
+  const key = await crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  const expected = toHex(await crypto.subtle.sign("HMAC", key, encoder.encode(`${timestamp}.${payload}`)));
+
+  if (!signatures.some((signature) => timingSafeEqual(signature, expected))) {
+    throw new StripeSignatureError("Stripe signature does not match");
+  }
+
+  return JSON.parse(payload) as StripeEvent;
+}
@@ -0,0 +1,157 @@
+/**
+ * Envelope encryption for provider tokens stored in D1.
+ *
+ * Each integration row gets its own random data key (DEK). Tokens are encrypted
+ * with the DEK using AES-GCM, and the DEK itself is wrapped with a key-encryption
+ * key (KEK) derived via HKDF from a Worker secret. The id of the KEK is stored on
+ * the row so rows can be re-encrypted when the secret is rotated.
+ */
+
+export interface EncryptedTokens {
+  accessToken: string;
+  refreshToken: string | null;
+  encryptedKey: string;
+  keyId: string;
+}
+
+export interface PlainTokens {
+  accessToken: string;
+  refreshToken: string | null;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function toBase64(bytes: ArrayBuffer | Uint8Array): string {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = "";
+  for (const byte of view) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+}
+
+// Serialized form: base64(iv).base64(ciphertext)
+function pack(iv: Uint8Array, data: ArrayBuffer): string {
+  return `${toBase64(iv)}.${toBase64(data)}`;
+}
+
+function unpack(value: string): { iv: Uint8Array; data: Uint8Array } {
+  const [iv, data] = value.split(".");
+  if (!iv || !data) {
+    throw new Error("Malformed encrypted value");
+  }
+  return { iv: fromBase64(iv), data: fromBase64(data) };
+}
+
+export class TokenCipher {
+  private keys: Map<string, string>;
+  private kekCache = new Map<string, Promise<CryptoKey>>();
+
+  /**
+   * @param currentKeyId - Id of the key new rows are encrypted with
+   * @param keys - Map of key id to secret, including the current key and any retired keys still needed for decryption
+   */
+  constructor(
+    public readonly currentKeyId: string,
+    keys: Record<string, string>,
+  ) {
+    this.keys = new Map(Object.entries(keys).filter(([, secret]) => !!secret));
+    if (!this.keys.has(currentKeyId)) {
+      throw new Error(`Token encryption key "${currentKeyId}" is not configured`);
+    }
+  }
+
+  private getKek(keyId: string): Promise<CryptoKey> {
+    let kek = this.kekCache.get(keyId);
+    if (!kek) {
+      const secret = this.keys.get(keyId);
+      if (!secret) {
+        throw new Error(`Unknown token encryption key id: ${keyId}`);
+      }
+      kek = crypto.subtle
+        .importKey("raw", encoder.encode(secret), "HKDF", false, ["deriveKey"])
+        .then((material) =>
+          crypto.subtle.deriveKey(
+            { name: "HKDF", hash: "SHA-256", salt: encoder.encode("integration-token-kek"), info: encoder.encode(keyId) },
+            material,
+            { name: "AES-GCM", length: 256 },
+            false,
+            ["wrapKey", "unwrapKey"],
+          ),
+        );
+      this.kekCache.set(keyId, kek);
+    }
+    return kek;
+  }
+
+  /**
+   * Encrypts a row's tokens under a fresh data key wrapped with the current KEK.
+   * `context` is bound as additional authenticated data so ciphertext cannot be moved between rows.
+   */
+  async encrypt(tokens: PlainTokens, context: string): Promise<EncryptedTokens> {
+    const dek = (await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, ["encrypt", "decrypt"])) as CryptoKey;
+    const aad = encoder.encode(context);
+
+    const encryptValue = async (value: string) => {
+      const iv = crypto.getRandomValues(new Uint8Array(12));
+      return pack(iv, await crypto.subtle.encrypt({ name: "AES-GCM", iv, additionalData: aad }, dek, encoder.encode(value)));
+    };
+
+    const wrapIv = crypto.getRandomValues(new Uint8Array(12));
+    const wrapped = await crypto.subtle.wrapKey("raw", dek, await this.getKek(this.currentKeyId), {
+      name: "AES-GCM",
+      iv: wrapIv,
+      additionalData: aad,
+    });
+
+    return {
+      accessToken: await encryptValue(tokens.accessToken),
+      refreshToken: tokens.refreshToken ? await encryptValue(tokens.refreshToken) : null,
+      encryptedKey: pack(wrapIv, wrapped),
+      keyId: this.currentKeyId,
+    };
+  }
+
+  async decrypt(tokens: EncryptedTokens, context: string): Promise<PlainTokens> {
+    const aad = encoder.encode(context);
+    const { iv: wrapIv, data: wrapped } = unpack(tokens.encryptedKey);
+    const dek = await crypto.subtle.unwrapKey(
+      "raw",
+      wrapped,
+      await this.getKek(tokens.keyId),
+      { name: "AES-GCM", iv: wrapIv, additionalData: aad },
+      { name: "AES-GCM", length: 256 },
+      false,
+      ["decrypt"],
+    );
+
+    const decryptValue = async (value: string) => {
+      const { iv, data } = unpack(value);
+      return decoder.decode(await crypto.subtle.decrypt({ name: "AES-GCM", iv, additionalData: aad }, dek, data));
+    };
+
+    return {
+      accessToken: await decryptValue(tokens.accessToken),
+      refreshToken: tokens.refreshToken ? await decryptValue(tokens.refreshToken) : null,
+    };
+  }
+}
+
+/**
+ * Builds the token cipher from Worker secrets:
+ * - TOKEN_ENCRYPTION_KEY / TOKEN_ENCRYPTION_KEY_ID: the active key
+ * - TOKEN_ENCRYPTION_PREVIOUS_KEYS: optional JSON object of retired key id to secret, kept until rows are re-encrypted
+ */
+export function createTokenCipher(env: Env): TokenCipher {
+  if (!env.TOKEN_ENCRYPTION_KEY) {
+    throw new Error("TOKEN_ENCRYPTION_KEY secret is not configured");
+  }
+
+  const currentKeyId = env.TOKEN_ENCRYPTION_KEY_ID || "v1";
+  const previousKeys: Record<string, string> = env.TOKEN_ENCRYPTION_PREVIOUS_KEYS ? JSON.parse(env.TOKEN_ENCRYPTION_PREVIOUS_KEYS) : {};
+
+  return new TokenCipher(currentKeyId, { ...previousKeys, [currentKeyId]: env.TOKEN_ENCRYPTION_KEY });
+}
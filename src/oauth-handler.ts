@@ -1,10 +1,11 @@
 import { env } from "cloudflare:workers";
 import type { AuthRequest, OAuthHelpers } from "@cloudflare/workers-oauth-provider";
 import { Hono } from "hono";
-import { fetchUpstreamAuthToken, getUpstreamAuthorizeUrl, type Props } from "./utils";
+import { getTokenExpiry, getUpstreamAuthorizeUrl, type ProviderIntegration, type Props } from "./utils";
 import {
   addApprovedClient,
   bindStateToSession,
+  consumeOAuthState,
   createOAuthState,
   generateCSRFProtection,
   isClientApproved,
@@ -15,30 +16,25 @@ import {
 } from "./workers-oauth-utils";
 import { createDbClient, type DbClient } from "./db/client";
 import { IntegrationService } from "./services/integrations";
+import { createTokenCipher } from "./lib/token-encryption";
+import { StripeSignatureError, verifyStripeWebhook } from "./lib/stripe";
+import { BillingService } from "./services/billing";
+import { StripeWebhookService } from "./services/stripe-webhooks";
+import { GmailWatchService } from "./services/gmail-watch";
+import { parseGmailPushNotification, PubSubPayloadError } from "./lib/pubsub";
+import { disconnectIntegration, getProvider, getProviderAuthorizeParams, providers as providerRegistry } from "./providers";
 import { eq } from "drizzle-orm";
 import * as schema from "./db/schema";
 
 const app = new Hono<{ Bindings: Env & { OAUTH_PROVIDER: OAuthHelpers } }>();
 
-interface NotionTokenResponse {
-  access_token: string;
-  refresh_token: string;
-  bot_id: string;
-  workspace_name: string;
-  workspace_icon: string;
-  workspace_id: string;
-  owner?: {
-    type: string;
-    name?: any;
-    person?: { email: string };
-  };
-}
-
 /**
  * Handle direct provider authorization (when user clicks auth link from tool response)
  */
 async function handleDirectProviderAuth(c: any, provider: string) {
   const googleEmail = c.req.query("user"); // Read from URL parameter (now email)
+  // Incremental scopes a tool asked for (see ToolDefinition.requiredScopes), space-separated
+  const extraScopes = c.req.query("scope")?.split(" ").filter(Boolean) ?? [];
 
   console.log("=== DIRECT AUTH DEBUG ===");
   console.log("Provider:", provider);
@@ -62,12 +58,11 @@ async function handleDirectProviderAuth(c: any, provider: string) {
         existingProps = {
           email: googleEmail,
           name: googleEmail,
-          accessToken: "",
           connectedIntegrations: [],
         } as Props;
       } else {
         const db = createDbClient(c.env.DB);
-        const integrationService = new IntegrationService(db);
+        const integrationService = new IntegrationService(db, createTokenCipher(c.env));
 
         // Get user from database
         const user = await db.query.user.findFirst({
@@ -77,36 +72,16 @@ async function handleDirectProviderAuth(c: any, provider: string) {
         if (user) {
           console.log("✅ Found existing user in database:", user.id);
 
-          // Get all user integrations
-          const integrations = await integrationService.getUserIntegrations(user.id);
+          // Only integration ids go into the OAuth state; tokens stay encrypted in D1
+          const integrations = await integrationService.listIntegrationIds(user.id);
 
           existingProps = {
             email: user.email,
             name: user.name,
-            accessToken: "",
+            providers: Object.fromEntries(integrations.map((i) => [i.provider, { integrationId: i.id }])),
             connectedIntegrations: integrations.map((i) => i.provider),
           } as Props;
 
-          // Map integrations to Props structure
-          for (const integration of integrations) {
-            if (integration.provider === "google") {
-              existingProps.accessToken = integration.accessToken;
-            } else if (integration.provider === "gmail") {
-              existingProps.gmailAccessToken = integration.accessToken;
-              existingProps.gmailRefreshToken = integration.refreshToken || undefined;
-            } else if (integration.provider === "calendar") {
-              existingProps.calendarAccessToken = integration.accessToken;
-              existingProps.calendarRefreshToken = integration.refreshToken || undefined;
-            } else if (integration.provider === "drive") {
-              existingProps.driveAccessToken = integration.accessToken;
-              existingProps.driveRefreshToken = integration.refreshToken || undefined;
-            } else if (integration.provider === "notion") {
-              existingProps.notionAccessToken = integration.accessToken;
-            } else if (integration.provider === "slack") {
-              existingProps.slackAccessToken = integration.accessToken;
-            }
-          }
-
           console.log("Loaded existing integrations:", existingProps.connectedIntegrations);
         } else {
           console.log("⚠️ No existing user found in database");
@@ -115,7 +90,6 @@ async function handleDirectProviderAuth(c: any, provider: string) {
           existingProps = {
             email: googleEmail,
             name: googleEmail,
-            accessToken: "",
             connectedIntegrations: [],
           } as Props;
         }
@@ -132,7 +106,6 @@ async function handleDirectProviderAuth(c: any, provider: string) {
       existingProps = {
         email: googleEmail,
         name: googleEmail,
-        accessToken: "",
         connectedIntegrations: [],
       } as Props;
     }
@@ -141,7 +114,7 @@ async function handleDirectProviderAuth(c: any, provider: string) {
     console.error("User must have authenticated with Google first");
   }
 
-  console.log("Final existingProps:", existingProps);
+  console.log("Connected integrations:", existingProps?.connectedIntegrations);
   console.log("======================");
 
   const stateData = {
@@ -154,7 +127,7 @@ async function handleDirectProviderAuth(c: any, provider: string) {
   const { stateToken } = await createOAuthState(stateData, c.env.OAUTH_KV);
   const { setCookie } = await bindStateToSession(stateToken);
 
-  return redirectToProvider(c.req.raw, stateToken, provider, { "Set-Cookie": setCookie });
+  return redirectToProvider(c.req.raw, stateToken, provider, { "Set-Cookie": setCookie }, extraScopes);
 }
 
 /**
@@ -164,6 +137,9 @@ app.get("/authorize", async (c) => {
   const requestedProvider = c.req.query("provider");
 
   if (requestedProvider && !c.req.query("client_id")) {
+    if (!getProvider(requestedProvider)) {
+      return c.text(`Unsupported provider: ${requestedProvider}`, 400);
+    }
     return handleDirectProviderAuth(c, requestedProvider);
   }
 
@@ -195,11 +171,9 @@ app.get("/authorize", async (c) => {
     integrations.push(requestedProvider.charAt(0).toUpperCase() + requestedProvider.slice(1));
   } else {
     integrations.push("Google");
-    if (requestedScopes.includes("gmail")) integrations.push("Gmail");
-    if (requestedScopes.includes("calendar")) integrations.push("Google Calendar");
-    if (requestedScopes.includes("drive")) integrations.push("Google Drive");
-    if (requestedScopes.includes("notion")) integrations.push("Notion");
-    if (requestedScopes.includes("slack")) integrations.push("Slack");
+    for (const provider of Object.values(providerRegistry)) {
+      if (provider.id !== "google" && requestedScopes.includes(provider.id)) integrations.push(provider.name);
+    }
   }
 
   const description = requestedProvider
@@ -263,100 +237,21 @@ app.post("/authorize", async (c) => {
 /**
  * Unified redirect helper to any provider's authorization URL
  */
-async function redirectToProvider(request: Request, stateToken: string, provider: string, headers: Record<string, string> = {}) {
-  let authUrl: string;
-
-  switch (provider) {
-    case "google":
-      authUrl = getUpstreamAuthorizeUrl({
-        client_id: env.GOOGLE_CLIENT_ID,
-        redirect_uri: new URL("/callback/google", request.url).href,
-        scope: "https://www.googleapis.com/auth/userinfo.email https://www.googleapis.com/auth/userinfo.profile",
-        state: stateToken,
-        upstream_url: "https://accounts.google.com/o/oauth2/v2/auth",
-        access_type: "offline",
-        prompt: "consent",
-      });
-      break;
-
-    case "gmail":
-      authUrl = getUpstreamAuthorizeUrl({
-        client_id: env.GOOGLE_CLIENT_ID,
-        redirect_uri: new URL("/callback/gmail", request.url).href,
-        scope: "https://www.googleapis.com/auth/gmail.modify",
-        state: stateToken,
-        upstream_url: "https://accounts.google.com/o/oauth2/v2/auth",
-        access_type: "offline",
-        prompt: "consent",
-      });
-      break;
-
-    case "calendar":
-      authUrl = getUpstreamAuthorizeUrl({
-        client_id: env.GOOGLE_CLIENT_ID,
-        redirect_uri: new URL("/callback/calendar", request.url).href,
-        scope: ["https://www.googleapis.com/auth/calendar", "https://www.googleapis.com/auth/calendar.events"].join(" "),
-        state: stateToken,
-        upstream_url: "https://accounts.google.com/o/oauth2/v2/auth",
-        access_type: "offline",
-        prompt: "consent",
-      });
-      break;
-
-    case "drive":
-      authUrl = getUpstreamAuthorizeUrl({
-        client_id: env.GOOGLE_CLIENT_ID,
-        redirect_uri: new URL("/callback/drive", request.url).href,
-        scope: "https://www.googleapis.com/auth/drive",
-        state: stateToken,
-        upstream_url: "https://accounts.google.com/o/oauth2/v2/auth",
-        access_type: "offline",
-        prompt: "consent",
-      });
-      break;
-
-    case "notion":
-      authUrl = getUpstreamAuthorizeUrl({
-        client_id: env.NOTION_CLIENT_ID,
-        redirect_uri: new URL("/callback/notion", request.url).href,
-        scope: "", // Notion doesn't use scope parameter in the same way
-        state: stateToken,
-        upstream_url: "https://api.notion.com/v1/oauth/authorize",
-      });
-      break;
-
-    case "slack":
-      authUrl = getUpstreamAuthorizeUrl({
-        client_id: env.SLACK_CLIENT_ID,
-        redirect_uri: new URL("/callback/slack", request.url).href,
-        scope: [
-          "channels:read",
-          "channels:write",
-          "channels:history",
-          "chat:write",
-          "files:write",
-          "groups:read",
-          "groups:write",
-          "groups:history",
-          "im:history",
-          "im:read",
-          "im:write",
-          "mpim:history",
-          "mpim:read",
-          "mpim:write",
-          "reactions:write",
-          "search:read",
-          "users:read",
-        ].join(","),
-        state: stateToken,
-        upstream_url: "https://slack.com/oauth/v2/authorize",
-      });
-      break;
-
-    default:
-      throw new Error(`Unsupported provider: ${provider}`);
+async function redirectToProvider(
+  request: Request,
+  stateToken: string,
+  providerId: string,
+  headers: Record<string, string> = {},
+  extraScopes: string[] = [],
+) {
+  const provider = getProvider(providerId);
+  if (!provider) {
+    throw new Error(`Unsupported provider: ${providerId}`);
   }
 
+  const redirectUri = new URL(`/callback/${provider.id}`, request.url).href;
+  const authUrl = getUpstreamAuthorizeUrl(getProviderAuthorizeParams(provider, env, redirectUri, stateToken, extraScopes));
+
   return new Response(null, {
     status: 302,
     headers: {
@@ -380,10 +275,10 @@ function resolveGoogleIdentity(userData: { email: string; name: string }, existi
  * Unified OAuth Callback Handler for all providers
  */
 app.get("/callback/:provider", async (c) => {
-  const provider = c.req.param("provider") as "google" | "gmail" | "calendar" | "drive" | "notion" | "slack";
+  const provider = c.req.param("provider");
 
-  const supported = ["google", "gmail", "calendar", "drive", "notion", "slack"] as const;
-  if (!supported.includes(provider)) {
+  const providerDef = getProvider(provider);
+  if (!providerDef) {
     return c.text(`Unsupported provider: ${provider}`, 400);
   }
 
@@ -421,60 +316,31 @@ app.get("/callback/:provider", async (c) => {
       };
 
   // Start with existing providers
-  const mergedProviders: Record<string, { accessToken: string; refreshToken?: string }> = {};
+  const mergedProviders: Record<string, ProviderIntegration> = { ...existingProps?.providers };
 
-  if (existingProps) {
-    if (existingProps.accessToken) {
-      mergedProviders.google = { accessToken: existingProps.accessToken };
-    }
-    if (existingProps.gmailAccessToken) {
-      mergedProviders.gmail = {
-        accessToken: existingProps.gmailAccessToken,
-        refreshToken: existingProps.gmailRefreshToken,
-      };
-    }
-    if (existingProps.calendarAccessToken) {
-      mergedProviders.calendar = {
-        accessToken: existingProps.calendarAccessToken,
-        refreshToken: existingProps.calendarRefreshToken,
-      };
-    }
-    if (existingProps.driveAccessToken) {
-      mergedProviders.drive = {
-        accessToken: existingProps.driveAccessToken,
-        refreshToken: existingProps.driveRefreshToken,
-      };
-    }
-    if (existingProps.notionAccessToken) {
-      mergedProviders.notion = {
-        accessToken: existingProps.notionAccessToken,
-        refreshToken: existingProps.notionRefreshToken,
-      };
-    }
-    if (existingProps.slackAccessToken) {
-      mergedProviders.slack = {
-        accessToken: existingProps.slackAccessToken,
-        refreshToken: existingProps.slackRefreshToken,
-      };
-    }
-  }
+  // Tokens issued by this exchange, saved (encrypted) to D1 below and never put in props
+  let tokens: { accessToken: string; refreshToken?: string; scope?: string } | undefined;
+  // Absolute expiry of the newly issued access token (when the provider reports one)
+  let expiresAt: Date | undefined;
 
   // Provider-specific token exchange
   try {
-    if (provider === "google") {
-      const [tokenResult, err] = await fetchUpstreamAuthToken({
-        client_id: c.env.GOOGLE_CLIENT_ID,
-        client_secret: c.env.GOOGLE_CLIENT_SECRET,
-        code: c.req.query("code"),
-        redirect_uri: callbackUrl,
-        upstream_url: "https://oauth2.googleapis.com/token",
-      });
+    const [tokenResult, err] = await providerDef.exchangeCode(c.env, c.req.query("code"), callbackUrl);
 
-      if (err) {
-        console.error("Google token exchange failed:", err);
-        return err;
-      }
+    if (err) {
+      console.error(`${provider} token exchange failed:`, err);
+      return err;
+    }
 
+    tokens = {
+      accessToken: tokenResult.access_token,
+      refreshToken: tokenResult.refresh_token,
+      // The scopes actually granted, which include any incremental ones requested
+      scope: tokenResult.scope,
+    };
+    expiresAt = getTokenExpiry(tokenResult.expires_in);
+
+    if (provider === "google") {
       const accessToken = tokenResult.access_token;
 
       const userInfoResponse = await fetch("https://www.googleapis.com/oauth2/v2/userinfo", {
@@ -495,11 +361,6 @@ app.get("/callback/:provider", async (c) => {
         name: userInfo.name || userInfo.email,
       };
 
-      mergedProviders.google = {
-        accessToken,
-        refreshToken: tokenResult.refresh_token,
-      };
-
       // ============================================================
       // CRITICAL: Create user immediately upon Google authentication
       // ============================================================
@@ -551,16 +412,18 @@ app.get("/callback/:provider", async (c) => {
 
         // Save Google integration immediately
         if (user) {
-          const integrationService = new IntegrationService(db);
+          const integrationService = new IntegrationService(db, createTokenCipher(c.env));
 
-          await integrationService.saveIntegration({
+          const integrationId = await integrationService.saveIntegration({
             userId: user.id,
             provider: "google",
             accessToken: accessToken,
             refreshToken: tokenResult.refresh_token,
-            scope: "https://www.googleapis.com/auth/userinfo.email https://www.googleapis.com/auth/userinfo.profile",
+            expiresAt,
+            scope: providerDef.authorization.scopes.join(" "),
           });
 
+          mergedProviders.google = { integrationId };
           console.log("✅ Google integration saved");
         }
       } catch (dbError: any) {
@@ -568,84 +431,6 @@ app.get("/callback/:provider", async (c) => {
         // Don't fail the auth flow, but log the error
       }
       console.log("=================================");
-    } else if (provider === "slack") {
-      const res = await fetch("https://slack.com/api/oauth.v2.access", {
-        method: "POST",
-        headers: { "Content-Type": "application/x-www-form-urlencoded" },
-        body: new URLSearchParams({
-          client_id: c.env.SLACK_CLIENT_ID,
-          client_secret: c.env.SLACK_CLIENT_SECRET,
-          code: c.req.query("code") || "",
-          redirect_uri: callbackUrl,
-        }),
-      });
-
-      if (!res.ok) {
-        console.error("Slack token exchange HTTP error:", res.status, res.statusText);
-        return c.text(`Slack OAuth error: ${res.statusText}`, 500);
-      }
-
-      const data = (await res.json()) as any;
-
-      if (!data.ok) {
-        console.error("Slack OAuth API error:", data);
-        return c.text(`Slack OAuth error: ${data.error}`, 500);
-      }
-
-      mergedProviders.slack = {
-        accessToken: data.access_token,
-        refreshToken: data.refresh_token,
-      };
-    } else if (provider === "notion") {
-      const res = await fetch("https://api.notion.com/v1/oauth/token", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Basic ${btoa(`${c.env.NOTION_CLIENT_ID}:${c.env.NOTION_CLIENT_SECRET}`)}`,
-        },
-        body: JSON.stringify({
-          grant_type: "authorization_code",
-          code: c.req.query("code"),
-          redirect_uri: callbackUrl,
-        }),
-      });
-
-      if (!res.ok) {
-        const errorText = await res.text();
-        console.error("Notion token exchange failed:", res.status, errorText);
-        return c.text(`Notion OAuth error: ${errorText}`, 500);
-      }
-
-      const data = (await res.json()) as any;
-
-      if (!data.access_token) {
-        console.error("Notion response missing access_token:", data);
-        return c.text("Notion OAuth error: missing access token", 500);
-      }
-
-      mergedProviders.notion = {
-        accessToken: data.access_token,
-        refreshToken: data.refresh_token,
-      };
-    } else {
-      // Google providers (gmail / calendar / drive)
-      const [tokenData, err] = await fetchUpstreamAuthToken({
-        client_id: c.env.GOOGLE_CLIENT_ID,
-        client_secret: c.env.GOOGLE_CLIENT_SECRET,
-        code: c.req.query("code"),
-        redirect_uri: callbackUrl,
-        upstream_url: "https://oauth2.googleapis.com/token",
-      });
-
-      if (err) {
-        console.error(`${provider} token exchange failed:`, err);
-        return err;
-      }
-
-      mergedProviders[provider] = {
-        accessToken: tokenData.access_token,
-        refreshToken: tokenData.refresh_token,
-      };
     }
   } catch (error: any) {
     console.error(`Error during ${provider} token exchange:`, error);
@@ -658,7 +443,7 @@ app.get("/callback/:provider", async (c) => {
   console.log("=== DATABASE SAVE DEBUG ===");
   console.log("Provider:", provider);
   console.log("userData.email:", userData.email);
-  console.log("mergedProviders:", JSON.stringify(mergedProviders, null, 2));
+  console.log("Connected providers:", Object.keys(mergedProviders));
   console.log("===================");
 
   // Persist to database (for non-Google providers)
@@ -666,7 +451,7 @@ app.get("/callback/:provider", async (c) => {
   if (userData.email && userData.email !== "unknown-user@example.com" && provider !== "google") {
     try {
       const db = createDbClient(c.env.DB);
-      const integrationService = new IntegrationService(db);
+      const integrationService = new IntegrationService(db, createTokenCipher(c.env));
 
       // Find user (should exist from Google auth)
       let user = await db.query.user.findFirst({
@@ -699,21 +484,22 @@ app.get("/callback/:provider", async (c) => {
       console.log("Saving integration for user:", user.id);
 
       // Save the current provider's integration
-      const currentProvider = mergedProviders[provider];
-      if (currentProvider) {
-        await integrationService.saveIntegration({
+      if (tokens) {
+        const integrationId = await integrationService.saveIntegration({
           userId: user.id,
           provider: provider,
-          accessToken: currentProvider.accessToken,
-          refreshToken: currentProvider.refreshToken,
-          scope: undefined, // Provider-specific scope if needed
+          accessToken: tokens.accessToken,
+          refreshToken: tokens.refreshToken,
+          expiresAt,
+          scope: tokens.scope || providerDef.authorization.scopes.join(providerDef.authorization.scopeSeparator ?? " ") || undefined,
         });
 
+        mergedProviders[provider] = { integrationId };
         console.log(`✅ ${provider} integration saved`);
       }
 
       // Verify save
-      const savedIntegrations = await integrationService.getUserIntegrations(user.id);
+      const savedIntegrations = await integrationService.listIntegrationIds(user.id);
       console.log(
         "Verified integrations:",
         savedIntegrations.map((i) => i.provider),
@@ -735,13 +521,135 @@ app.get("/callback/:provider", async (c) => {
 
   return completeAuthorization(c, {
     ...stateData,
-    providers: Object.fromEntries(Object.entries(mergedProviders).filter(([, v]) => v)),
+    providers: mergedProviders,
     userData,
     connectedIntegrations: Array.from(new Set([...(existingProps?.connectedIntegrations || []), provider])),
     clearSessionCookie,
   });
 });
 
+/**
+ * Disconnect an integration from the integrations dashboard.
+ * The token is a single-use link issued by the MCP server when it renders the dashboard.
+ */
+app.post("/integrations/:provider/disconnect", async (c) => {
+  // The dashboard is rendered by the MCP client, so it calls in cross-origin; the token is the credential
+  const corsHeaders = { "Access-Control-Allow-Origin": "*" };
+
+  const provider = getProvider(c.req.param("provider"));
+  if (!provider) {
+    return c.json({ error: "unsupported_provider", message: `Unsupported provider: ${c.req.param("provider")}` }, 400, corsHeaders);
+  }
+
+  const token = c.req.query("token");
+  const data = token ? await consumeOAuthState<{ action: string; email: string; provider: string }>(token, c.env.OAUTH_KV) : null;
+  if (!data || data.action !== "disconnect" || data.provider !== provider.id || !data.email) {
+    return c.json(
+      { error: "invalid_token", message: "Invalid or expired disconnect link. Reload the dashboard and try again." },
+      401,
+      corsHeaders,
+    );
+  }
+
+  try {
+    const db = createDbClient(c.env.DB);
+    const user = await db.query.user.findFirst({
+      where: eq(schema.user.email, data.email),
+    });
+
+    if (!user) {
+      return c.json({ error: "user_not_found", message: "User not found" }, 404, corsHeaders);
+    }
+
+    const result = await disconnectIntegration(new IntegrationService(db, createTokenCipher(c.env)), user.id, provider, c.env);
+    if (!result) {
+      return c.json({ error: "not_connected", message: `${provider.name} is not connected` }, 404, corsHeaders);
+    }
+
+    return c.json({ success: true, ...result }, 200, corsHeaders);
+  } catch (error: any) {
+    console.error(`Failed to disconnect ${provider.id}:`, error);
+    return c.json({ error: "server_error", message: error.message }, 500, corsHeaders);
+  }
+});
+
+/**
+ * Stripe webhook: keeps the subscription table in sync with Stripe.
+ * The signature is checked against the raw body before anything is parsed.
+ */
+app.post("/webhooks/stripe", async (c) => {
+  if (!c.env.STRIPE_WEBHOOK_SECRET) {
+    console.error("STRIPE_WEBHOOK_SECRET is not configured");
+    return c.json({ error: "not_configured" }, 500);
+  }
+
+  const payload = await c.req.text();
+  let event;
+  try {
+    event = await verifyStripeWebhook(payload, c.req.header("Stripe-Signature"), c.env.STRIPE_WEBHOOK_SECRET);
+  } catch (error: any) {
+    if (error instanceof StripeSignatureError) {
+      return c.json({ error: "invalid_signature", message: error.message }, 400);
+    }
+    return c.json({ error: "invalid_payload", message: error.message }, 400);
+  }
+
+  try {
+    const db = createDbClient(c.env.DB);
+    const result = await new StripeWebhookService(db, new BillingService(db)).handleEvent(event);
+    if (!result.handled) {
+      console.log(`Stripe event ${event.id} not applied: ${result.reason}`);
+    }
+
+    // Acknowledge every verified event so Stripe does not retry ones we deliberately ignore
+    return c.json({ received: true, ...result });
+  } catch (error: any) {
+    // A 5xx makes Stripe retry the delivery
+    console.error(`Failed to process Stripe event ${event.id}:`, error);
+    return c.json({ error: "server_error", message: error.message }, 500);
+  }
+});
+
+/**
+ * Gmail push webhook: Pub/Sub delivers a notification when a watched mailbox changes, and the
+ * changes since the stored history cursor are recorded for get_mailbox_changes. The push
+ * subscription's endpoint carries GMAIL_PUSH_TOKEN as ?token= so other callers are rejected.
+ */
+app.post("/webhooks/gmail", async (c) => {
+  if (!c.env.GMAIL_PUSH_TOKEN) {
+    console.error("GMAIL_PUSH_TOKEN is not configured");
+    return c.json({ error: "not_configured" }, 500);
+  }
+  if (c.req.query("token") !== c.env.GMAIL_PUSH_TOKEN) {
+    return c.json({ error: "invalid_token" }, 401);
+  }
+
+  let push;
+  try {
+    push = parseGmailPushNotification(await c.req.text());
+  } catch (error: any) {
+    if (error instanceof PubSubPayloadError) {
+      return c.json({ error: "invalid_payload", message: error.message }, 400);
+    }
+    throw error;
+  }
+
+  try {
+    const db = createDbClient(c.env.DB);
+    const integrations = new IntegrationService(db, createTokenCipher(c.env));
+    const result = await new GmailWatchService(db, integrations, c.env).handleNotification(push.notification);
+    if (!result.handled) {
+      console.log(`Gmail notification ${push.messageId} not applied: ${result.reason}`);
+    }
+
+    // Any 2xx acknowledges the message; Pub/Sub redelivers on other statuses
+    return c.json({ received: true, ...result });
+  } catch (error: any) {
+    console.error(`Failed to process Gmail notification ${push.messageId}:`, error);
+    return c.json({ error: "server_error", message: error.message }, 500);
+  }
+});
+
 /**
  * Finalize authorization and issue MCP token
  */
@@ -749,7 +657,7 @@ async function completeAuthorization(
   c: any,
   params: {
     oauthReqInfo?: AuthRequest;
-    providers: Record<string, any>;
+    providers: Record<string, ProviderIntegration>;
     userData?: { email: string; name: string };
     connectedIntegrations: string[];
     clearSessionCookie?: string;
@@ -769,23 +677,18 @@ async function completeAuthorization(
   if (!isDirect && userData.email) {
     try {
       const db = createDbClient(c.env.DB);
-      const integrationService = new IntegrationService(db);
+      const integrationService = new IntegrationService(db, createTokenCipher(c.env));
 
       const user = await db.query.user.findFirst({
         where: eq(schema.user.email, userData.email),
       });
 
       if (user) {
-        const savedIntegrations = await integrationService.getUserIntegrations(user.id);
+        const savedIntegrations = await integrationService.listIntegrationIds(user.id);
 
         // Merge saved integrations with current ones
         for (const integration of savedIntegrations) {
-          if (!providers[integration.provider]) {
-            providers[integration.provider] = {
-              accessToken: integration.accessToken,
-              refreshToken: integration.refreshToken,
-            };
-          }
+          providers[integration.provider] ??= { integrationId: integration.id };
         }
 
         // Update connected integrations list
@@ -799,8 +702,6 @@ async function completeAuthorization(
     }
   }
 
-  const accessToken = providers.google?.accessToken || "";
-
   if (isDirect && !oauthReqInfo.redirectUri) {
     const html = `
       <!DOCTYPE html>
@@ -836,18 +737,9 @@ async function completeAuthorization(
       label: `${userData.name} (${connectedIntegrations.join(", ")})`,
     },
     props: {
-      accessToken,
       email: userData.email,
       name: userData.name,
-      gmailAccessToken: providers.gmail?.accessToken,
-      gmailRefreshToken: providers.gmail?.refreshToken,
-      calendarAccessToken: providers.calendar?.accessToken,
-      calendarRefreshToken: providers.calendar?.refreshToken,
-      driveAccessToken: providers.drive?.accessToken,
-      driveRefreshToken: providers.drive?.refreshToken,
-      notionAccessToken: providers.notion?.accessToken,
-      slackAccessToken: providers.slack?.accessToken,
-      slackRefreshToken: providers.slack?.refreshToken,
+      providers,
       connectedIntegrations,
       workerUrl: new URL(c.req.url).origin,
     } as Props,
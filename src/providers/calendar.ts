@@ -0,0 +1,17 @@
+import { calendarTools } from "../tools/google-calendar";
+import { CalendarContext, createCalendarContext } from "../tools/google-calendar/context";
+import { createGoogleOAuthClient, exchangeGoogleCode, googleAuthorization, revokeGoogleToken } from "./google";
+import { ProviderDefinition } from "./types";
+
+export const calendarProvider: ProviderDefinition<CalendarContext> = {
+  id: "calendar",
+  name: "Google Calendar",
+  description: "Manage Google Calendar events and calendars",
+  authorization: googleAuthorization(["https://www.googleapis.com/auth/calendar", "https://www.googleapis.com/auth/calendar.events"]),
+  exchangeCode: exchangeGoogleCode,
+  tokenRefresh: "google",
+  revokeToken: revokeGoogleToken,
+  upstreamGrant: "google",
+  createContext: (credentials, env) => createCalendarContext(createGoogleOAuthClient(credentials, env)),
+  tools: calendarTools,
+};
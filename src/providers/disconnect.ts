@@ -0,0 +1,51 @@
+import type { IntegrationService } from "../services/integrations";
+import { getProvider } from "./index";
+import { ProviderDefinition } from "./types";
+
+export interface DisconnectResult {
+  provider: string;
+  /** Whether the grant was revoked at the provider (false when another integration still shares it) */
+  revokedUpstream: boolean;
+  /** Set when the upstream revocation failed; the integration is removed locally regardless */
+  warning?: string;
+}
+
+/**
+ * Revokes a user's integration at the provider and deletes the stored credentials.
+ * Returns null when the provider is not connected.
+ */
+export async function disconnectIntegration(
+  integrations: IntegrationService,
+  userId: string,
+  provider: ProviderDefinition,
+  env: Env,
+): Promise<DisconnectResult | null> {
+  const integration = await integrations.getIntegration(userId, provider.id);
+  if (!integration) return null;
+
+  let revokedUpstream = false;
+  let warning: string | undefined;
+
+  // Keep a shared upstream grant alive while another integration still depends on it
+  let grantStillUsed = false;
+  if (provider.upstreamGrant) {
+    const connected = await integrations.getUserIntegrations(userId);
+    grantStillUsed = connected.some(
+      (other) => other.provider !== provider.id && getProvider(other.provider)?.upstreamGrant === provider.upstreamGrant,
+    );
+  }
+
+  if (provider.revokeToken && !grantStillUsed) {
+    try {
+      await provider.revokeToken(env, integration);
+      revokedUpstream = true;
+    } catch (error: any) {
+      console.error(`Failed to revoke ${provider.id} token:`, error);
+      warning = error.message;
+    }
+  }
+
+  await integrations.deleteIntegration(userId, provider.id);
+
+  return { provider: provider.id, revokedUpstream, warning };
+}
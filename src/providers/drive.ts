@@ -0,0 +1,17 @@
+import { driveTools } from "../tools/google-drive";
+import { createDriveContext, DriveContext } from "../tools/google-drive/context";
+import { createGoogleOAuthClient, exchangeGoogleCode, googleAuthorization, revokeGoogleToken } from "./google";
+import { ProviderDefinition } from "./types";
+
+export const driveProvider: ProviderDefinition<DriveContext> = {
+  id: "drive",
+  name: "Google Drive",
+  description: "Read, write, and manage files in Google Drive",
+  authorization: googleAuthorization(["https://www.googleapis.com/auth/drive"]),
+  exchangeCode: exchangeGoogleCode,
+  tokenRefresh: "google",
+  revokeToken: revokeGoogleToken,
+  upstreamGrant: "google",
+  createContext: (credentials, env) => createDriveContext(createGoogleOAuthClient(credentials, env)),
+  tools: driveTools,
+};
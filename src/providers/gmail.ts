@@ -0,0 +1,28 @@
+import { gmailTools } from "../tools/gmail";
+import { createGmailContext, GMAIL_FULL_ACCESS_SCOPE, GmailContext } from "../tools/gmail/context";
+import { createGoogleOAuthClient, exchangeGoogleCode, googleAuthorization, revokeGoogleToken } from "./google";
+import { ProviderDefinition } from "./types";
+
+export const gmailProvider: ProviderDefinition<GmailContext> = {
+  id: "gmail",
+  name: "Gmail",
+  description: "Send, read, and manage Google emails",
+  // Filters, vacation responder and signatures need the settings scope on top of modify, and
+  // filters that forward need the sharing one
+  authorization: {
+    ...googleAuthorization([
+      "https://www.googleapis.com/auth/gmail.modify",
+      "https://www.googleapis.com/auth/gmail.settings.basic",
+      "https://www.googleapis.com/auth/gmail.settings.sharing",
+    ]),
+    // Permanent deletion (messages.delete, messages.batchDelete) needs full mail access,
+    // which is only asked for the first time a user deletes permanently
+    incrementalScopes: [GMAIL_FULL_ACCESS_SCOPE],
+  },
+  exchangeCode: exchangeGoogleCode,
+  tokenRefresh: "google",
+  revokeToken: revokeGoogleToken,
+  upstreamGrant: "google",
+  createContext: (credentials, env) => createGmailContext(createGoogleOAuthClient(credentials, env)),
+  tools: gmailTools,
+};
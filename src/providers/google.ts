@@ -0,0 +1,81 @@
+import { OAuth2Client } from "google-auth-library";
+import { googleTools } from "../tools/google";
+import { createGoogleContext, GoogleContext } from "../tools/google/context";
+import { fetchUpstreamAuthToken } from "../utils";
+import { ProviderCredentials, ProviderDefinition } from "./types";
+
+export const GOOGLE_AUTHORIZE_URL = "https://accounts.google.com/o/oauth2/v2/auth";
+export const GOOGLE_TOKEN_URL = "https://oauth2.googleapis.com/token";
+
+/**
+ * Authorization settings shared by every Google product integration
+ */
+export function googleAuthorization(scopes: string[]): ProviderDefinition["authorization"] {
+  return {
+    upstreamUrl: GOOGLE_AUTHORIZE_URL,
+    clientId: (env) => env.GOOGLE_CLIENT_ID,
+    scopes,
+    accessType: "offline",
+    prompt: "consent",
+  };
+}
+
+export const exchangeGoogleCode: ProviderDefinition["exchangeCode"] = (env, code, redirectUri) =>
+  fetchUpstreamAuthToken({
+    client_id: env.GOOGLE_CLIENT_ID,
+    client_secret: env.GOOGLE_CLIENT_SECRET,
+    code,
+    redirect_uri: redirectUri,
+    upstream_url: GOOGLE_TOKEN_URL,
+  });
+
+/**
+ * Revokes a Google grant. Revoking the refresh token also invalidates its access tokens.
+ */
+export const revokeGoogleToken: NonNullable<ProviderDefinition["revokeToken"]> = async (_env, credentials) => {
+  const response = await fetch("https://oauth2.googleapis.com/revoke", {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({ token: credentials.refreshToken || credentials.accessToken }),
+  });
+
+  if (!response.ok) {
+    const data = (await response.json().catch(() => ({}))) as { error?: string; error_description?: string };
+    // Already revoked or expired upstream
+    if (data.error === "invalid_token") return;
+    throw new Error(`Google token revocation failed: ${data.error_description || data.error || response.statusText}`);
+  }
+};
+
+/**
+ * Builds an OAuth2 client for the googleapis SDK from stored credentials
+ */
+export function createGoogleOAuthClient(credentials: ProviderCredentials, env: Env): OAuth2Client {
+  const oauth = new OAuth2Client({
+    clientId: env.GOOGLE_CLIENT_ID,
+    clientSecret: env.GOOGLE_CLIENT_SECRET,
+  });
+  oauth.setCredentials({
+    access_token: credentials.accessToken,
+    refresh_token: credentials.refreshToken,
+    expiry_date: credentials.expiresAt?.getTime(),
+  });
+  return oauth;
+}
+
+// Base Google identity - every user authenticates with this first
+export const googleProvider: ProviderDefinition<GoogleContext> = {
+  id: "google",
+  name: "Google",
+  description: "Base Google authentication for user profile",
+  authorization: googleAuthorization([
+    "https://www.googleapis.com/auth/userinfo.email",
+    "https://www.googleapis.com/auth/userinfo.profile",
+  ]),
+  exchangeCode: exchangeGoogleCode,
+  tokenRefresh: "google",
+  revokeToken: revokeGoogleToken,
+  upstreamGrant: "google",
+  createContext: (credentials) => createGoogleContext(credentials.accessToken),
+  tools: googleTools,
+};
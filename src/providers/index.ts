@@ -0,0 +1,52 @@
+import { googleProvider } from "./google";
+import { gmailProvider } from "./gmail";
+import { calendarProvider } from "./calendar";
+import { driveProvider } from "./drive";
+import { notionProvider } from "./notion";
+import { slackProvider } from "./slack";
+import { ProviderDefinition } from "./types";
+
+export { ensureFreshCredentials, needsRefresh, refreshAccessToken } from "./refresh";
+export { disconnectIntegration } from "./disconnect";
+export type { DisconnectResult } from "./disconnect";
+export type { ActionPreview, LinkedContexts, ProviderCredentials, ProviderDefinition, ToolDefinition, ToolResult } from "./types";
+
+// ── Provider registry ──────────────────────────────────────────────────
+// Order matters: it is the order providers appear on the integrations dashboard.
+export const providers: Record<string, ProviderDefinition> = {
+  google: googleProvider,
+  gmail: gmailProvider,
+  calendar: calendarProvider,
+  drive: driveProvider,
+  notion: notionProvider,
+  slack: slackProvider,
+};
+
+export function getProvider(id: string | undefined): ProviderDefinition | null {
+  if (!id || !Object.prototype.hasOwnProperty.call(providers, id)) return null;
+  return providers[id];
+}
+
+/**
+ * Constructs the upstream authorization URL parameters for a provider. `extraScopes` not
+ * listed in the provider's incrementalScopes are dropped.
+ */
+export function getProviderAuthorizeParams(
+  provider: ProviderDefinition,
+  env: Env,
+  redirectUri: string,
+  state: string,
+  extraScopes: string[] = [],
+) {
+  const { authorization } = provider;
+  const scopes = [...authorization.scopes, ...extraScopes.filter((scope) => authorization.incrementalScopes?.includes(scope))];
+  return {
+    upstream_url: authorization.upstreamUrl,
+    client_id: authorization.clientId(env),
+    redirect_uri: redirectUri,
+    scope: scopes.join(authorization.scopeSeparator ?? " "),
+    state,
+    access_type: authorization.accessType,
+    prompt: authorization.prompt,
+  };
+}
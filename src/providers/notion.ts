@@ -0,0 +1,76 @@
+import { notionTools } from "../tools/notion";
+import { createNotionContext, NotionContext } from "../tools/notion/context";
+import { ProviderDefinition } from "./types";
+
+interface NotionTokenResponse {
+  access_token: string;
+  refresh_token: string;
+  bot_id: string;
+  workspace_name: string;
+  workspace_icon: string;
+  workspace_id: string;
+  owner?: {
+    type: string;
+    name?: any;
+    person?: { email: string };
+  };
+}
+
+export const notionProvider: ProviderDefinition<NotionContext> = {
+  id: "notion",
+  name: "Notion",
+  description: "Access and manage Notion pages and databases",
+  authorization: {
+    upstreamUrl: "https://api.notion.com/v1/oauth/authorize",
+    clientId: (env) => env.NOTION_CLIENT_ID,
+    scopes: [], // Notion doesn't use scope parameter in the same way
+  },
+  exchangeCode: async (env, code, redirectUri) => {
+    const res = await fetch("https://api.notion.com/v1/oauth/token", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Basic ${btoa(`${env.NOTION_CLIENT_ID}:${env.NOTION_CLIENT_SECRET}`)}`,
+      },
+      body: JSON.stringify({
+        grant_type: "authorization_code",
+        code,
+        redirect_uri: redirectUri,
+      }),
+    });
+
+    if (!res.ok) {
+      const errorText = await res.text();
+      console.error("Notion token exchange failed:", res.status, errorText);
+      return [null, new Response(`Notion OAuth error: ${errorText}`, { status: 500 })];
+    }
+
+    const data = (await res.json()) as Partial<NotionTokenResponse>;
+
+    if (!data.access_token) {
+      console.error("Notion response missing access_token:", data);
+      return [null, new Response("Notion OAuth error: missing access token", { status: 500 })];
+    }
+
+    return [{ access_token: data.access_token, refresh_token: data.refresh_token }, null];
+  },
+  tokenRefresh: "none",
+  revokeToken: async (env, credentials) => {
+    const res = await fetch("https://api.notion.com/v1/oauth/revoke", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Basic ${btoa(`${env.NOTION_CLIENT_ID}:${env.NOTION_CLIENT_SECRET}`)}`,
+      },
+      body: JSON.stringify({ token: credentials.accessToken }),
+    });
+
+    // 401 means the token is already invalid
+    if (!res.ok && res.status !== 401) {
+      const errorText = await res.text();
+      throw new Error(`Notion token revocation failed: ${errorText || res.statusText}`);
+    }
+  },
+  createContext: (credentials) => createNotionContext(credentials.accessToken),
+  tools: notionTools,
+};
@@ -0,0 +1,72 @@
+import type { IntegrationService } from "../services/integrations";
+import { getTokenExpiry, refreshGoogleToken, TokenResponse } from "../utils";
+import { ProviderCredentials, ProviderDefinition, TokenRefreshStrategy } from "./types";
+
+// Refresh slightly before the upstream expiry so in-flight calls don't race it
+const EXPIRY_SKEW_MS = 60 * 1000;
+
+const refreshStrategies: Record<TokenRefreshStrategy, ((env: Env, refreshToken: string) => Promise<TokenResponse>) | null> = {
+  google: (env, refreshToken) =>
+    refreshGoogleToken({
+      client_id: env.GOOGLE_CLIENT_ID,
+      client_secret: env.GOOGLE_CLIENT_SECRET,
+      refresh_token: refreshToken,
+    }),
+  none: null,
+};
+
+/**
+ * Whether the stored access token should be refreshed before use.
+ * Rows saved before expiry tracking existed have no expiresAt; they are
+ * refreshed once so the expiry gets recorded.
+ */
+export function needsRefresh(provider: ProviderDefinition, credentials: ProviderCredentials): boolean {
+  if (!refreshStrategies[provider.tokenRefresh] || !credentials.refreshToken) return false;
+  if (!credentials.expiresAt) return true;
+  return credentials.expiresAt.getTime() - EXPIRY_SKEW_MS <= Date.now();
+}
+
+/**
+ * Exchanges the stored refresh token for a new access token using the provider's strategy
+ */
+export async function refreshAccessToken(provider: ProviderDefinition, credentials: ProviderCredentials, env: Env): Promise<TokenResponse> {
+  const strategy = refreshStrategies[provider.tokenRefresh];
+  if (!strategy || !credentials.refreshToken) {
+    throw new Error(`${provider.name} tokens cannot be refreshed`);
+  }
+  return strategy(env, credentials.refreshToken);
+}
+
+type StoredIntegration = NonNullable<Awaited<ReturnType<IntegrationService["getIntegration"]>>>;
+
+/**
+ * Credentials for a stored integration, refreshing the access token first when it has
+ * expired and saving the new tokens for the next call. Refresh failures are thrown.
+ */
+export async function ensureFreshCredentials(
+  integrations: IntegrationService,
+  provider: ProviderDefinition,
+  integration: StoredIntegration,
+  env: Env,
+): Promise<ProviderCredentials> {
+  if (!needsRefresh(provider, integration)) return integration;
+
+  const tokens = await refreshAccessToken(provider, integration, env);
+  const credentials: ProviderCredentials = {
+    accessToken: tokens.access_token,
+    refreshToken: tokens.refresh_token || integration.refreshToken,
+    expiresAt: getTokenExpiry(tokens.expires_in) || null,
+  };
+
+  await integrations.saveIntegration({
+    userId: integration.userId,
+    provider: provider.id,
+    accessToken: credentials.accessToken,
+    refreshToken: credentials.refreshToken || undefined,
+    expiresAt: credentials.expiresAt || undefined,
+    scope: integration.scope || undefined,
+    metadata: integration.metadata || undefined,
+  });
+
+  return credentials;
+}
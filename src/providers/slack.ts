@@ -0,0 +1,75 @@
+import { slackTools } from "../tools/slack";
+import { createSlackContext, SlackContext } from "../tools/slack/context";
+import { ProviderDefinition } from "./types";
+
+export const slackProvider: ProviderDefinition<SlackContext> = {
+  id: "slack",
+  name: "Slack",
+  description: "Send messages and manage Slack workspace",
+  authorization: {
+    upstreamUrl: "https://slack.com/oauth/v2/authorize",
+    clientId: (env) => env.SLACK_CLIENT_ID,
+    scopes: [
+      "channels:read",
+      "channels:write",
+      "channels:history",
+      "chat:write",
+      "files:write",
+      "groups:read",
+      "groups:write",
+      "groups:history",
+      "im:history",
+      "im:read",
+      "im:write",
+      "mpim:history",
+      "mpim:read",
+      "mpim:write",
+      "reactions:write",
+      "search:read",
+      "users:read",
+    ],
+    scopeSeparator: ",",
+  },
+  exchangeCode: async (env, code, redirectUri) => {
+    const res = await fetch("https://slack.com/api/oauth.v2.access", {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: new URLSearchParams({
+        client_id: env.SLACK_CLIENT_ID,
+        client_secret: env.SLACK_CLIENT_SECRET,
+        code: code || "",
+        redirect_uri: redirectUri,
+      }),
+    });
+
+    if (!res.ok) {
+      console.error("Slack token exchange HTTP error:", res.status, res.statusText);
+      return [null, new Response(`Slack OAuth error: ${res.statusText}`, { status: 500 })];
+    }
+
+    const data = (await res.json()) as any;
+
+    if (!data.ok) {
+      console.error("Slack OAuth API error:", data);
+      return [null, new Response(`Slack OAuth error: ${data.error}`, { status: 500 })];
+    }
+
+    return [{ access_token: data.access_token, refresh_token: data.refresh_token }, null];
+  },
+  tokenRefresh: "none",
+  revokeToken: async (_env, credentials) => {
+    const res = await fetch("https://slack.com/api/auth.revoke", {
+      method: "POST",
+      headers: { Authorization: `Bearer ${credentials.accessToken}` },
+    });
+
+    const data = (await res.json()) as { ok: boolean; error?: string };
+
+    // invalid_auth / token_revoked mean the token is already unusable
+    if (!data.ok && data.error !== "invalid_auth" && data.error !== "token_revoked") {
+      throw new Error(`Slack token revocation failed: ${data.error}`);
+    }
+  },
+  createContext: (credentials) => createSlackContext(credentials.accessToken),
+  tools: slackTools,
+};
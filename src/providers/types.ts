@@ -0,0 +1,125 @@
+import type { CallToolResult, ToolAnnotations } from "@modelcontextprotocol/sdk/types.js";
+import type { z } from "zod";
+import type { TokenResponse } from "../utils";
+
+/**
+ * Result shape shared by every tool handler. Binary payloads (e.g. downloaded
+ * attachments) are returned as embedded resources next to the text.
+ */
+export interface ToolResult extends CallToolResult {
+  content: ({ type: "text"; text: string } | { type: "resource"; resource: { uri: string; mimeType?: string; blob: string } })[];
+  /** Typed result matching the tool's outputSchema (omitted on errors) */
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+  /** HTTP status of the upstream failure behind an error, so callers can tell transient ones apart */
+  _meta?: { upstreamStatus?: number };
+}
+
+/**
+ * What a destructive tool is about to do, shown to the user before it runs
+ */
+export interface ActionPreview {
+  /** One-line description, e.g. "Permanently delete 3 emails" */
+  summary: string;
+  /** The objects affected (subjects, titles, ...) */
+  items: Record<string, unknown>[];
+  /**
+   * Arguments the confirmed call runs with instead of the ones it is given, so it affects
+   * exactly what was previewed (e.g. a search query resolved to the matching ids)
+   */
+  confirmedArgs?: Record<string, unknown>;
+}
+
+/**
+ * Lets a handler use another provider the user has connected, for tools that span
+ * integrations (e.g. attaching a Drive file to an email). `get` rejects when that
+ * provider is not connected, and the caller gets its authorization prompt.
+ */
+export interface LinkedContexts {
+  get<TContext>(providerId: string): Promise<TContext>;
+}
+
+/**
+ * A single MCP tool exposed by a provider
+ */
+export interface ToolDefinition<TContext> {
+  schema: z.ZodObject<any>;
+  /** Shape of the handler's `structuredContent` */
+  outputSchema: z.ZodObject<any>;
+  handler: (ctx: TContext, args: any, linked: LinkedContexts) => Promise<ToolResult>;
+  description: string;
+  title?: string;
+  annotations?: ToolAnnotations;
+  /**
+   * Counts against the plan's monthly `emailsSent` quota; a function decides per call
+   * for tools that only sometimes send an email
+   */
+  sendsEmail?: boolean | ((args: any) => boolean);
+  /** Accepts `sendAt` to queue the call and run it then instead (see ScheduledMessageService) */
+  schedulable?: boolean;
+  /**
+   * Scopes from `authorization.incrementalScopes` a call needs. Without them the tool
+   * returns authorization_required with a link that grants them.
+   */
+  requiredScopes?: (args: any) => string[];
+  /**
+   * Marks the tool as destructive: unless the user opted out, the first call only
+   * returns this preview and a confirmation token, and the tool runs on a second call
+   * carrying that token.
+   */
+  preview?: (ctx: TContext, args: any) => Promise<ActionPreview>;
+}
+
+/**
+ * Stored credentials for a connected provider (a row of the integration table)
+ */
+export interface ProviderCredentials {
+  accessToken: string;
+  refreshToken?: string | null;
+  expiresAt?: Date | null;
+}
+
+/**
+ * How expired access tokens are renewed for a provider
+ * - google: exchange the stored refresh token at Google's token endpoint
+ * - none: tokens do not expire (Notion, Slack bot tokens)
+ */
+export type TokenRefreshStrategy = "google" | "none";
+
+/**
+ * Declarative description of an integration. Everything the OAuth handler and
+ * the MCP agent need to know about a provider lives here, so adding an
+ * integration means adding one module to the registry.
+ */
+export interface ProviderDefinition<TContext = any> {
+  /** Identifier used in URLs, the integration table and Props */
+  id: string;
+  /** Human readable name shown on the approval dialog */
+  name: string;
+  /** Short description shown on the integrations dashboard */
+  description: string;
+  authorization: {
+    upstreamUrl: string;
+    clientId: (env: Env) => string;
+    scopes: string[];
+    /** Separator used to join scopes (Google uses spaces, Slack uses commas) */
+    scopeSeparator?: string;
+    /** Broader scopes left out of the initial consent, requested when a tool call needs them */
+    incrementalScopes?: string[];
+    accessType?: string;
+    prompt?: string;
+  };
+  /** Exchanges an authorization code for tokens at the provider's token endpoint */
+  exchangeCode: (env: Env, code: string | undefined, redirectUri: string) => Promise<[TokenResponse, null] | [null, Response]>;
+  tokenRefresh: TokenRefreshStrategy;
+  /** Revokes the stored credentials at the provider (called when the integration is disconnected) */
+  revokeToken?: (env: Env, credentials: ProviderCredentials) => Promise<void>;
+  /**
+   * Providers sharing one upstream OAuth grant (all Google products use the same client).
+   * Revoking any token of a shared grant revokes all of them, so the upstream revocation
+   * only happens when the last provider of the group is disconnected.
+   */
+  upstreamGrant?: string;
+  createContext: (credentials: ProviderCredentials, env: Env) => TContext;
+  tools: Record<string, ToolDefinition<TContext>>;
+}
@@ -0,0 +1,169 @@
+import { and, desc, eq, gte, lte, sql, SQL } from "drizzle-orm";
+import { DbClient } from "../db/client";
+import { auditEvent } from "../db/schema";
+
+export type AuditOutcome = "success" | "error" | "authorization_required" | "quota_exceeded" | "confirmation_required";
+
+// Argument keys whose values are never written to the audit log
+const SECRET_KEYS = /token|secret|password|authorization/i;
+// Free-form content keys: only their size is recorded
+const CONTENT_KEYS = new Set(["body", "htmlBody", "content", "text", "blocks", "initialComment"]);
+const MAX_STRING_LENGTH = 200;
+
+// Identifiers of upstream objects worth indexing (messages, events, files, Slack timestamps...)
+const UPSTREAM_ID_KEYS = [
+  "id",
+  "messageId",
+  "messageIds",
+  "threadId",
+  "draftId",
+  "eventId",
+  "calendarId",
+  "fileId",
+  "pageId",
+  "databaseId",
+  "blockId",
+  "labelId",
+  "filterId",
+  "channel",
+  "ts",
+  "timestamp",
+];
+
+/**
+ * Returns a copy of tool arguments that is safe to persist: secrets removed,
+ * message bodies replaced by their length and long strings truncated.
+ */
+export function redactArguments(value: unknown, key?: string): unknown {
+  if (key && SECRET_KEYS.test(key)) return "[redacted]";
+  if (key && CONTENT_KEYS.has(key) && typeof value === "string") return `[redacted ${value.length} chars]`;
+
+  if (typeof value === "string") {
+    return value.length > MAX_STRING_LENGTH ? `${value.slice(0, MAX_STRING_LENGTH)}…` : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactArguments(item));
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, redactArguments(v, k)]));
+  }
+  return value;
+}
+
+function pickIds(source: unknown, into: Record<string, unknown>) {
+  if (!source || typeof source !== "object" || Array.isArray(source)) return;
+  for (const key of UPSTREAM_ID_KEYS) {
+    const value = (source as Record<string, unknown>)[key];
+    if (into[key] !== undefined) continue;
+    if (typeof value === "string" || (Array.isArray(value) && value.every((v) => typeof v === "string"))) {
+      into[key] = value;
+    }
+  }
+}
+
+/**
+ * Collects upstream ids from the tool arguments and from structured or JSON tool output
+ * (e.g. the id of a sent message or the ts of a posted Slack message).
+ */
+export function extractUpstreamIds(
+  args: unknown,
+  result: { content?: { type: string; text?: string }[]; structuredContent?: Record<string, unknown> } | undefined,
+) {
+  const ids: Record<string, unknown> = {};
+  pickIds(args, ids);
+  pickIds(result?.structuredContent, ids);
+
+  for (const item of result?.content || []) {
+    if (item.type !== "text" || !item.text) continue;
+    try {
+      const parsed = JSON.parse(item.text);
+      pickIds(parsed, ids);
+      pickIds(parsed?.message, ids);
+    } catch {
+      // Plain text output
+    }
+  }
+
+  return ids;
+}
+
+function escapeLike(value: string) {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+export class AuditService {
+  constructor(private db: DbClient) {}
+
+  async record(event: {
+    userId?: string | null;
+    userEmail?: string | null;
+    toolName: string;
+    provider?: string | null;
+    arguments?: unknown;
+    outcome: AuditOutcome;
+    error?: string | null;
+    upstreamIds?: Record<string, unknown>;
+    latencyMs: number;
+  }) {
+    const id = crypto.randomUUID();
+
+    await this.db.insert(auditEvent).values({
+      id,
+      userId: event.userId || null,
+      userEmail: event.userEmail || null,
+      toolName: event.toolName,
+      provider: event.provider || null,
+      arguments: event.arguments === undefined ? null : JSON.stringify(redactArguments(event.arguments)),
+      outcome: event.outcome,
+      error: event.error || null,
+      upstreamIds: event.upstreamIds && Object.keys(event.upstreamIds).length ? JSON.stringify(event.upstreamIds) : null,
+      latencyMs: event.latencyMs,
+      createdAt: new Date(),
+    });
+
+    return id;
+  }
+
+  async query(filters: {
+    userId?: string;
+    userEmail?: string;
+    toolName?: string;
+    provider?: string;
+    outcome?: AuditOutcome;
+    upstreamId?: string;
+    since?: Date;
+    until?: Date;
+    limit?: number;
+  }) {
+    const conditions: SQL[] = [];
+    if (filters.userId) conditions.push(eq(auditEvent.userId, filters.userId));
+    if (filters.userEmail) conditions.push(eq(auditEvent.userEmail, filters.userEmail));
+    if (filters.toolName) conditions.push(eq(auditEvent.toolName, filters.toolName));
+    if (filters.provider) conditions.push(eq(auditEvent.provider, filters.provider));
+    if (filters.outcome) conditions.push(eq(auditEvent.outcome, filters.outcome));
+    if (filters.upstreamId) {
+      // Matches the id as a JSON string value; % and _ in it are literal characters
+      const pattern = `%${escapeLike(JSON.stringify(filters.upstreamId))}%`;
+      conditions.push(sql`${auditEvent.upstreamIds} LIKE ${pattern} ESCAPE '\\'`);
+    }
+    if (filters.since) conditions.push(gte(auditEvent.createdAt, filters.since));
+    if (filters.until) conditions.push(lte(auditEvent.createdAt, filters.until));
+
+    const results = await this.db
+      .select()
+      .from(auditEvent)
+      .where(conditions.length ? and(...conditions) : undefined)
+      .orderBy(desc(auditEvent.createdAt))
+      .limit(filters.limit || 50);
+
+    return results.map((event) => ({
+      ...event,
+      arguments: event.arguments ? JSON.parse(event.arguments) : null,
+      upstreamIds: event.upstreamIds ? JSON.parse(event.upstreamIds) : null,
+    }));
+  }
+
+  async getRecent(userId: string, limit = 50) {
+    return this.query({ userId, limit });
+  }
+}
@@ -1,7 +1,41 @@
-import { and, eq } from "drizzle-orm";
+import { and, eq, sql } from "drizzle-orm";
 import { DbClient } from "../db/client";
 import { subscription, usage } from "../db/schema";
 
+export type Plan = "free" | "pro" | "enterprise";
+export type QuotaMetric = "apiCalls" | "emailsSent";
+
+/**
+ * Monthly limits per plan. `null` means unlimited.
+ */
+export const PLAN_LIMITS: Record<Plan, Record<QuotaMetric, number | null>> = {
+  free: { apiCalls: 1000, emailsSent: 100 },
+  pro: { apiCalls: 50000, emailsSent: 5000 },
+  enterprise: { apiCalls: null, emailsSent: null },
+};
+
+// Subscriptions in any other state (canceled, past_due, ...) fall back to the free plan
+const BILLABLE_STATUSES = new Set(["active", "trialing"]);
+
+export interface QuotaCheck {
+  allowed: boolean;
+  plan: Plan;
+  metric: QuotaMetric;
+  used: number;
+  limit: number | null;
+  resetsAt: string;
+}
+
+function currentMonth() {
+  return new Date().toISOString().slice(0, 7); // YYYY-MM
+}
+
+// First instant of the next UTC month, when the monthly counters reset
+function nextMonthStart() {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)).toISOString();
+}
+
 export class BillingService {
   constructor(private db: DbClient) {}
 
@@ -11,6 +45,11 @@ export class BillingService {
     stripeCustomerId?: string;
     stripeSubscriptionId?: string;
     stripePriceId?: string;
+    status?: string;
+    currentPeriodStart?: Date;
+    currentPeriodEnd?: Date;
+    cancelAtPeriodEnd?: boolean;
+    lastStripeEventAt?: Date;
   }) {
     const id = crypto.randomUUID();
 
@@ -18,12 +57,14 @@ export class BillingService {
       id,
       userId: params.userId,
       plan: params.plan,
-      status: "active",
+      status: params.status || "active",
       stripeCustomerId: params.stripeCustomerId,
       stripeSubscriptionId: params.stripeSubscriptionId,
       stripePriceId: params.stripePriceId,
-      currentPeriodStart: new Date(),
-      currentPeriodEnd: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days
+      currentPeriodStart: params.currentPeriodStart || new Date(),
+      currentPeriodEnd: params.currentPeriodEnd || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days
+      cancelAtPeriodEnd: params.cancelAtPeriodEnd,
+      lastStripeEventAt: params.lastStripeEventAt,
       createdAt: new Date(),
       updatedAt: new Date(),
     });
@@ -44,11 +85,22 @@ export class BillingService {
       .where(eq(subscription.userId, userId));
   }
 
+  async getPlan(userId: string): Promise<Plan> {
+    const sub = await this.getSubscription(userId);
+    if (!sub || !BILLABLE_STATUSES.has(sub.status) || !(sub.plan in PLAN_LIMITS)) {
+      return "free";
+    }
+    return sub.plan as Plan;
+  }
+
+  /**
+   * Atomically adds `amount` to this month's counter and returns the new value
+   */
   async trackUsage(userId: string, type: "emailsSent" | "apiCalls" | "storageUsed", amount: number) {
-    const month = new Date().toISOString().slice(0, 7); // YYYY-MM
+    const month = currentMonth();
     const id = `${userId}-${month}`;
 
-    await this.db
+    const [row] = await this.db
       .insert(usage)
       .values({
         id,
@@ -61,14 +113,77 @@ export class BillingService {
       .onConflictDoUpdate({
         target: usage.id,
         set: {
-          [type]: amount,
+          [type]: sql`coalesce(${usage[type]}, 0) + ${amount}`,
           updatedAt: new Date(),
         },
-      });
+      })
+      .returning({ value: usage[type] });
+
+    return row?.value ?? amount;
+  }
+
+  /**
+   * Reserves `amount` units of a metric against the user's plan limit.
+   * The increment only happens when it keeps the counter within the limit, so
+   * concurrent calls cannot overshoot the quota.
+   */
+  async consumeQuota(userId: string, metric: QuotaMetric, amount = 1): Promise<QuotaCheck> {
+    const plan = await this.getPlan(userId);
+    const limit = PLAN_LIMITS[plan][metric];
+    const resetsAt = nextMonthStart();
+
+    if (limit === null) {
+      const used = await this.trackUsage(userId, metric, amount);
+      return { allowed: true, plan, metric, used, limit, resetsAt };
+    }
+
+    const month = currentMonth();
+    const rows =
+      amount > limit
+        ? []
+        : await this.db
+            .insert(usage)
+            .values({
+              id: `${userId}-${month}`,
+              userId,
+              month,
+              [metric]: amount,
+              createdAt: new Date(),
+              updatedAt: new Date(),
+            })
+            .onConflictDoUpdate({
+              target: usage.id,
+              set: {
+                [metric]: sql`coalesce(${usage[metric]}, 0) + ${amount}`,
+                updatedAt: new Date(),
+              },
+              setWhere: sql`coalesce(${usage[metric]}, 0) + ${amount} <= ${limit}`,
+            })
+            .returning({ value: usage[metric] });
+
+    if (rows.length) {
+      return { allowed: true, plan, metric, used: rows[0].value ?? amount, limit, resetsAt };
+    }
+
+    const current = await this.getUsage(userId, month);
+    return { allowed: false, plan, metric, used: current?.[metric] ?? 0, limit, resetsAt };
+  }
+
+  /**
+   * Gives back units reserved by `consumeQuota` when the action did not happen
+   */
+  async releaseQuota(userId: string, metric: QuotaMetric, amount = 1) {
+    await this.db
+      .update(usage)
+      .set({
+        [metric]: sql`max(coalesce(${usage[metric]}, 0) - ${amount}, 0)`,
+        updatedAt: new Date(),
+      })
+      .where(eq(usage.id, `${userId}-${currentMonth()}`));
   }
 
   async getUsage(userId: string, month?: string) {
-    const targetMonth = month || new Date().toISOString().slice(0, 7);
+    const targetMonth = month || currentMonth();
 
     const result = await this.db
       .select()
@@ -78,4 +193,18 @@ export class BillingService {
 
     return result[0] || null;
   }
+
+  async getUsageSummary(userId: string) {
+    const [plan, current] = await Promise.all([this.getPlan(userId), this.getUsage(userId)]);
+
+    const metrics = Object.fromEntries(
+      (Object.keys(PLAN_LIMITS[plan]) as QuotaMetric[]).map((metric) => {
+        const used = current?.[metric] ?? 0;
+        const limit = PLAN_LIMITS[plan][metric];
+        return [metric, { used, limit, remaining: limit === null ? null : Math.max(limit - used, 0) }];
+      }),
+    );
+
+    return { plan, month: currentMonth(), resetsAt: nextMonthStart(), ...metrics };
+  }
 }
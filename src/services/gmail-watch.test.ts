@@ -0,0 +1,116 @@
+import { gmail_v1 } from "googleapis";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { DbClient } from "../db/client";
+import { gmailWatch } from "../db/schema";
+import { createTestDb, insertTestUser } from "../db/test-client";
+import { GmailContext } from "../tools/gmail/context";
+import { GmailWatchError, GmailWatchService } from "./gmail-watch";
+import { IntegrationService } from "./integrations";
+
+const EMAIL = "ada@example.com";
+
+describe("GmailWatchService", () => {
+  let db: DbClient;
+  let service: GmailWatchService;
+  let historyList: ReturnType<typeof vi.fn>;
+  let gmail: gmail_v1.Gmail;
+
+  beforeEach(async () => {
+    db = await createTestDb();
+    await insertTestUser(db);
+    historyList = vi.fn();
+    gmail = {
+      users: {
+        history: { list: historyList },
+        getProfile: vi.fn().mockResolvedValue({ data: { emailAddress: EMAIL } }),
+        watch: vi.fn().mockResolvedValue({ data: { historyId: "1000", expiration: String(Date.now() + 7 * 86_400_000) } }),
+      },
+    } as unknown as gmail_v1.Gmail;
+
+    // Credentials are loaded from the integration in production; the stub stands in for them
+    service = new GmailWatchService(db, {} as IntegrationService, {} as Env);
+    vi.spyOn(service as any, "getGmailContext").mockResolvedValue({ gmail } as GmailContext);
+    await service.startWatch("user_1", gmail, "projects/p/topics/gmail");
+  });
+
+  describe("handleNotification", () => {
+    it("records every page of history and advances the cursor", async () => {
+      historyList
+        .mockResolvedValueOnce({
+          data: {
+            history: [{ id: "1001", messagesAdded: [{ message: { id: "m1", threadId: "t1", labelIds: ["INBOX", "UNREAD"] } }] }],
+            nextPageToken: "page-2",
+            historyId: "1005",
+          },
+        })
+        .mockResolvedValueOnce({
+          data: {
+            history: [
+              { id: "1003", labelsRemoved: [{ message: { id: "m1", threadId: "t1" }, labelIds: ["UNREAD"] }] },
+              { id: "1004", messagesDeleted: [{ message: { id: "m0", threadId: "t0" } }] },
+            ],
+            historyId: "1005",
+          },
+        });
+
+      const result = await service.handleNotification({ emailAddress: EMAIL, historyId: "1005" });
+
+      expect(result).toEqual({ handled: true, userId: "user_1", changes: 3, historyId: "1005" });
+      expect(historyList).toHaveBeenCalledTimes(2);
+      expect(historyList.mock.calls[0][0]).toMatchObject({ startHistoryId: "1000", pageToken: undefined });
+      expect(historyList.mock.calls[1][0]).toMatchObject({ startHistoryId: "1000", pageToken: "page-2" });
+      expect((await service.getWatch("user_1"))?.historyId).toBe("1005");
+
+      const { changes } = await service.listChanges("user_1", { limit: 10, acknowledge: false });
+      expect(changes.map((change) => [change.type, change.messageId, change.labelIds])).toEqual([
+        ["messageAdded", "m1", ["INBOX", "UNREAD"]],
+        ["labelsRemoved", "m1", ["UNREAD"]],
+        ["messageDeleted", "m0", null],
+      ]);
+    });
+
+    it("resets the cursor to the notification when Gmail no longer has the history", async () => {
+      historyList.mockRejectedValueOnce(Object.assign(new Error("Requested entity was not found."), { code: 404 }));
+
+      const result = await service.handleNotification({ emailAddress: EMAIL, historyId: "5000" });
+
+      expect(result).toMatchObject({ handled: false, reason: expect.stringContaining("cursor reset") });
+      expect((await service.getWatch("user_1"))?.historyId).toBe("5000");
+      expect((await service.listChanges("user_1", { limit: 10, acknowledge: false })).changes).toEqual([]);
+    });
+
+    it("skips a notification at or before the stored cursor", async () => {
+      await expect(service.handleNotification({ emailAddress: EMAIL, historyId: "999" })).resolves.toEqual({
+        handled: true,
+        userId: "user_1",
+        changes: 0,
+        historyId: "1000",
+      });
+      await expect(service.handleNotification({ emailAddress: EMAIL, historyId: "1000" })).resolves.toMatchObject({ changes: 0 });
+      expect(historyList).not.toHaveBeenCalled();
+    });
+
+    it("ignores a mailbox nobody watches", async () => {
+      await expect(service.handleNotification({ emailAddress: "other@example.com", historyId: "2000" })).resolves.toMatchObject({
+        handled: false,
+      });
+    });
+  });
+
+  describe("startWatch", () => {
+    it("keeps the history cursor when a watch is renewed", async () => {
+      await db.update(gmailWatch).set({ historyId: "1200" });
+      await service.startWatch("user_1", gmail, "projects/p/topics/gmail");
+
+      expect((await service.getWatch("user_1"))?.historyId).toBe("1200");
+    });
+
+    it("refuses a mailbox another user already watches", async () => {
+      await insertTestUser(db, "user_2", "grace@example.com");
+
+      await expect(service.startWatch("user_2", gmail, "projects/p/topics/gmail")).rejects.toThrow(GmailWatchError);
+      expect(gmail.users.watch).toHaveBeenCalledTimes(1);
+      expect(await service.getWatch("user_2")).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,278 @@
+import { and, asc, eq, lt, lte } from "drizzle-orm";
+import { gmail_v1 } from "googleapis";
+import { DbClient } from "../db/client";
+import { gmailChange, gmailWatch } from "../db/schema";
+import { GmailPushNotification } from "../lib/pubsub";
+import { ensureFreshCredentials, getProvider } from "../providers";
+import { GmailContext } from "../tools/gmail/context";
+import { IntegrationService } from "./integrations";
+
+// Gmail watches expire after 7 days; the daily cron renews those expiring within two
+const RENEW_WITHIN_MS = 2 * 24 * 60 * 60 * 1000;
+// Changes nobody has read by then are dropped; Gmail itself only keeps about a week of history
+const CHANGE_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+// D1 binds at most 100 parameters per statement and each change row takes 7
+const INSERT_CHUNK_SIZE = 14;
+
+export class GmailWatchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GmailWatchError";
+  }
+}
+
+export type MailboxChangeType = "messageAdded" | "messageDeleted" | "labelsAdded" | "labelsRemoved";
+
+export type GmailNotificationResult =
+  { handled: true; userId: string; changes: number; historyId: string } | { handled: false; reason: string };
+
+type ChangeRow = typeof gmailChange.$inferInsert;
+
+// History ids are unsigned 64-bit integers serialized as strings
+function historyAfter(a: string, b: string) {
+  return BigInt(a) > BigInt(b);
+}
+
+function toChangeRows(userId: string, record: gmail_v1.Schema$History, createdAt: Date): ChangeRow[] {
+  const row = (type: MailboxChangeType, message: gmail_v1.Schema$Message | undefined, labelIds?: string[] | null): ChangeRow[] =>
+    message?.id
+      ? [
+          {
+            userId,
+            type,
+            messageId: message.id,
+            threadId: message.threadId || null,
+            labelIds: labelIds ? JSON.stringify(labelIds) : null,
+            historyId: record.id!,
+            createdAt,
+          },
+        ]
+      : [];
+
+  return [
+    ...(record.messagesAdded || []).flatMap((item) => row("messageAdded", item.message, item.message?.labelIds)),
+    ...(record.messagesDeleted || []).flatMap((item) => row("messageDeleted", item.message)),
+    ...(record.labelsAdded || []).flatMap((item) => row("labelsAdded", item.message, item.labelIds)),
+    ...(record.labelsRemoved || []).flatMap((item) => row("labelsRemoved", item.message, item.labelIds)),
+  ];
+}
+
+function toWatchOutput(watch: typeof gmailWatch.$inferSelect) {
+  return {
+    emailAddress: watch.emailAddress,
+    labelIds: watch.labelIds ? (JSON.parse(watch.labelIds) as string[]) : null,
+    historyId: watch.historyId,
+    expiration: watch.expiration.toISOString(),
+  };
+}
+
+/**
+ * Gmail push notifications: the users.watch subscription of each user, and the mailbox
+ * changes synced from users.history.list whenever Pub/Sub delivers a notification.
+ */
+export class GmailWatchService {
+  constructor(
+    private db: DbClient,
+    private integrations: IntegrationService,
+    private env: Env,
+  ) {}
+
+  async getWatch(userId: string) {
+    const result = await this.db.select().from(gmailWatch).where(eq(gmailWatch.userId, userId)).limit(1);
+    return result[0] ? toWatchOutput(result[0]) : null;
+  }
+
+  /**
+   * Starts or renews the user's watch. A renewal keeps the stored history cursor so
+   * changes made between the two subscriptions are still synced. Throws GmailWatchError
+   * when another user already watches the same mailbox, since notifications only name
+   * the mailbox.
+   */
+  async startWatch(userId: string, gmail: gmail_v1.Gmail, topicName: string, labelIds?: string[] | null) {
+    const profile = await gmail.users.getProfile({ userId: "me" });
+    const emailAddress = profile.data.emailAddress!;
+
+    const [owner] = await this.db.select().from(gmailWatch).where(eq(gmailWatch.emailAddress, emailAddress)).limit(1);
+    if (owner && owner.userId !== userId) {
+      throw new GmailWatchError(`${emailAddress} is already watched by another user; they must stop_mailbox_watch first`);
+    }
+
+    const response = await gmail.users.watch({
+      userId: "me",
+      requestBody: {
+        topicName,
+        labelIds: labelIds?.length ? labelIds : undefined,
+        labelFilterBehavior: labelIds?.length ? "include" : undefined,
+      },
+    });
+
+    const existing = await this.db.select().from(gmailWatch).where(eq(gmailWatch.userId, userId)).limit(1);
+    const fields = {
+      emailAddress,
+      topicName,
+      labelIds: labelIds?.length ? JSON.stringify(labelIds) : null,
+      expiration: new Date(Number(response.data.expiration)),
+      updatedAt: new Date(),
+    };
+
+    await this.db
+      .insert(gmailWatch)
+      .values({ userId, ...fields, historyId: existing[0]?.historyId ?? response.data.historyId!, createdAt: new Date() })
+      .onConflictDoUpdate({ target: gmailWatch.userId, set: fields });
+
+    return (await this.getWatch(userId))!;
+  }
+
+  /**
+   * Stops the user's watch and drops their unread changes. Returns false when there was none.
+   */
+  async stopWatch(userId: string, gmail: gmail_v1.Gmail) {
+    const existing = await this.getWatch(userId);
+    if (!existing) return false;
+
+    await gmail.users.stop({ userId: "me" });
+    await this.db.batch([
+      this.db.delete(gmailWatch).where(eq(gmailWatch.userId, userId)),
+      this.db.delete(gmailChange).where(eq(gmailChange.userId, userId)),
+    ]);
+    return true;
+  }
+
+  /**
+   * Syncs the history since the stored cursor into gmail_change. Pub/Sub delivers at least
+   * once, so a redelivered or concurrent notification can occasionally record a change twice.
+   */
+  async handleNotification(notification: GmailPushNotification): Promise<GmailNotificationResult> {
+    const result = await this.db.select().from(gmailWatch).where(eq(gmailWatch.emailAddress, notification.emailAddress)).limit(1);
+    const watch = result[0];
+    if (!watch) {
+      return { handled: false, reason: `No watch registered for ${notification.emailAddress}` };
+    }
+    if (!historyAfter(notification.historyId, watch.historyId)) {
+      return { handled: true, userId: watch.userId, changes: 0, historyId: watch.historyId };
+    }
+
+    const context = await this.getGmailContext(watch.userId);
+    if (!context) {
+      await this.db.delete(gmailWatch).where(eq(gmailWatch.userId, watch.userId));
+      return { handled: false, reason: `Gmail is no longer connected for user ${watch.userId}; watch removed` };
+    }
+
+    const rows: ChangeRow[] = [];
+    let historyId = watch.historyId;
+    let pageToken: string | undefined;
+    const createdAt = new Date();
+    try {
+      do {
+        const response = await context.gmail.users.history.list({
+          userId: "me",
+          startHistoryId: watch.historyId,
+          maxResults: 500,
+          pageToken,
+        });
+        for (const record of response.data.history || []) {
+          rows.push(...toChangeRows(watch.userId, record, createdAt));
+        }
+        historyId = response.data.historyId || historyId;
+        pageToken = response.data.nextPageToken || undefined;
+      } while (pageToken);
+    } catch (error: any) {
+      // The cursor is older than the history Gmail keeps: resume from this notification
+      if (error?.response?.status === 404 || error?.code === 404) {
+        await this.updateCursor(watch.userId, notification.historyId);
+        return { handled: false, reason: `History before ${notification.historyId} is no longer available; cursor reset` };
+      }
+      throw error;
+    }
+
+    // The new cursor and the changes it covers are written together
+    const inserts = [];
+    for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+      inserts.push(this.db.insert(gmailChange).values(rows.slice(i, i + INSERT_CHUNK_SIZE)));
+    }
+    await this.db.batch([
+      this.db.update(gmailWatch).set({ historyId, updatedAt: new Date() }).where(eq(gmailWatch.userId, watch.userId)),
+      ...inserts,
+    ]);
+
+    return { handled: true, userId: watch.userId, changes: rows.length, historyId };
+  }
+
+  /**
+   * The user's oldest unread changes. With `acknowledge`, the returned changes are removed
+   * so the next call continues after them.
+   */
+  async listChanges(userId: string, options: { limit: number; acknowledge: boolean }) {
+    const rows = await this.db
+      .select()
+      .from(gmailChange)
+      .where(eq(gmailChange.userId, userId))
+      .orderBy(asc(gmailChange.id))
+      .limit(options.limit + 1);
+
+    const hasMore = rows.length > options.limit;
+    const changes = rows.slice(0, options.limit);
+    if (options.acknowledge && changes.length) {
+      await this.db.delete(gmailChange).where(and(eq(gmailChange.userId, userId), lte(gmailChange.id, changes[changes.length - 1].id)));
+    }
+
+    return {
+      changes: changes.map((change) => ({
+        type: change.type as MailboxChangeType,
+        messageId: change.messageId,
+        threadId: change.threadId,
+        labelIds: change.labelIds ? (JSON.parse(change.labelIds) as string[]) : null,
+        historyId: change.historyId,
+        recordedAt: change.createdAt.toISOString(),
+      })),
+      hasMore,
+    };
+  }
+
+  /**
+   * Renews watches close to expiry and prunes changes past retention. Run from the cron trigger.
+   */
+  async renewExpiringWatches() {
+    const expiring = await this.db
+      .select()
+      .from(gmailWatch)
+      .where(lt(gmailWatch.expiration, new Date(Date.now() + RENEW_WITHIN_MS)));
+
+    let renewed = 0;
+    const failed: { userId: string; error: string }[] = [];
+
+    for (const watch of expiring) {
+      try {
+        const context = await this.getGmailContext(watch.userId);
+        if (!context) {
+          await this.db.delete(gmailWatch).where(eq(gmailWatch.userId, watch.userId));
+          continue;
+        }
+        await this.startWatch(watch.userId, context.gmail, watch.topicName, watch.labelIds ? JSON.parse(watch.labelIds) : null);
+        renewed++;
+      } catch (error: any) {
+        console.error(`Failed to renew Gmail watch for user ${watch.userId}:`, error);
+        failed.push({ userId: watch.userId, error: error.message });
+      }
+    }
+
+    await this.db.delete(gmailChange).where(lt(gmailChange.createdAt, new Date(Date.now() - CHANGE_RETENTION_MS)));
+
+    console.log(`✅ Renewed ${renewed} Gmail watches (${failed.length} failed)`);
+    return { renewed, failed };
+  }
+
+  private async updateCursor(userId: string, historyId: string) {
+    await this.db.update(gmailWatch).set({ historyId, updatedAt: new Date() }).where(eq(gmailWatch.userId, userId));
+  }
+
+  // Outside a tool call there is no MCP session, so credentials are loaded for the watch's owner
+  private async getGmailContext(userId: string): Promise<GmailContext | null> {
+    const provider = getProvider("gmail")!;
+    const integration = await this.integrations.getIntegration(userId, provider.id);
+    if (!integration?.accessToken) return null;
+
+    const credentials = await ensureFreshCredentials(this.integrations, provider, integration, this.env);
+    return provider.createContext(credentials, this.env) as GmailContext;
+  }
+}
@@ -1,14 +1,65 @@
-import { eq, and } from "drizzle-orm";
+import { eq, and, isNull, ne, or } from "drizzle-orm";
 import { DbClient } from "../db/client";
 import { integration } from "../db/schema";
+import { TokenCipher } from "../lib/token-encryption";
+
+type IntegrationRow = typeof integration.$inferSelect;
 
 export class IntegrationService {
-  constructor(private db: DbClient) {
+  constructor(
+    private db: DbClient,
+    private cipher: TokenCipher,
+  ) {
     if (!db) {
       throw new Error("Database client is required for IntegrationService");
     }
   }
 
+  // Ciphertext is bound to the row's owner and provider
+  private encryptionContext(userId: string, provider: string) {
+    return `${userId}:${provider}`;
+  }
+
+  private encryptTokens(userId: string, provider: string, accessToken: string, refreshToken?: string | null) {
+    return this.cipher.encrypt({ accessToken, refreshToken: refreshToken || null }, this.encryptionContext(userId, provider));
+  }
+
+  /**
+   * Returns the row with plaintext tokens. Rows without a keyId predate encryption and are returned as stored.
+   */
+  private async decryptRow(row: IntegrationRow) {
+    if (!row.keyId || !row.encryptedKey) {
+      return row;
+    }
+
+    const tokens = await this.cipher.decrypt(
+      {
+        accessToken: row.accessToken,
+        refreshToken: row.refreshToken,
+        encryptedKey: row.encryptedKey,
+        keyId: row.keyId,
+      },
+      this.encryptionContext(row.userId, row.provider),
+    );
+
+    return { ...row, ...tokens };
+  }
+
+  /**
+   * decryptRow for rows being handed to a caller: a plaintext row is encrypted in place
+   * on first read instead of waiting for the cron's reencryptTokens
+   */
+  private async readRow(row: IntegrationRow) {
+    if (!row.keyId) {
+      const encrypted = await this.encryptTokens(row.userId, row.provider, row.accessToken, row.refreshToken);
+      await this.db
+        .update(integration)
+        .set({ ...encrypted, updatedAt: new Date() })
+        .where(and(eq(integration.id, row.id), isNull(integration.keyId)));
+    }
+    return this.decryptRow(row);
+  }
+
   async saveIntegration(params: {
     userId: string;
     provider: string;
@@ -26,6 +77,8 @@ export class IntegrationService {
         .where(and(eq(integration.userId, params.userId), eq(integration.provider, params.provider)))
         .limit(1);
 
+      const encrypted = await this.encryptTokens(params.userId, params.provider, params.accessToken, params.refreshToken);
+
       if (existing.length > 0) {
         // Update existing integration
         console.log(`Updating existing ${params.provider} integration for user ${params.userId}`);
@@ -33,8 +86,7 @@ export class IntegrationService {
         await this.db
           .update(integration)
           .set({
-            accessToken: params.accessToken,
-            refreshToken: params.refreshToken || null,
+            ...encrypted,
             expiresAt: params.expiresAt || null,
             scope: params.scope || null,
             metadata: params.metadata ? JSON.stringify(params.metadata) : null,
@@ -53,8 +105,7 @@ export class IntegrationService {
           id,
           userId: params.userId,
           provider: params.provider,
-          accessToken: params.accessToken,
-          refreshToken: params.refreshToken || null,
+          ...encrypted,
           expiresAt: params.expiresAt || null,
           scope: params.scope || null,
           metadata: params.metadata ? JSON.stringify(params.metadata) : null,
@@ -86,7 +137,7 @@ export class IntegrationService {
 
       if (result.length === 0) return null;
 
-      const int = result[0];
+      const int = await this.readRow(result[0]);
       return {
         ...int,
         metadata: int.metadata ? JSON.parse(int.metadata) : null,
@@ -101,16 +152,28 @@ export class IntegrationService {
     try {
       const results = await this.db.select().from(integration).where(eq(integration.userId, userId));
 
-      return results.map((int) => ({
-        ...int,
-        metadata: int.metadata ? JSON.parse(int.metadata) : null,
-      }));
+      return Promise.all(
+        results.map(async (row) => {
+          const int = await this.readRow(row);
+          return {
+            ...int,
+            metadata: int.metadata ? JSON.parse(int.metadata) : null,
+          };
+        }),
+      );
     } catch (error: any) {
       console.error("Error getting user integrations:", error);
       throw error;
     }
   }
 
+  /**
+   * The user's integrations without their tokens, for when only which providers are connected matters
+   */
+  async listIntegrationIds(userId: string) {
+    return this.db.select({ id: integration.id, provider: integration.provider }).from(integration).where(eq(integration.userId, userId));
+  }
+
   async deleteIntegration(userId: string, provider: string) {
     try {
       await this.db.delete(integration).where(and(eq(integration.userId, userId), eq(integration.provider, provider)));
@@ -121,4 +184,38 @@ export class IntegrationService {
       throw error;
     }
   }
+
+  /**
+   * Re-encrypts every row not encrypted under the current key: plaintext rows saved
+   * before encryption was introduced, and rows wrapped with a retired key.
+   */
+  async reencryptTokens() {
+    const rows = await this.db
+      .select()
+      .from(integration)
+      .where(or(isNull(integration.keyId), ne(integration.keyId, this.cipher.currentKeyId)));
+
+    let reencrypted = 0;
+    const failed: { id: string; error: string }[] = [];
+
+    for (const row of rows) {
+      try {
+        const plain = await this.decryptRow(row);
+        const encrypted = await this.encryptTokens(row.userId, row.provider, plain.accessToken, plain.refreshToken);
+
+        await this.db
+          .update(integration)
+          .set({ ...encrypted, updatedAt: new Date() })
+          .where(eq(integration.id, row.id));
+
+        reencrypted++;
+      } catch (error: any) {
+        console.error(`Failed to re-encrypt integration ${row.id}:`, error);
+        failed.push({ id: row.id, error: error.message });
+      }
+    }
+
+    console.log(`✅ Re-encrypted ${reencrypted} integrations (${failed.length} failed)`);
+    return { reencrypted, failed };
+  }
 }
@@ -0,0 +1,47 @@
+import { eq } from "drizzle-orm";
+import { beforeEach, describe, expect, it } from "vitest";
+import { DbClient } from "../db/client";
+import { scheduledMessage } from "../db/schema";
+import { createTestDb, insertTestUser } from "../db/test-client";
+import { AuditService } from "./audit";
+import { BillingService } from "./billing";
+import { IntegrationService } from "./integrations";
+import { ScheduledMessageError, ScheduledMessageService } from "./scheduled-messages";
+
+describe("ScheduledMessageService", () => {
+  let db: DbClient;
+  let service: ScheduledMessageService;
+  const sendAt = new Date(Date.now() + 60 * 60 * 1000);
+
+  beforeEach(async () => {
+    db = await createTestDb();
+    await insertTestUser(db);
+    service = new ScheduledMessageService(db, {} as IntegrationService, new BillingService(db), new AuditService(db), {} as Env);
+  });
+
+  it("refuses arguments too large for a D1 row", async () => {
+    const content = Buffer.alloc(1024 * 1024).toString("base64");
+    const args = { to: ["a@example.com"], subject: "Report", body: "Attached", attachments: [{ filename: "report.pdf", content }] };
+
+    await expect(service.schedule("user_1", "gmail", "send_email", args, sendAt)).rejects.toThrow(ScheduledMessageError);
+    expect(await service.listScheduled("user_1")).toEqual([]);
+  });
+
+  it("fails messages stuck in sending, leaving recent sends alone", async () => {
+    const stuck = await service.schedule("user_1", "gmail", "send_email", { subject: "stuck" }, sendAt);
+    const inFlight = await service.schedule("user_1", "gmail", "send_email", { subject: "in flight" }, sendAt);
+    await db
+      .update(scheduledMessage)
+      .set({ status: "sending", updatedAt: new Date(Date.now() - 60 * 60 * 1000) })
+      .where(eq(scheduledMessage.id, stuck.id));
+    await db.update(scheduledMessage).set({ status: "sending", updatedAt: new Date() }).where(eq(scheduledMessage.id, inFlight.id));
+
+    await expect(service.dispatchOverdue()).resolves.toEqual({ overdue: 0, sent: 0, stuck: 1 });
+
+    expect(await service.getScheduled("user_1", stuck.id)).toMatchObject({
+      status: "failed",
+      lastError: expect.stringContaining("unknown whether the message went out"),
+    });
+    expect(await service.getScheduled("user_1", inFlight.id)).toMatchObject({ status: "sending" });
+  });
+});
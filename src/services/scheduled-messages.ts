@@ -0,0 +1,359 @@
+import { and, asc, eq, lt, lte } from "drizzle-orm";
+import { DbClient } from "../db/client";
+import { scheduledMessage, user } from "../db/schema";
+import { ensureFreshCredentials, getProvider, LinkedContexts, ToolResult } from "../providers";
+import { errorResult, upstreamStatusOf } from "../tools/result";
+import { AuditOutcome, AuditService, extractUpstreamIds } from "./audit";
+import { BillingService, QuotaCheck } from "./billing";
+import { IntegrationService } from "./integrations";
+
+// Attempts before a message that keeps failing transiently is given up on
+const MAX_ATTEMPTS = 5;
+// Delay before the nth retry: 1, 5, 15 then 60 minutes
+const RETRY_DELAYS_MS = [60_000, 5 * 60_000, 15 * 60_000, 60 * 60_000];
+// Pending messages this overdue are dispatched by the cron, in case their alarm was lost
+const OVERDUE_AFTER_MS = 5 * 60 * 1000;
+// A send takes seconds; a message still "sending" after this was interrupted (evicted Durable
+// Object, Worker crash) and would otherwise stay claimed forever
+const STUCK_SENDING_AFTER_MS = 15 * 60 * 1000;
+// D1 rows are limited to 2 MB; the queued arguments are kept well under it
+const MAX_ARGS_BYTES = 1024 * 1024;
+
+export class ScheduledMessageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScheduledMessageError";
+  }
+}
+
+export type ScheduledMessageStatus = "pending" | "sending" | "sent" | "failed" | "cancelled";
+
+export type DispatchOutcome = { status: ScheduledMessageStatus; retryAt?: Date };
+
+type ScheduledMessageRow = typeof scheduledMessage.$inferSelect;
+
+/**
+ * Rate limits, upstream 5xx responses and network failures are worth retrying; anything
+ * else (bad arguments, revoked access, unknown channel) fails the same way next time
+ */
+function isTransient(error: any) {
+  if (isTransientStatus(upstreamStatusOf(error))) return true;
+  // @slack/web-api network failures
+  if (error?.code === "slack_webapi_request_error") return true;
+  // fetch rejects with a TypeError on network failures; googleapis wraps it as the cause
+  if (error instanceof TypeError || error?.cause instanceof TypeError) return true;
+  return error?.name === "AbortError" || error?.name === "TimeoutError";
+}
+
+function isTransientStatus(status: number | undefined) {
+  return status === 429 || (status !== undefined && status >= 500 && status < 600);
+}
+
+function quotaExceeded(check: QuotaCheck): ToolResult {
+  const details = {
+    error: "quota_exceeded",
+    metric: check.metric,
+    plan: check.plan,
+    used: check.used,
+    limit: check.limit,
+    resetsAt: check.resetsAt,
+    message: `Monthly ${check.metric} limit of ${check.limit} reached on the ${check.plan} plan`,
+  };
+  return { content: [{ type: "text", text: `Error: ${details.message}` }], structuredContent: details, isError: true };
+}
+
+function resultText(result: ToolResult) {
+  return result.content.find((item) => item.type === "text")?.text ?? "Unknown error";
+}
+
+function toScheduledOutput(row: ScheduledMessageRow) {
+  return {
+    id: row.id,
+    tool: row.toolName,
+    sendAt: row.sendAt.toISOString(),
+    status: row.status as ScheduledMessageStatus,
+    attempts: row.attempts,
+    lastError: row.lastError,
+    result: row.result ? (JSON.parse(row.result) as Record<string, unknown>) : null,
+    sentAt: row.sentAt?.toISOString() ?? null,
+    args: JSON.parse(row.args) as Record<string, unknown>,
+  };
+}
+
+/**
+ * Messages (send_email, post_message) queued to go out later. D1 is the source of truth so
+ * any session can list or cancel them; the MCP agent that queued one sets an alarm that
+ * calls dispatch at sendAt, and the five-minute cron sends whatever an alarm missed.
+ */
+export class ScheduledMessageService {
+  constructor(
+    private db: DbClient,
+    private integrations: IntegrationService,
+    private billing: BillingService,
+    private audit: AuditService,
+    private env: Env,
+  ) {}
+
+  /**
+   * Queues a tool call. Throws ScheduledMessageError when its arguments are too large to
+   * store, e.g. inline attachment content.
+   */
+  async schedule(userId: string, provider: string, toolName: string, args: Record<string, unknown>, sendAt: Date) {
+    const serialized = JSON.stringify(args);
+    if (new TextEncoder().encode(serialized).length > MAX_ARGS_BYTES) {
+      throw new ScheduledMessageError(
+        `The message is too large to schedule (over ${MAX_ARGS_BYTES / 1024 / 1024} MB of arguments). Attach files by driveFileId or url instead of inline content, or send it now.`,
+      );
+    }
+
+    const id = crypto.randomUUID();
+    await this.db.insert(scheduledMessage).values({
+      id,
+      userId,
+      provider,
+      toolName,
+      args: serialized,
+      sendAt,
+      status: "pending",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+    return (await this.getScheduled(userId, id))!;
+  }
+
+  async getScheduled(userId: string, id: string) {
+    const row = await this.findRow(userId, id);
+    return row ? toScheduledOutput(row) : null;
+  }
+
+  async listScheduled(userId: string, status?: ScheduledMessageStatus) {
+    const rows = await this.db
+      .select()
+      .from(scheduledMessage)
+      .where(and(eq(scheduledMessage.userId, userId), status ? eq(scheduledMessage.status, status) : undefined))
+      .orderBy(asc(scheduledMessage.sendAt));
+    return rows.map(toScheduledOutput);
+  }
+
+  /**
+   * Cancels a message that has not gone out yet. Returns null when it does not exist;
+   * otherwise the message, whose status says whether the cancellation took effect.
+   */
+  async cancel(userId: string, id: string) {
+    await this.db
+      .update(scheduledMessage)
+      .set({ status: "cancelled", updatedAt: new Date() })
+      .where(and(eq(scheduledMessage.userId, userId), eq(scheduledMessage.id, id), eq(scheduledMessage.status, "pending")));
+    return this.getScheduled(userId, id);
+  }
+
+  /**
+   * Sends a due message. On a transient failure, thrown or returned by the tool with a
+   * 429/5xx upstream status, the message stays pending with a later sendAt, returned as
+   * `retryAt` for the caller to set its next alarm.
+   */
+  async dispatch(id: string): Promise<DispatchOutcome> {
+    // Claiming the row first keeps an alarm and the cron from sending the same message twice
+    const claimed = await this.db
+      .update(scheduledMessage)
+      .set({ status: "sending", updatedAt: new Date() })
+      .where(and(eq(scheduledMessage.id, id), eq(scheduledMessage.status, "pending"), lte(scheduledMessage.sendAt, new Date())))
+      .returning();
+    const row = claimed[0];
+    if (!row) {
+      const current = (await this.db.select().from(scheduledMessage).where(eq(scheduledMessage.id, id)).limit(1))[0];
+      if (!current) return { status: "cancelled" };
+      // Woken before sendAt: try again then
+      if (current.status === "pending") return { status: "pending", retryAt: current.sendAt };
+      return { status: current.status as ScheduledMessageStatus };
+    }
+
+    const attempts = row.attempts + 1;
+    let result: ToolResult;
+    let transient: boolean;
+    try {
+      result = await this.run(row);
+      transient = !!result.isError && isTransientStatus(result._meta?.upstreamStatus);
+    } catch (error: any) {
+      result = errorResult(error.message);
+      transient = isTransient(error);
+    }
+
+    if (transient && attempts < MAX_ATTEMPTS) {
+      const retryAt = new Date(Date.now() + RETRY_DELAYS_MS[Math.min(attempts, RETRY_DELAYS_MS.length) - 1]);
+      await this.update(row.id, { status: "pending", attempts, sendAt: retryAt, lastError: resultText(result) });
+      return { status: "pending", retryAt };
+    }
+
+    if (result.isError) {
+      await this.update(row.id, { status: "failed", attempts, lastError: resultText(result) });
+      return { status: "failed" };
+    }
+
+    await this.update(row.id, {
+      status: "sent",
+      attempts,
+      lastError: null,
+      result: JSON.stringify(result.structuredContent ?? null),
+      sentAt: new Date(),
+    });
+    return { status: "sent" };
+  }
+
+  /**
+   * Sends pending messages well past their sendAt, and fails messages stuck in "sending".
+   * Run from the cron trigger.
+   */
+  async dispatchOverdue() {
+    // An interrupted send may already have gone out, so it is failed rather than retried:
+    // a duplicate email or Slack post is worse than asking the user to check and resend
+    const stuck = await this.db
+      .update(scheduledMessage)
+      .set({
+        status: "failed",
+        lastError: "Sending was interrupted and it is unknown whether the message went out; check before sending it again",
+        updatedAt: new Date(),
+      })
+      .where(and(eq(scheduledMessage.status, "sending"), lt(scheduledMessage.updatedAt, new Date(Date.now() - STUCK_SENDING_AFTER_MS))))
+      .returning({ id: scheduledMessage.id });
+    if (stuck.length) {
+      console.warn(`Failed ${stuck.length} scheduled messages stuck in sending: ${stuck.map(({ id }) => id).join(", ")}`);
+    }
+
+    const overdue = await this.db
+      .select({ id: scheduledMessage.id })
+      .from(scheduledMessage)
+      .where(and(eq(scheduledMessage.status, "pending"), lte(scheduledMessage.sendAt, new Date(Date.now() - OVERDUE_AFTER_MS))));
+
+    let sent = 0;
+    for (const { id } of overdue) {
+      try {
+        if ((await this.dispatch(id)).status === "sent") sent++;
+      } catch (error) {
+        console.error(`Failed to dispatch scheduled message ${id}:`, error);
+      }
+    }
+
+    console.log(`✅ Sent ${sent} of ${overdue.length} overdue scheduled messages`);
+    return { overdue: overdue.length, sent, stuck: stuck.length };
+  }
+
+  /**
+   * Runs the tool as the message's owner and records it in the audit log, the way a
+   * tool call through the MCP server is.
+   */
+  private async run(row: ScheduledMessageRow): Promise<ToolResult> {
+    const startedAt = Date.now();
+    const args = JSON.parse(row.args);
+    let result: ToolResult | undefined;
+    let thrown: any;
+    try {
+      result = await this.execute(row, args);
+      return result;
+    } catch (error) {
+      thrown = error;
+      throw error;
+    } finally {
+      await this.recordAudit(row, args, result, thrown, Date.now() - startedAt);
+    }
+  }
+
+  /**
+   * Outside a tool call there is no MCP session, so credentials are loaded by user id, and
+   * the apiCalls and sending quotas are taken now rather than when the message was queued.
+   */
+  private async execute(row: ScheduledMessageRow, args: Record<string, unknown>): Promise<ToolResult> {
+    const provider = getProvider(row.provider);
+    const toolDef = provider?.tools[row.toolName];
+    if (!provider || !toolDef) return errorResult(`Unknown tool ${row.provider}/${row.toolName}`);
+    const sendsEmail = typeof toolDef.sendsEmail === "function" ? toolDef.sendsEmail(args) : !!toolDef.sendsEmail;
+
+    const ctx = await this.getContext(row.userId, provider.id);
+    if (!ctx) return errorResult(`${provider.name} is no longer connected`);
+
+    const apiCalls = await this.billing.consumeQuota(row.userId, "apiCalls");
+    if (!apiCalls.allowed) return quotaExceeded(apiCalls);
+    if (sendsEmail) {
+      const emailsSent = await this.billing.consumeQuota(row.userId, "emailsSent");
+      if (!emailsSent.allowed) return quotaExceeded(emailsSent);
+    }
+
+    const linked: LinkedContexts = {
+      get: async <TContext>(providerId: string) => {
+        const linkedCtx = await this.getContext(row.userId, providerId);
+        if (!linkedCtx) throw new Error(`${getProvider(providerId)?.name ?? providerId} is no longer connected`);
+        return linkedCtx as TContext;
+      },
+    };
+
+    try {
+      const result = await toolDef.handler(ctx, args, linked);
+      if (sendsEmail && result.isError) await this.billing.releaseQuota(row.userId, "emailsSent");
+      return result;
+    } catch (error) {
+      if (sendsEmail) await this.billing.releaseQuota(row.userId, "emailsSent");
+      throw error;
+    }
+  }
+
+  private async recordAudit(
+    row: ScheduledMessageRow,
+    args: Record<string, unknown>,
+    result: ToolResult | undefined,
+    thrown: any,
+    latencyMs: number,
+  ) {
+    try {
+      let outcome: AuditOutcome = "success";
+      let error: string | undefined;
+      if (result?.structuredContent?.error === "quota_exceeded") {
+        outcome = "quota_exceeded";
+      } else if (thrown || result?.isError) {
+        outcome = "error";
+        error = thrown?.message || (result && resultText(result));
+      }
+
+      const owner = (await this.db.select({ email: user.email }).from(user).where(eq(user.id, row.userId)).limit(1))[0];
+      await this.audit.record({
+        userId: row.userId,
+        userEmail: owner?.email,
+        toolName: row.toolName,
+        provider: row.provider,
+        arguments: { ...args, scheduledMessageId: row.id },
+        outcome,
+        error,
+        upstreamIds: extractUpstreamIds(args, result),
+        latencyMs,
+      });
+    } catch (err) {
+      // Auditing must never break the send itself
+      console.error("Failed to record audit event:", err);
+    }
+  }
+
+  private async getContext(userId: string, providerId: string) {
+    const provider = getProvider(providerId);
+    if (!provider) return null;
+    const integration = await this.integrations.getIntegration(userId, provider.id);
+    if (!integration?.accessToken) return null;
+
+    const credentials = await ensureFreshCredentials(this.integrations, provider, integration, this.env);
+    return provider.createContext(credentials, this.env);
+  }
+
+  private async findRow(userId: string, id: string) {
+    const result = await this.db
+      .select()
+      .from(scheduledMessage)
+      .where(and(eq(scheduledMessage.userId, userId), eq(scheduledMessage.id, id)))
+      .limit(1);
+    return result[0] ?? null;
+  }
+
+  private async update(id: string, fields: Partial<typeof scheduledMessage.$inferInsert>) {
+    await this.db
+      .update(scheduledMessage)
+      .set({ ...fields, updatedAt: new Date() })
+      .where(eq(scheduledMessage.id, id));
+  }
+}
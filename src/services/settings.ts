@@ -0,0 +1,38 @@
+import { eq } from "drizzle-orm";
+import { DbClient } from "../db/client";
+import { userSettings } from "../db/schema";
+
+export type UserSettings = Pick<typeof userSettings.$inferSelect, "confirmDestructiveActions">;
+
+const DEFAULT_SETTINGS: UserSettings = {
+  confirmDestructiveActions: true,
+};
+
+export class SettingsService {
+  constructor(private db: DbClient) {}
+
+  async getSettings(userId: string): Promise<UserSettings> {
+    const result = await this.db.select().from(userSettings).where(eq(userSettings.userId, userId)).limit(1);
+    if (!result[0]) return DEFAULT_SETTINGS;
+
+    return { confirmDestructiveActions: result[0].confirmDestructiveActions };
+  }
+
+  async updateSettings(userId: string, updates: Partial<UserSettings>) {
+    await this.db
+      .insert(userSettings)
+      .values({
+        ...DEFAULT_SETTINGS,
+        ...updates,
+        userId,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .onConflictDoUpdate({
+        target: userSettings.userId,
+        set: { ...updates, updatedAt: new Date() },
+      });
+
+    return this.getSettings(userId);
+  }
+}
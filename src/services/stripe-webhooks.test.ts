@@ -0,0 +1,144 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { DbClient } from "../db/client";
+import { createTestDb, insertTestUser } from "../db/test-client";
+import { StripeEvent, StripeSignatureError, verifyStripeWebhook } from "../lib/stripe";
+import { BillingService } from "./billing";
+import { StripeWebhookService } from "./stripe-webhooks";
+import created from "./fixtures/stripe/customer.subscription.created.json";
+import updated from "./fixtures/stripe/customer.subscription.updated.json";
+import deleted from "./fixtures/stripe/customer.subscription.deleted.json";
+import paymentFailed from "./fixtures/stripe/invoice.payment_failed.json";
+
+const SECRET = "whsec_test_secret";
+
+// Signs a payload the way Stripe does: HMAC-SHA256 of "<timestamp>.<payload>"
+async function sign(payload: string, secret = SECRET, timestamp = Math.floor(Date.now() / 1000)) {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(`${timestamp}.${payload}`));
+  const hex = Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, "0")).join("");
+  return `t=${timestamp},v1=${hex}`;
+}
+
+// Runs a recorded event through the same steps as the /webhooks/stripe route
+async function deliver(service: StripeWebhookService, fixture: object) {
+  const payload = JSON.stringify(fixture);
+  const event = await verifyStripeWebhook(payload, await sign(payload), SECRET);
+  return service.handleEvent(event);
+}
+
+describe("verifyStripeWebhook", () => {
+  const payload = JSON.stringify(created);
+
+  it("returns the event when the signature matches", async () => {
+    const event = await verifyStripeWebhook(payload, await sign(payload), SECRET);
+    expect(event).toMatchObject<Partial<StripeEvent>>({ id: created.id, type: "customer.subscription.created" });
+  });
+
+  it("rejects a signature made with another secret", async () => {
+    await expect(verifyStripeWebhook(payload, await sign(payload, "whsec_other"), SECRET)).rejects.toThrow(StripeSignatureError);
+  });
+
+  it("rejects a payload changed after signing", async () => {
+    const header = await sign(payload);
+    const tampered = payload.replace('"status":"active"', '"status":"canceled"');
+    await expect(verifyStripeWebhook(tampered, header, SECRET)).rejects.toThrow("does not match");
+  });
+
+  it("rejects a missing header and a stale timestamp", async () => {
+    await expect(verifyStripeWebhook(payload, null, SECRET)).rejects.toThrow("Missing Stripe-Signature header");
+    const stale = await sign(payload, SECRET, Math.floor(Date.now() / 1000) - 600);
+    await expect(verifyStripeWebhook(payload, stale, SECRET)).rejects.toThrow("outside the tolerance window");
+  });
+});
+
+describe("StripeWebhookService.handleEvent", () => {
+  let db: DbClient;
+  let billing: BillingService;
+  let service: StripeWebhookService;
+
+  beforeEach(async () => {
+    db = await createTestDb();
+    await insertTestUser(db);
+    billing = new BillingService(db);
+    service = new StripeWebhookService(db, billing);
+  });
+
+  it("creates the subscription from customer.subscription.created", async () => {
+    await expect(deliver(service, created)).resolves.toEqual({ handled: true, userId: "user_1", status: "active" });
+
+    const subscription = await billing.getSubscription("user_1");
+    expect(subscription).toMatchObject({
+      plan: "pro",
+      status: "active",
+      stripeCustomerId: "cus_TFa9bQk2Lx0mZp",
+      stripeSubscriptionId: "sub_1SJ4kn2eZvKYlo2C8hJm3xQ1",
+      stripePriceId: "price_1SJ4hB2eZvKYlo2CmPro0001",
+      cancelAtPeriodEnd: false,
+      currentPeriodEnd: new Date(1763544000 * 1000),
+      lastStripeEventAt: new Date(created.created * 1000),
+    });
+    expect(await billing.getPlan("user_1")).toBe("pro");
+  });
+
+  it("applies customer.subscription.updated", async () => {
+    await deliver(service, created);
+    await deliver(service, updated);
+
+    expect(await billing.getSubscription("user_1")).toMatchObject({ status: "active", cancelAtPeriodEnd: true });
+  });
+
+  it("cancels on customer.subscription.deleted", async () => {
+    await deliver(service, created);
+    await expect(deliver(service, deleted)).resolves.toEqual({ handled: true, userId: "user_1", status: "canceled" });
+
+    expect(await billing.getSubscription("user_1")).toMatchObject({ status: "canceled" });
+    expect(await billing.getPlan("user_1")).toBe("free");
+  });
+
+  it("marks the subscription past due on invoice.payment_failed", async () => {
+    await deliver(service, created);
+    await expect(deliver(service, paymentFailed)).resolves.toEqual({ handled: true, userId: "user_1", status: "past_due" });
+
+    expect(await billing.getSubscription("user_1")).toMatchObject({ status: "past_due" });
+  });
+
+  it("ignores events older than the last one applied", async () => {
+    await deliver(service, created);
+    await deliver(service, deleted);
+
+    // Delivered after the deletion although they happened before it
+    await expect(deliver(service, updated)).resolves.toMatchObject({ handled: false, reason: expect.stringContaining("older") });
+    await expect(deliver(service, paymentFailed)).resolves.toMatchObject({ handled: false });
+
+    expect(await billing.getSubscription("user_1")).toMatchObject({
+      status: "canceled",
+      lastStripeEventAt: new Date(deleted.created * 1000),
+    });
+  });
+
+  it("does not let a late customer.subscription.created undo later changes", async () => {
+    await deliver(service, updated);
+    await expect(deliver(service, created)).resolves.toMatchObject({ handled: false });
+
+    expect(await billing.getSubscription("user_1")).toMatchObject({ cancelAtPeriodEnd: true });
+  });
+
+  it("does not match another subscription of the same customer", async () => {
+    await deliver(service, created);
+    const other = structuredClone(updated);
+    other.data.object.id = "sub_1SJ9zz2eZvKYlo2COld00000";
+    other.data.object.metadata = {} as typeof other.data.object.metadata;
+
+    await expect(deliver(service, other)).resolves.toMatchObject({ handled: false });
+    expect(await billing.getSubscription("user_1")).toMatchObject({
+      stripeSubscriptionId: "sub_1SJ4kn2eZvKYlo2C8hJm3xQ1",
+      cancelAtPeriodEnd: false,
+    });
+  });
+
+  it("ignores a payment failure for a subscription it does not know", async () => {
+    await expect(deliver(service, paymentFailed)).resolves.toMatchObject({ handled: false });
+    expect(await billing.getSubscription("user_1")).toBeNull();
+  });
+});
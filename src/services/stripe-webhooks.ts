@@ -0,0 +1,151 @@
+import { eq } from "drizzle-orm";
+import { DbClient } from "../db/client";
+import * as schema from "../db/schema";
+import { StripeEvent, StripeInvoice, StripeSubscription } from "../lib/stripe";
+import { BillingService, Plan, PLAN_LIMITS } from "./billing";
+
+export type StripeEventResult = { handled: true; userId: string; status: string } | { handled: false; reason: string };
+
+// Events created (in whole seconds) before the last one applied to the row are stale
+function isStale(row: { lastStripeEventAt: Date | null } | null, event: StripeEvent) {
+  return !!row?.lastStripeEventAt && row.lastStripeEventAt.getTime() > event.created * 1000;
+}
+
+export class StripeWebhookService {
+  constructor(
+    private db: DbClient,
+    private billing: BillingService,
+  ) {}
+
+  /**
+   * Applies a verified Stripe event to the subscription table.
+   * Unsupported event types, events for unknown users and events older than the last one
+   * applied (Stripe does not guarantee delivery order) are acknowledged but ignored.
+   */
+  async handleEvent(event: StripeEvent): Promise<StripeEventResult> {
+    switch (event.type) {
+      case "customer.subscription.created":
+      case "customer.subscription.updated":
+      case "customer.subscription.paused":
+      case "customer.subscription.resumed":
+      case "customer.subscription.trial_will_end":
+      case "customer.subscription.pending_update_applied":
+      case "customer.subscription.pending_update_expired":
+        return this.syncSubscription(event, event.data.object as StripeSubscription);
+      case "customer.subscription.deleted":
+        return this.syncSubscription(event, { ...(event.data.object as StripeSubscription), status: "canceled" });
+      case "invoice.payment_failed":
+        return this.markPaymentFailed(event, event.data.object as StripeInvoice);
+      default:
+        return { handled: false, reason: `Ignored event type ${event.type}` };
+    }
+  }
+
+  private async syncSubscription(event: StripeEvent, stripeSubscription: StripeSubscription): Promise<StripeEventResult> {
+    const isCreation = event.type === "customer.subscription.created";
+    let existing = await this.findSubscription(stripeSubscription.id);
+    if (!existing && isCreation) {
+      // A new subscription replaces the row of the customer's previous one
+      existing = await this.findSubscriptionByCustomer(stripeSubscription.customer);
+    }
+
+    const userId = existing?.userId ?? (await this.findUserId(stripeSubscription.metadata));
+    if (!userId) {
+      return { handled: false, reason: `No user found for Stripe customer ${stripeSubscription.customer}` };
+    }
+
+    const current = existing ?? (await this.billing.getSubscription(userId));
+    const replacing = !!current?.stripeSubscriptionId && current.stripeSubscriptionId !== stripeSubscription.id;
+    if (replacing && !isCreation) {
+      return {
+        handled: false,
+        reason: `Stripe subscription ${stripeSubscription.id} has been replaced by ${current!.stripeSubscriptionId}`,
+      };
+    }
+    // The events of the subscription being replaced say nothing about the order of this one's
+    if (!replacing && isStale(current, event)) {
+      return { handled: false, reason: `Ignored ${event.type} ${event.id}: older than the last event applied` };
+    }
+
+    const item = stripeSubscription.items?.data?.[0];
+    const periodStart = stripeSubscription.current_period_start ?? item?.current_period_start;
+    const periodEnd = stripeSubscription.current_period_end ?? item?.current_period_end;
+    const fields = {
+      plan: this.resolvePlan(stripeSubscription),
+      status: stripeSubscription.status,
+      stripeCustomerId: stripeSubscription.customer,
+      stripeSubscriptionId: stripeSubscription.id,
+      stripePriceId: item?.price?.id,
+      currentPeriodStart: periodStart ? new Date(periodStart * 1000) : undefined,
+      currentPeriodEnd: periodEnd ? new Date(periodEnd * 1000) : undefined,
+      cancelAtPeriodEnd: stripeSubscription.cancel_at_period_end,
+      lastStripeEventAt: new Date(event.created * 1000),
+    };
+
+    if (current) {
+      await this.billing.updateSubscription(userId, fields);
+    } else {
+      await this.billing.createSubscription({ userId, ...fields });
+    }
+
+    return { handled: true, userId, status: stripeSubscription.status };
+  }
+
+  private async markPaymentFailed(event: StripeEvent, invoice: StripeInvoice): Promise<StripeEventResult> {
+    const subscriptionId = invoice.subscription ?? invoice.parent?.subscription_details?.subscription ?? null;
+    const existing = subscriptionId ? await this.findSubscription(subscriptionId) : null;
+    if (!existing) {
+      return { handled: false, reason: `No subscription found for invoice ${invoice.id}` };
+    }
+    if (isStale(existing, event)) {
+      return { handled: false, reason: `Ignored ${event.type} ${event.id}: older than the last event applied` };
+    }
+
+    await this.billing.updateSubscription(existing.userId, { status: "past_due", lastStripeEventAt: new Date(event.created * 1000) });
+    return { handled: true, userId: existing.userId, status: "past_due" };
+  }
+
+  private async findSubscription(stripeSubscriptionId: string) {
+    const result = await this.db
+      .select()
+      .from(schema.subscription)
+      .where(eq(schema.subscription.stripeSubscriptionId, stripeSubscriptionId))
+      .limit(1);
+    return result[0] || null;
+  }
+
+  private async findSubscriptionByCustomer(stripeCustomerId: string) {
+    const result = await this.db
+      .select()
+      .from(schema.subscription)
+      .where(eq(schema.subscription.stripeCustomerId, stripeCustomerId))
+      .limit(1);
+    return result[0] || null;
+  }
+
+  // Checkout sessions set `userId` (or `email`) in the subscription metadata for first-time customers
+  private async findUserId(metadata?: Record<string, string>) {
+    if (metadata?.userId) {
+      const user = await this.db.query.user.findFirst({ where: eq(schema.user.id, metadata.userId) });
+      if (user) return user.id;
+    }
+    if (metadata?.email) {
+      const user = await this.db.query.user.findFirst({ where: eq(schema.user.email, metadata.email) });
+      if (user) return user.id;
+    }
+    return null;
+  }
+
+  // The plan comes from `metadata.plan` on the subscription or price, or the price's lookup key
+  private resolvePlan(stripeSubscription: StripeSubscription): Plan {
+    const price = stripeSubscription.items?.data?.[0]?.price;
+    const candidates = [stripeSubscription.metadata?.plan, price?.metadata?.plan, price?.lookup_key];
+
+    const plan = candidates.find((candidate) => candidate && candidate in PLAN_LIMITS);
+    if (!plan) {
+      console.warn(`Stripe subscription ${stripeSubscription.id} has no recognised plan, defaulting to free`);
+      return "free";
+    }
+    return plan as Plan;
+  }
+}
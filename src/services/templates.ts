@@ -0,0 +1,145 @@
+import { and, asc, eq } from "drizzle-orm";
+import { DbClient } from "../db/client";
+import { emailTemplate } from "../db/schema";
+import { escapeHtml } from "../tools/gmail/mime";
+
+type EmailTemplateRow = typeof emailTemplate.$inferSelect;
+
+// {{name}}, with optional spaces inside the braces: {{ customer.firstName }}
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][\w.]*)\s*\}\}/g;
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TemplateError";
+  }
+}
+
+/**
+ * Variable names used in the given template texts, in order of first appearance
+ */
+export function extractVariables(...texts: (string | null | undefined)[]): string[] {
+  const names = new Set<string>();
+  for (const text of texts) {
+    for (const match of (text || "").matchAll(VARIABLE_PATTERN)) names.add(match[1]);
+  }
+  return [...names];
+}
+
+/**
+ * Substitutes every {{variable}} in the template. Values are HTML-escaped in htmlBody.
+ * Throws TemplateError naming the variables that were not provided.
+ */
+export function renderTemplate(template: Pick<EmailTemplateRow, "subject" | "body" | "htmlBody">, variables: Record<string, string>) {
+  const missing = extractVariables(template.subject, template.body, template.htmlBody).filter(
+    (name) => !Object.prototype.hasOwnProperty.call(variables, name),
+  );
+  if (missing.length) {
+    throw new TemplateError(`Missing template variables: ${missing.join(", ")}`);
+  }
+
+  const render = (text: string, escape: (value: string) => string = (value) => value) =>
+    text.replace(VARIABLE_PATTERN, (_, name: string) => escape(variables[name]));
+
+  return {
+    subject: render(template.subject),
+    body: render(template.body),
+    htmlBody: template.htmlBody ? render(template.htmlBody, escapeHtml) : undefined,
+  };
+}
+
+function toTemplateOutput(row: EmailTemplateRow) {
+  return {
+    id: row.id,
+    name: row.name,
+    subject: row.subject,
+    body: row.body,
+    htmlBody: row.htmlBody,
+    variables: extractVariables(row.subject, row.body, row.htmlBody),
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
+
+export class TemplateService {
+  constructor(private db: DbClient) {}
+
+  async listTemplates(userId: string) {
+    const rows = await this.db.select().from(emailTemplate).where(eq(emailTemplate.userId, userId)).orderBy(asc(emailTemplate.name));
+    return rows.map(toTemplateOutput);
+  }
+
+  async getTemplate(userId: string, templateId: string) {
+    const row = await this.findRow(userId, templateId);
+    return row ? toTemplateOutput(row) : null;
+  }
+
+  async createTemplate(userId: string, fields: { name: string; subject: string; body: string; htmlBody?: string }) {
+    await this.assertNameAvailable(userId, fields.name);
+
+    const id = crypto.randomUUID();
+    await this.db.insert(emailTemplate).values({
+      id,
+      userId,
+      name: fields.name,
+      subject: fields.subject,
+      body: fields.body,
+      htmlBody: fields.htmlBody || null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+
+    return (await this.getTemplate(userId, id))!;
+  }
+
+  /**
+   * Applies the given fields; htmlBody: null removes the HTML version. Returns null when
+   * the template does not exist.
+   */
+  async updateTemplate(
+    userId: string,
+    templateId: string,
+    updates: { name?: string; subject?: string; body?: string; htmlBody?: string | null },
+  ) {
+    const row = await this.findRow(userId, templateId);
+    if (!row) return null;
+    if (updates.name !== undefined && updates.name !== row.name) {
+      await this.assertNameAvailable(userId, updates.name);
+    }
+
+    await this.db
+      .update(emailTemplate)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(emailTemplate.id, row.id));
+
+    return this.getTemplate(userId, templateId);
+  }
+
+  async deleteTemplate(userId: string, templateId: string) {
+    const row = await this.findRow(userId, templateId);
+    if (!row) return false;
+
+    await this.db.delete(emailTemplate).where(eq(emailTemplate.id, row.id));
+    return true;
+  }
+
+  private async findRow(userId: string, templateId: string) {
+    const result = await this.db
+      .select()
+      .from(emailTemplate)
+      .where(and(eq(emailTemplate.userId, userId), eq(emailTemplate.id, templateId)))
+      .limit(1);
+    return result[0] ?? null;
+  }
+
+  private async assertNameAvailable(userId: string, name: string) {
+    const result = await this.db
+      .select({ id: emailTemplate.id })
+      .from(emailTemplate)
+      .where(and(eq(emailTemplate.userId, userId), eq(emailTemplate.name, name)))
+      .limit(1);
+    if (result.length) {
+      throw new TemplateError(`A template named "${name}" already exists`);
+    }
+  }
+}
@@ -0,0 +1,21 @@
+// Workers allow six simultaneous outgoing connections per request; more are queued by the runtime
+export const DEFAULT_CONCURRENCY = 5;
+
+/**
+ * Like `Promise.all(items.map(fn))`, but with at most `limit` calls in flight at once.
+ * Results keep the order of `items`; the first rejection rejects the whole call.
+ */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
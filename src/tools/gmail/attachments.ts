@@ -0,0 +1,194 @@
+import { z } from "zod";
+import { gmail_v1 } from "googleapis";
+import type { LinkedContexts } from "../../providers/types";
+import type { DriveContext } from "../google-drive/context";
+import { GmailContext } from "./context";
+import { AttachmentSchema } from "./schemas";
+import { MimeAttachment } from "./mime";
+import { UpstreamError } from "../result";
+import { fetchPublicUrl } from "../public-url";
+
+// Gmail rejects messages over 25 MB once encoded, and base64 grows content by a third
+export const MAX_ATTACHMENT_BYTES = 18 * 1024 * 1024;
+
+const DEFAULT_MIME_TYPE = "application/octet-stream";
+// Native Google Docs, Sheets, Slides and Drawings have no bytes of their own and are exported
+const GOOGLE_APPS_PREFIX = "application/vnd.google-apps.";
+const GOOGLE_APPS_EXPORT_TYPE = "application/pdf";
+
+type AttachmentInput = z.infer<typeof AttachmentSchema>;
+
+function describeSource(attachment: AttachmentInput) {
+  const sources = [
+    attachment.content !== undefined && "content",
+    attachment.driveFileId && "driveFileId",
+    (attachment.messageId || attachment.attachmentId) && "messageId/attachmentId",
+    attachment.url && "url",
+  ].filter(Boolean);
+
+  if (sources.length !== 1) {
+    const name = attachment.filename ? `Attachment "${attachment.filename}"` : "Attachment";
+    throw new Error(`${name} must set exactly one of content, driveFileId, messageId + attachmentId or url (got ${sources.length})`);
+  }
+  return sources[0];
+}
+
+function attachmentParts(part: gmail_v1.Schema$MessagePart | undefined): gmail_v1.Schema$MessagePart[] {
+  if (!part) return [];
+  return [...(part.body?.attachmentId ? [part] : []), ...(part.parts || []).flatMap(attachmentParts)];
+}
+
+/**
+ * Finds the part an attachment was downloaded from. Gmail issues new attachment ids on every
+ * fetch, so the id rarely matches; the part id does, and otherwise the size identifies the
+ * part when no other attachment has the same size.
+ */
+function findAttachmentPart(
+  payload: gmail_v1.Schema$MessagePart | undefined,
+  match: { attachmentId: string; partId?: string; size: number },
+): gmail_v1.Schema$MessagePart | null {
+  const parts = attachmentParts(payload);
+  const byId = parts.find((part) => (match.partId ? part.partId === match.partId : part.body?.attachmentId === match.attachmentId));
+  if (byId) return byId;
+
+  const bySize = parts.filter((part) => part.body?.size === match.size);
+  return bySize.length === 1 ? bySize[0] : null;
+}
+
+/**
+ * Downloads an attachment of an existing message, with its filename and type when they can be found
+ */
+export async function fetchGmailAttachment({ gmail }: GmailContext, messageId: string, attachmentId: string, partId?: string) {
+  const [message, attachment] = await Promise.all([
+    gmail.users.messages.get({ userId: "me", id: messageId, format: "full" }),
+    gmail.users.messages.attachments.get({ userId: "me", messageId, id: attachmentId }),
+  ]);
+
+  // When the part cannot be identified, the caller's filename and type apply
+  const content = Buffer.from(attachment.data.data || "", "base64");
+  const part = findAttachmentPart(message.data.payload, { attachmentId, partId, size: content.length });
+  return {
+    filename: part?.filename || undefined,
+    mimeType: part?.mimeType || undefined,
+    content,
+  };
+}
+
+async function fromDrive({ drive }: DriveContext, fileId: string) {
+  const { data: file } = await drive.files.get({ fileId, fields: "name, mimeType, size" });
+  const mimeType = file.mimeType || DEFAULT_MIME_TYPE;
+
+  if (mimeType === "application/vnd.google-apps.folder") {
+    throw new Error(`Drive item ${fileId} is a folder and cannot be attached`);
+  }
+  if (mimeType.startsWith(GOOGLE_APPS_PREFIX)) {
+    const { data } = await drive.files.export({ fileId, mimeType: GOOGLE_APPS_EXPORT_TYPE }, { responseType: "arraybuffer" });
+    return {
+      filename: `${file.name || fileId}.pdf`,
+      mimeType: GOOGLE_APPS_EXPORT_TYPE,
+      content: Buffer.from(data as ArrayBuffer),
+    };
+  }
+
+  if (Number(file.size) > MAX_ATTACHMENT_BYTES) {
+    throw new Error(`Drive file "${file.name}" is larger than ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB`);
+  }
+  const { data } = await drive.files.get({ fileId, alt: "media" }, { responseType: "arraybuffer" });
+  return { filename: file.name || undefined, mimeType, content: Buffer.from(data as ArrayBuffer) };
+}
+
+// Percent-decodes a filename, keeping it as sent when it is not valid percent-encoding
+function decodeFilename(name: string) {
+  try {
+    return decodeURIComponent(name);
+  } catch {
+    return name;
+  }
+}
+
+/**
+ * Reads the body, giving up as soon as it passes MAX_ATTACHMENT_BYTES rather than trusting
+ * content-length, which servers may omit or get wrong
+ */
+async function readLimited(response: Response, url: URL) {
+  const tooLarge = () => new Error(`${url} is larger than ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB`);
+  if (Number(response.headers.get("content-length")) > MAX_ATTACHMENT_BYTES) throw tooLarge();
+  if (!response.body) return Buffer.alloc(0);
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > MAX_ATTACHMENT_BYTES) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+async function fromUrl(url: string) {
+  const { response, url: target } = await fetchPublicUrl(url, {}, "Attachment URL");
+
+  if (!response.ok) {
+    throw new UpstreamError(`Downloading ${url} failed with status ${response.status}`, response.status);
+  }
+  const content = await readLimited(response, target);
+
+  const disposition = response.headers.get("content-disposition") || "";
+  const dispositionName = /filename\*=UTF-8''([^;]+)/i.exec(disposition)?.[1] ?? /filename="?([^";]+)"?/i.exec(disposition)?.[1];
+  return {
+    filename: decodeFilename(dispositionName ?? target.pathname.split("/").pop() ?? "") || undefined,
+    mimeType: response.headers.get("content-type")?.split(";")[0].trim() || undefined,
+    content,
+  };
+}
+
+/**
+ * Downloads every requested attachment from its source. Drive files go through the
+ * user's Drive integration, which must be connected.
+ */
+export async function resolveAttachments(
+  ctx: GmailContext,
+  linked: LinkedContexts,
+  attachments: AttachmentInput[] = [],
+): Promise<MimeAttachment[]> {
+  const resolved: MimeAttachment[] = [];
+  let totalBytes = 0;
+
+  for (const attachment of attachments) {
+    const source = describeSource(attachment);
+    let fetched: { filename?: string; mimeType?: string; content: Buffer };
+
+    if (source === "content") {
+      if (!attachment.filename) throw new Error("filename is required for base64 attachment content");
+      fetched = { content: Buffer.from(attachment.content!, "base64") };
+    } else if (source === "driveFileId") {
+      fetched = await fromDrive(await linked.get<DriveContext>("drive"), attachment.driveFileId!);
+    } else if (source === "url") {
+      fetched = await fromUrl(attachment.url!);
+    } else {
+      if (!attachment.messageId || !attachment.attachmentId) {
+        throw new Error("messageId and attachmentId must be used together");
+      }
+      fetched = await fetchGmailAttachment(ctx, attachment.messageId, attachment.attachmentId);
+    }
+
+    totalBytes += fetched.content.length;
+    if (totalBytes > MAX_ATTACHMENT_BYTES) {
+      throw new Error(`Attachments exceed the ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB limit`);
+    }
+
+    resolved.push({
+      filename: attachment.filename || fetched.filename || "attachment",
+      mimeType: attachment.mimeType || fetched.mimeType || DEFAULT_MIME_TYPE,
+      content: fetched.content,
+    });
+  }
+
+  return resolved;
+}
@@ -1,85 +1,180 @@
 import { z } from "zod";
-import { GmailTool } from "./types";
-import { BatchModifyEmailsSchema, BatchDeleteEmailsSchema } from "./schemas";
+import { gmail_v1 } from "googleapis";
+import { GmailPreview, GmailTool } from "./types";
+import { BatchModifyEmailsSchema, BatchDeleteEmailsSchema, BatchTrashEmailsSchema } from "./schemas";
+import { describeMessage } from "./delete-email";
+import { errorResult, structuredResult } from "../result";
 
-async function processBatches<T>(
-  items: T[],
+// Messages described individually in a batch delete preview; the rest are only counted
+const PREVIEW_SAMPLE_SIZE = 20;
+// messages.list page size when expanding a query (the API maximum)
+const LIST_PAGE_SIZE = 500;
+// Most messages a query may match, keeping a batch within the Worker's subrequest and time limits
+const MAX_QUERY_MATCHES = 5000;
+// Rate-limited calls are retried with exponential backoff: 1s, 2s, 4s, 8s, 16s
+const MAX_RETRIES = 5;
+const BASE_RETRY_DELAY_MS = 1000;
+// Longest wait between retries, whatever Retry-After asks for
+const MAX_RETRY_DELAY_MS = 30_000;
+
+function isRateLimited(err: any) {
+  const status = err?.response?.status ?? err?.status;
+  const reason = err?.errors?.[0]?.reason;
+  return status === 429 || (status === 403 && (reason === "rateLimitExceeded" || reason === "userRateLimitExceeded"));
+}
+
+async function withBackoff<T>(fn: () => Promise<T>): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (err: any) {
+      if (!isRateLimited(err) || attempt >= MAX_RETRIES) throw err;
+
+      const retryAfter = Number(err?.response?.headers?.["retry-after"]);
+      const delay = retryAfter > 0 ? retryAfter * 1000 : BASE_RETRY_DELAY_MS * 2 ** attempt + Math.random() * BASE_RETRY_DELAY_MS;
+      await new Promise((resolve) => setTimeout(resolve, Math.min(delay, MAX_RETRY_DELAY_MS)));
+    }
+  }
+}
+
+/**
+ * The ids a batch applies to: the given messageIds, or every message matching the query.
+ * Throws when the query matches more than MAX_QUERY_MATCHES messages.
+ */
+export async function resolveMessageIds(gmail: gmail_v1.Gmail, args: { messageIds?: string[]; query?: string }): Promise<string[]> {
+  if (args.messageIds) return args.messageIds;
+
+  const ids: string[] = [];
+  let pageToken: string | undefined;
+  do {
+    const response = await withBackoff(() =>
+      gmail.users.messages.list({ userId: "me", q: args.query, maxResults: LIST_PAGE_SIZE, pageToken }),
+    );
+    ids.push(...(response.data.messages || []).map((message) => message.id!));
+    pageToken = response.data.nextPageToken || undefined;
+    if (ids.length > MAX_QUERY_MATCHES) {
+      throw new Error(`The query matches more than ${MAX_QUERY_MATCHES} emails; narrow it down or run the batch in parts`);
+    }
+  } while (pageToken);
+
+  return ids;
+}
+
+function validateTarget(args: { messageIds?: string[]; query?: string }) {
+  if (!args.messageIds === !args.query) {
+    return errorResult("Provide either messageIds or query");
+  }
+  return null;
+}
+
+/**
+ * Runs `fn` on chunks of up to `batchSize` ids. A chunk that still fails after the
+ * rate-limit retries is reported as failed as a whole.
+ */
+async function processBatches(
+  ids: string[],
   batchSize: number,
-  fn: (batch: T[]) => Promise<void>,
-): Promise<{ success: number; failed: { item: T; error: string }[] }> {
-  const failed: { item: T; error: string }[] = [];
-  let success = 0;
+  fn: (batch: string[]) => Promise<unknown>,
+): Promise<{ succeeded: number; failed: { id: string; error: string }[] }> {
+  const failed: { id: string; error: string }[] = [];
+  let succeeded = 0;
 
-  for (let i = 0; i < items.length; i += batchSize) {
-    const batch = items.slice(i, i + batchSize);
+  for (let i = 0; i < ids.length; i += batchSize) {
+    const batch = ids.slice(i, i + batchSize);
     try {
-      await fn(batch);
-      success += batch.length;
+      await withBackoff(() => fn(batch));
+      succeeded += batch.length;
     } catch (err: any) {
-      for (const item of batch) {
-        try {
-          await fn([item]);
-          success++;
-        } catch (e: any) {
-          failed.push({ item, error: e.message });
-        }
-      }
+      failed.push(...batch.map((id) => ({ id, error: err.message as string })));
     }
   }
 
-  return { success, failed };
+  return { succeeded, failed };
+}
+
+function describeResult(action: string, result: { matched?: number; succeeded: number; failed: { id: string; error: string }[] }) {
+  let text = `Batch ${action} complete.\n`;
+  if (result.matched !== undefined) text += `Matched: ${result.matched} emails\n`;
+  text += `Successfully processed: ${result.succeeded} emails\n`;
+  if (result.failed.length) {
+    text += `Failed: ${result.failed.length} emails\n\nFailed IDs:\n${result.failed
+      .map((f) => `- ${f.id.slice(0, 12)}... (${f.error})`)
+      .join("\n")}`;
+  }
+  return text;
 }
 
 export const batchModifyEmails: GmailTool<z.infer<typeof BatchModifyEmailsSchema>> = async ({ gmail }, args) => {
-  const { messageIds, addLabelIds, removeLabelIds, batchSize } = args;
-  const body: any = {};
+  const invalid = validateTarget(args);
+  if (invalid) return invalid;
+
+  const { addLabelIds, removeLabelIds, batchSize } = args;
+  const body: gmail_v1.Schema$BatchModifyMessagesRequest = {};
   if (addLabelIds?.length) body.addLabelIds = addLabelIds;
   if (removeLabelIds?.length) body.removeLabelIds = removeLabelIds;
 
   if (Object.keys(body).length === 0) {
-    return { content: [{ type: "text", text: "No label changes specified" }] };
+    return errorResult("No label changes specified");
   }
 
-  const { success, failed } = await processBatches(messageIds, batchSize, async (batch) => {
-    await Promise.all(
-      batch.map((id) =>
-        gmail.users.messages.modify({
-          userId: "me",
-          id,
-          requestBody: body,
-        }),
-      ),
-    );
-  });
+  const ids = await resolveMessageIds(gmail, args);
+  const { succeeded, failed } = await processBatches(ids, batchSize, (batch) =>
+    gmail.users.messages.batchModify({ userId: "me", requestBody: { ...body, ids: batch } }),
+  );
 
-  let text = `Batch label update complete.\nSuccessfully processed: ${success} emails\n`;
-  if (failed.length) {
-    text += `Failed: ${failed.length} emails\n\nFailed IDs:\n${failed
-      .map((f) => `- ${String(f.item).slice(0, 12)}... (${f.error})`)
-      .join("\n")}`;
-  }
+  const result = { ...(args.query !== undefined && { matched: ids.length }), succeeded, failed };
+  return structuredResult(result, describeResult("label update", result));
+};
+
+export const batchTrashEmails: GmailTool<z.infer<typeof BatchTrashEmailsSchema>> = async ({ gmail }, args) => {
+  const invalid = validateTarget(args);
+  if (invalid) return invalid;
+
+  // There is no batch trash endpoint; applying the TRASH label is what messages.trash does
+  const ids = await resolveMessageIds(gmail, args);
+  const { succeeded, failed } = await processBatches(ids, args.batchSize, (batch) =>
+    gmail.users.messages.batchModify({ userId: "me", requestBody: { ids: batch, addLabelIds: ["TRASH"] } }),
+  );
 
-  return { content: [{ type: "text", text }] };
+  const result = { ...(args.query !== undefined && { matched: ids.length }), succeeded, failed };
+  return structuredResult(result, describeResult("trash", result));
 };
 
-export const batchDeleteEmails: GmailTool<z.infer<typeof BatchDeleteEmailsSchema>> = async ({ gmail }, { messageIds, batchSize }) => {
-  const { success, failed } = await processBatches(messageIds, batchSize, async (batch) => {
-    await Promise.all(
-      batch.map((id) =>
-        gmail.users.messages.delete({
-          userId: "me",
-          id,
-        }),
-      ),
-    );
-  });
+export const batchDeleteEmails: GmailTool<z.infer<typeof BatchDeleteEmailsSchema>> = async (ctx, args, linked) => {
+  if (!args.permanent) return batchTrashEmails(ctx, args, linked);
 
-  let text = `Batch delete complete.\nSuccessfully deleted: ${success} emails\n`;
-  if (failed.length) {
-    text += `Failed: ${failed.length} emails\n\nFailed IDs:\n${failed
-      .map((f) => `- ${String(f.item).slice(0, 12)}... (${f.error})`)
-      .join("\n")}`;
+  const { gmail } = ctx;
+  const invalid = validateTarget(args);
+  if (invalid) return invalid;
+
+  const ids = await resolveMessageIds(gmail, args);
+  const { succeeded, failed } = await processBatches(ids, args.batchSize, (batch) =>
+    gmail.users.messages.batchDelete({ userId: "me", requestBody: { ids: batch } }),
+  );
+
+  const result = { ...(args.query !== undefined && { matched: ids.length }), succeeded, failed };
+  return structuredResult(result, describeResult("delete", result));
+};
+
+export const previewBatchDeleteEmails: GmailPreview<z.infer<typeof BatchDeleteEmailsSchema>> = async ({ gmail }, args) => {
+  if (!args.messageIds === !args.query) {
+    throw new Error("Provide either messageIds or query");
   }
 
-  return { content: [{ type: "text", text }] };
+  // A query is resolved now so the confirmed call deletes exactly these messages, not whatever matches by then
+  const ids = await resolveMessageIds(gmail, args);
+  const sample = ids.slice(0, PREVIEW_SAMPLE_SIZE);
+  const total = ids.length;
+
+  const items = await Promise.all(
+    sample.map((id) => describeMessage(gmail, id).catch((err: any) => ({ id, error: err.message as string }))),
+  );
+
+  const action = args.permanent ? "Permanently delete" : "Move to trash";
+  let summary = args.query ? `${action} ${total} emails matching "${args.query}"` : `${action} ${total} emails`;
+  if (total > sample.length) {
+    summary += ` (showing the first ${sample.length})`;
+  }
+  const { query, ...rest } = args;
+  return { summary, items, ...(query !== undefined && { confirmedArgs: { ...rest, messageIds: ids } }) };
 };
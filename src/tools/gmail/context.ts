@@ -2,6 +2,9 @@
 import { google, gmail_v1 } from "googleapis";
 import { OAuth2Client } from "google-auth-library";
 
+// Needed only to delete messages permanently; gmail.modify covers everything else
+export const GMAIL_FULL_ACCESS_SCOPE = "https://mail.google.com/";
+
 export interface GmailContext {
   gmail: gmail_v1.Gmail;
 }
@@ -1,19 +1,55 @@
 import { z } from "zod";
-import { GmailTool } from "./types";
-import { DeleteEmailSchema } from "./schemas";
+import { gmail_v1 } from "googleapis";
+import { GmailPreview, GmailTool } from "./types";
+import { DeleteEmailSchema, TrashEmailSchema, UntrashEmailSchema } from "./schemas";
+import { structuredResult } from "../result";
 
-export const deleteEmail: GmailTool<z.infer<typeof DeleteEmailSchema>> = async ({ gmail }, { messageId }) => {
-  await gmail.users.messages.delete({
+/**
+ * Subject, sender and date of a message, used to describe what a destructive action affects
+ */
+export async function describeMessage(gmail: gmail_v1.Gmail, messageId: string) {
+  const res = await gmail.users.messages.get({
     userId: "me",
     id: messageId,
+    format: "metadata",
+    metadataHeaders: ["Subject", "From", "Date"],
   });
+  const headers = res.data.payload?.headers || [];
+  const header = (name: string) => headers.find((h) => h.name === name)?.value || "";
 
   return {
-    content: [
-      {
-        type: "text" as const,
-        text: `Email ${messageId} deleted successfully`,
-      },
-    ],
+    id: messageId,
+    subject: header("Subject"),
+    from: header("From"),
+    date: header("Date"),
   };
+}
+
+export const previewDeleteEmail: GmailPreview<z.infer<typeof DeleteEmailSchema>> = async ({ gmail }, { messageId, permanent }) => ({
+  summary: permanent ? "Permanently delete 1 email" : "Move 1 email to trash",
+  items: [await describeMessage(gmail, messageId)],
+});
+
+export const deleteEmail: GmailTool<z.infer<typeof DeleteEmailSchema>> = async ({ gmail }, { messageId, permanent }) => {
+  if (!permanent) {
+    await gmail.users.messages.trash({ userId: "me", id: messageId });
+    return structuredResult({ messageId, deleted: true, permanent: false }, `Email ${messageId} moved to trash`);
+  }
+
+  await gmail.users.messages.delete({
+    userId: "me",
+    id: messageId,
+  });
+
+  return structuredResult({ messageId, deleted: true, permanent: true }, `Email ${messageId} permanently deleted`);
+};
+
+export const trashEmail: GmailTool<z.infer<typeof TrashEmailSchema>> = async ({ gmail }, { messageId }) => {
+  const response = await gmail.users.messages.trash({ userId: "me", id: messageId });
+  return structuredResult({ messageId, labelIds: response.data.labelIds || [] }, `Email ${messageId} moved to trash`);
+};
+
+export const untrashEmail: GmailTool<z.infer<typeof UntrashEmailSchema>> = async ({ gmail }, { messageId }) => {
+  const response = await gmail.users.messages.untrash({ userId: "me", id: messageId });
+  return structuredResult({ messageId, labelIds: response.data.labelIds || [] }, `Email ${messageId} restored from trash`);
 };
@@ -1,13 +1,18 @@
 import { z } from "zod";
 import { GmailTool } from "./types";
-import { createEmailMessage, SendEmailSchema } from "./schemas";
-
-export const draftEmail: GmailTool<z.infer<typeof SendEmailSchema>> = async ({ gmail }, args) => {
-  const message = createEmailMessage(args);
-  const encodedMessage = Buffer.from(message).toString("base64").replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+import { structuredResult } from "../result";
+import { SendEmailSchema } from "./schemas";
+import { resolveAttachments } from "./attachments";
+import { resolveFromAlias } from "./settings";
+import { encodeRawMessage } from "./mime";
+import { composeEmail } from "./send-email";
 
+export const draftEmail: GmailTool<z.infer<typeof SendEmailSchema>> = async (ctx, args, linked) => {
+  const { gmail } = ctx;
+  const from = args.from ? await resolveFromAlias(gmail, args.from) : undefined;
+  const attachments = await resolveAttachments(ctx, linked, args.attachments);
   const messageRequest = {
-    raw: encodedMessage,
+    raw: encodeRawMessage(composeEmail(args, attachments, from)),
     ...(args.threadId && { threadId: args.threadId }),
   };
 
@@ -18,12 +23,9 @@ export const draftEmail: GmailTool<z.infer<typeof SendEmailSchema>> = async ({ g
     },
   });
 
-  return {
-    content: [
-      {
-        type: "text" as const,
-        text: JSON.stringify(response.data),
-      },
-    ],
-  };
+  return structuredResult({
+    draftId: response.data.id || "",
+    messageId: response.data.message?.id || "",
+    threadId: response.data.message?.threadId || "",
+  });
 };
@@ -0,0 +1,154 @@
+import { z } from "zod";
+import { gmail_v1 } from "googleapis";
+import { GmailPreview, GmailTool } from "./types";
+import { structuredResult } from "../result";
+import { paginate } from "../pagination";
+import { DEFAULT_CONCURRENCY, mapWithConcurrency } from "../concurrency";
+import { DeleteDraftSchema, GetDraftSchema, ListDraftsSchema, SendDraftSchema, UpdateDraftSchema } from "./schemas";
+import { parseMessage } from "./read-email";
+import { resolveAttachments } from "./attachments";
+import { encodeRawMessage, parseAddressList } from "./mime";
+import { composeEmail } from "./send-email";
+import { resolveFromAlias } from "./settings";
+
+async function fetchDraft(gmail: gmail_v1.Gmail, draftId: string) {
+  const response = await gmail.users.drafts.get({ userId: "me", id: draftId, format: "full" });
+  return parseMessage(response.data.message || {});
+}
+
+export const listDrafts: GmailTool<z.infer<typeof ListDraftsSchema>> = async ({ gmail }, args) => {
+  const { items, nextCursor } = await paginate(args, args.maxResults, async (cursor, limit) => {
+    const response = await gmail.users.drafts.list({
+      userId: "me",
+      q: args.query,
+      maxResults: limit,
+      pageToken: cursor,
+    });
+    return { items: response.data.drafts || [], nextCursor: response.data.nextPageToken };
+  });
+
+  const drafts = await mapWithConcurrency(items, DEFAULT_CONCURRENCY, async (draft) => {
+    const detail = await gmail.users.messages.get({
+      userId: "me",
+      id: draft.message!.id!,
+      format: "metadata",
+      metadataHeaders: ["Subject", "To"],
+    });
+    const headers = detail.data.payload?.headers || [];
+    return {
+      draftId: draft.id!,
+      messageId: draft.message!.id!,
+      threadId: detail.data.threadId || "",
+      subject: headers.find((h) => h.name === "Subject")?.value || "",
+      to: headers.find((h) => h.name === "To")?.value || "",
+      snippet: detail.data.snippet || "",
+    };
+  });
+
+  return structuredResult({ drafts, nextCursor });
+};
+
+export const getDraft: GmailTool<z.infer<typeof GetDraftSchema>> = async ({ gmail }, { draftId }) => {
+  const draft = await fetchDraft(gmail, draftId);
+  const output = {
+    draftId,
+    messageId: draft.id,
+    threadId: draft.threadId,
+    subject: draft.subject,
+    to: draft.to,
+    cc: draft.cc,
+    bcc: draft.bcc,
+    body: draft.body,
+    bodyFormat: draft.bodyFormat,
+    attachments: draft.attachments,
+  };
+
+  const attachmentInfo = draft.attachments.length
+    ? `\n\nAttachments: ${draft.attachments.map((a) => `${a.filename} (ID: ${a.id})`).join(", ")}`
+    : "";
+  return structuredResult(
+    output,
+    `Draft ID: ${draftId}\nTo: ${draft.to}${draft.cc ? `\nCc: ${draft.cc}` : ""}${draft.bcc ? `\nBcc: ${draft.bcc}` : ""}\nSubject: ${draft.subject}\n\n${draft.body}${attachmentInfo}`,
+  );
+};
+
+export const updateDraft: GmailTool<z.infer<typeof UpdateDraftSchema>> = async (ctx, args, linked) => {
+  const { gmail } = ctx;
+  const current = await fetchDraft(gmail, args.draftId);
+  const from = args.from ? await resolveFromAlias(gmail, args.from) : current.from || undefined;
+
+  // A new body replaces both versions; otherwise keep the draft's text and HTML as they are
+  const bodyChanged = args.body !== undefined || args.htmlBody !== undefined;
+  const htmlOnly = !bodyChanged && !current.text && !!current.html;
+
+  const message = composeEmail(
+    {
+      to: args.to ?? parseAddressList(current.to),
+      cc: args.cc ?? parseAddressList(current.cc),
+      bcc: args.bcc ?? parseAddressList(current.bcc),
+      subject: args.subject ?? current.subject,
+      body: bodyChanged ? (args.body ?? "") : htmlOnly ? current.html : current.text,
+      htmlBody: bodyChanged ? args.htmlBody : htmlOnly ? undefined : current.html || undefined,
+      mimeType: bodyChanged ? (args.mimeType ?? "text/plain") : htmlOnly ? "text/html" : "text/plain",
+      inReplyTo: args.inReplyTo ?? (current.inReplyTo || undefined),
+      references: args.references ?? current.references.split(/\s+/).filter(Boolean),
+    },
+    await resolveAttachments(
+      ctx,
+      linked,
+      args.attachments ??
+        current.attachments.map((attachment) => ({
+          messageId: current.id,
+          attachmentId: attachment.id,
+          filename: attachment.filename,
+          mimeType: attachment.mimeType,
+        })),
+    ),
+    from,
+  );
+
+  const response = await gmail.users.drafts.update({
+    userId: "me",
+    id: args.draftId,
+    requestBody: {
+      id: args.draftId,
+      message: { raw: encodeRawMessage(message), threadId: args.threadId ?? (current.threadId || undefined) },
+    },
+  });
+
+  return structuredResult({
+    draftId: response.data.id || args.draftId,
+    messageId: response.data.message?.id || "",
+    threadId: response.data.message?.threadId || "",
+  });
+};
+
+export const sendDraft: GmailTool<z.infer<typeof SendDraftSchema>> = async ({ gmail }, { draftId }) => {
+  const result = await gmail.users.drafts.send({
+    userId: "me",
+    requestBody: { id: draftId },
+  });
+
+  return structuredResult({
+    id: result.data.id || "",
+    threadId: result.data.threadId || "",
+    labelIds: result.data.labelIds || [],
+  });
+};
+
+export const previewDeleteDraft: GmailPreview<z.infer<typeof DeleteDraftSchema>> = async ({ gmail }, { draftId }) => {
+  const draft = await fetchDraft(gmail, draftId);
+  return {
+    summary: "Permanently delete 1 draft",
+    items: [{ draftId, subject: draft.subject, to: draft.to }],
+  };
+};
+
+export const deleteDraft: GmailTool<z.infer<typeof DeleteDraftSchema>> = async ({ gmail }, { draftId }) => {
+  await gmail.users.drafts.delete({
+    userId: "me",
+    id: draftId,
+  });
+
+  return structuredResult({ draftId, deleted: true }, `Draft ${draftId} deleted successfully`);
+};
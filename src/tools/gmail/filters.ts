@@ -0,0 +1,114 @@
+import { z } from "zod";
+import { gmail_v1 } from "googleapis";
+import { GmailPreview, GmailTool } from "./types";
+import { CreateFilterFromSearchSchema, CreateFilterSchema, DeleteFilterSchema, ListFiltersSchema } from "./schemas";
+import { batchModifyEmails, resolveMessageIds } from "./batch";
+import { structuredResult } from "../result";
+
+function toFilterOutput(filter: gmail_v1.Schema$Filter) {
+  const criteria = filter.criteria || {};
+  const action = filter.action || {};
+  // The API returns null for unset fields; drop them so the output matches the input shape
+  const defined = <T extends object>(value: T) =>
+    Object.fromEntries(Object.entries(value).filter(([, v]) => v !== null && v !== undefined)) as {
+      [K in keyof T]: Exclude<T[K], null>;
+    };
+
+  return {
+    id: filter.id || "",
+    criteria: defined({
+      from: criteria.from,
+      to: criteria.to,
+      subject: criteria.subject,
+      query: criteria.query,
+      negatedQuery: criteria.negatedQuery,
+      hasAttachment: criteria.hasAttachment,
+      excludeChats: criteria.excludeChats,
+      size: criteria.size,
+      sizeComparison: criteria.sizeComparison as "larger" | "smaller" | null | undefined,
+    }),
+    action: defined({
+      addLabelIds: action.addLabelIds,
+      removeLabelIds: action.removeLabelIds,
+      forward: action.forward,
+    }),
+  };
+}
+
+function describeFilter(filter: ReturnType<typeof toFilterOutput>) {
+  const criteria = Object.entries(filter.criteria)
+    .map(([key, value]) => `${key}=${value}`)
+    .join(", ");
+  const action = Object.entries(filter.action)
+    .map(([key, value]) => `${key}=${value}`)
+    .join(", ");
+  return `ID: ${filter.id}\nMatches: ${criteria || "(none)"}\nAction: ${action || "(none)"}`;
+}
+
+export const listFilters: GmailTool<z.infer<typeof ListFiltersSchema>> = async ({ gmail }) => {
+  const response = await gmail.users.settings.filters.list({ userId: "me" });
+  const filters = (response.data.filter || []).map(toFilterOutput);
+
+  return structuredResult(
+    { filters },
+    filters.length ? `Found ${filters.length} filters:\n\n${filters.map(describeFilter).join("\n\n")}` : "No filters found.",
+  );
+};
+
+export const createFilter: GmailTool<z.infer<typeof CreateFilterSchema>> = async ({ gmail }, args) => {
+  const response = await gmail.users.settings.filters.create({
+    userId: "me",
+    requestBody: { criteria: args.criteria, action: args.action },
+  });
+
+  const filter = toFilterOutput(response.data);
+  return structuredResult(filter, `Created filter\n${describeFilter(filter)}`);
+};
+
+export const previewDeleteFilter: GmailPreview<z.infer<typeof DeleteFilterSchema>> = async ({ gmail }, { filterId }) => {
+  const response = await gmail.users.settings.filters.get({ userId: "me", id: filterId });
+  const filter = toFilterOutput(response.data);
+  return {
+    summary: "Delete 1 Gmail filter",
+    items: [filter],
+  };
+};
+
+export const deleteFilter: GmailTool<z.infer<typeof DeleteFilterSchema>> = async ({ gmail }, { filterId }) => {
+  await gmail.users.settings.filters.delete({ userId: "me", id: filterId });
+
+  return structuredResult({ filterId, deleted: true }, `Filter ${filterId} deleted successfully`);
+};
+
+export const createFilterFromSearch: GmailTool<z.infer<typeof CreateFilterFromSearchSchema>> = async (ctx, args, linked) => {
+  const { gmail } = ctx;
+
+  // Label changes can be applied to messages already in the mailbox; forwarding cannot.
+  // The matches are listed before the filter is created, so a query too broad to apply
+  // fails without leaving a filter behind.
+  const { addLabelIds, removeLabelIds } = args.action;
+  const applyToExisting = args.applyToExisting && !!(addLabelIds?.length || removeLabelIds?.length);
+  const messageIds = applyToExisting ? await resolveMessageIds(gmail, { query: args.query }) : [];
+
+  const response = await gmail.users.settings.filters.create({
+    userId: "me",
+    requestBody: { criteria: { query: args.query }, action: args.action },
+  });
+  const filter = toFilterOutput(response.data);
+
+  if (!applyToExisting) {
+    return structuredResult({ filter }, `Created filter\n${describeFilter(filter)}`);
+  }
+
+  // Batches that fail are reported in `failed` rather than thrown
+  const batch = await batchModifyEmails(ctx, { messageIds, addLabelIds, removeLabelIds, batchSize: 1000 }, linked);
+  const existingMessages = {
+    matched: messageIds.length,
+    ...(batch.structuredContent as { succeeded: number; failed: { id: string; error: string }[] }),
+  };
+
+  return structuredResult(
+    { filter, existingMessages },
+    `Created filter\n${describeFilter(filter)}\n\nApplied to ${existingMessages.succeeded} of ${existingMessages.matched} existing messages`,
+  );
+};
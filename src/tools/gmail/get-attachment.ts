@@ -0,0 +1,75 @@
+import { z } from "zod";
+import { Readable } from "node:stream";
+import type { DriveContext } from "../google-drive/context";
+import { GmailTool } from "./types";
+import { errorResult, structuredResult } from "../result";
+import { fetchGmailAttachment } from "./attachments";
+import { GetEmailAttachmentSchema } from "./schemas";
+
+// Largest attachment returned inline; bigger files can still be saved to Drive
+export const MAX_INLINE_ATTACHMENT_BYTES = 5 * 1024 * 1024;
+
+const TEXT_MIME_TYPES = new Set(["application/json", "application/xml", "application/javascript", "application/x-yaml", "application/csv"]);
+
+// Decodes text attachments, or returns null for binary ones and text that is not valid UTF-8
+function decodeText(mimeType: string, content: Buffer): string | null {
+  if (!mimeType.startsWith("text/") && !TEXT_MIME_TYPES.has(mimeType) && !mimeType.endsWith("+json") && !mimeType.endsWith("+xml")) {
+    return null;
+  }
+  try {
+    return new TextDecoder("utf-8", { fatal: true, ignoreBOM: false }).decode(content);
+  } catch {
+    return null;
+  }
+}
+
+export const getEmailAttachment: GmailTool<z.infer<typeof GetEmailAttachmentSchema>> = async (ctx, args, linked) => {
+  const fetched = await fetchGmailAttachment(ctx, args.messageId, args.attachmentId, args.partId);
+  const attachment = {
+    messageId: args.messageId,
+    attachmentId: args.attachmentId,
+    filename: fetched.filename || "attachment",
+    mimeType: fetched.mimeType || "application/octet-stream",
+    size: fetched.content.length,
+  };
+
+  if (args.saveToDrive) {
+    const { drive } = await linked.get<DriveContext>("drive");
+    const { data } = await drive.files.create({
+      requestBody: {
+        name: attachment.filename,
+        parents: args.driveFolderId ? [args.driveFolderId] : undefined,
+      },
+      media: { mimeType: attachment.mimeType, body: Readable.from([fetched.content]) },
+      fields: "id, name, webViewLink",
+    });
+
+    const driveFile = { id: data.id!, name: data.name, webViewLink: data.webViewLink };
+    return structuredResult(
+      { ...attachment, driveFile },
+      `Saved "${attachment.filename}" to Google Drive (ID: ${driveFile.id})\nView link: ${driveFile.webViewLink || "N/A"}`,
+    );
+  }
+
+  if (attachment.size > MAX_INLINE_ATTACHMENT_BYTES) {
+    return errorResult(
+      `Attachment "${attachment.filename}" is ${Math.round(attachment.size / 1024 / 1024)} MB, over the ${MAX_INLINE_ATTACHMENT_BYTES / 1024 / 1024} MB inline limit. Use saveToDrive to store it in Google Drive instead.`,
+    );
+  }
+
+  const text = decodeText(attachment.mimeType, fetched.content);
+  if (text !== null) {
+    return structuredResult({ ...attachment, text }, text);
+  }
+
+  const resourceUri = `gmail://messages/${args.messageId}/attachments/${args.attachmentId}`;
+  const result = structuredResult(
+    { ...attachment, resourceUri },
+    `Attachment "${attachment.filename}" (${attachment.mimeType}, ${Math.round(attachment.size / 1024)} KB) is embedded as a resource`,
+  );
+  result.content.push({
+    type: "resource",
+    resource: { uri: resourceUri, mimeType: attachment.mimeType, blob: fetched.content.toString("base64") },
+  });
+  return result;
+};
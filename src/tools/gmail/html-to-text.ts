@@ -0,0 +1,176 @@
+export const QUOTED_TEXT_PLACEHOLDER = "[quoted text hidden]";
+
+// Attribution lines clients put above quoted or forwarded text
+const QUOTE_ATTRIBUTION = [/^On\b.*\bwrote:\s*$/, /^-+\s*Original Message\s*-+$/i, /^-+\s*Forwarded message\s*-+$/i];
+// Where Gmail, Thunderbird and Outlook start the quoted part of an HTML reply. A bare <blockquote>
+// is not enough: newsletters and inline replies use it for content of their own.
+const HTML_QUOTE_START = /<div[^>]*class="(?:[^"]*\s)?(?:gmail_quote|moz-cite-prefix)[\s"]|<div[^>]*id="(?:divRplyFwdMsg|appendonsend)"/i;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  zwnj: "",
+  zwj: "",
+  shy: "",
+  copy: "©",
+  reg: "®",
+  trade: "™",
+  hellip: "…",
+  mdash: "—",
+  ndash: "–",
+  lsquo: "‘",
+  rsquo: "’",
+  ldquo: "“",
+  rdquo: "”",
+  bull: "•",
+  middot: "·",
+  euro: "€",
+  pound: "£",
+};
+
+function decodeEntities(text: string) {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === "#") {
+      const code = name[1] === "x" || name[1] === "X" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : "";
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+function attribute(tag: string, name: string) {
+  const match = new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, "i").exec(tag);
+  return match ? decodeEntities(match[1] ?? match[2] ?? match[3]) : undefined;
+}
+
+/** Invisible 1x1 images and images hidden with CSS are almost always open-tracking pixels */
+function isTrackingPixel(tag: string) {
+  const width = attribute(tag, "width");
+  const height = attribute(tag, "height");
+  const style = attribute(tag, "style") || "";
+  return (
+    (!!width && parseInt(width, 10) <= 1) ||
+    (!!height && parseInt(height, 10) <= 1) ||
+    /display\s*:\s*none|visibility\s*:\s*hidden|(?:^|;)\s*(?:width|height)\s*:\s*[01]px/i.test(style)
+  );
+}
+
+/**
+ * Drops the quoted part of an HTML reply, keeping everything before it
+ */
+export function collapseQuotedHtml(html: string) {
+  const quoteStart = html.search(HTML_QUOTE_START);
+  return quoteStart === -1 ? html : `${html.slice(0, quoteStart)}${QUOTED_TEXT_PLACEHOLDER}`;
+}
+
+/**
+ * Drops what a plain text message quotes from earlier ones: everything after an attribution
+ * line ("On Mon, Jane wrote:"), and runs of "> " lines in inline replies.
+ */
+export function collapseQuotedText(text: string) {
+  const lines = text.split(/\r?\n/);
+  const result: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    // Long attributions are often wrapped: "On Mon, 1 Jan 2024, Jane Doe <jane@example.com>\nwrote:"
+    const attribution = QUOTE_ATTRIBUTION.some((pattern) => pattern.test(line) || pattern.test(`${line} ${lines[i + 1] ?? ""}`));
+    if (attribution) {
+      result.push(QUOTED_TEXT_PLACEHOLDER);
+      break;
+    }
+
+    if (line.startsWith(">")) {
+      if (result[result.length - 1] !== `> ${QUOTED_TEXT_PLACEHOLDER}`) result.push(`> ${QUOTED_TEXT_PLACEHOLDER}`);
+      continue;
+    }
+    result.push(line);
+  }
+
+  return result.join("\n").trimEnd();
+}
+
+/**
+ * Converts an HTML email body to readable text, or to markdown with `markdown: true`.
+ * Scripts, styles and tracking pixels are removed, links keep their targets, and with
+ * `collapseQuotes` the quoted part of a reply is replaced by a placeholder.
+ *
+ * This is a tag-level conversion rather than a DOM parse: good enough for the markup
+ * email clients produce, not a general purpose HTML renderer.
+ */
+export function htmlToText(html: string, options: { markdown?: boolean; collapseQuotes?: boolean } = {}) {
+  const { markdown = false } = options;
+  let content = options.collapseQuotes ? collapseQuotedHtml(html) : html;
+
+  content = content
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(head|style|script|title|xml|noscript)\b[\s\S]*?<\/\1\s*>/gi, "")
+    .replace(/<!DOCTYPE[^>]*>/gi, "");
+
+  // Preformatted blocks keep their whitespace; set them aside before collapsing it
+  const preformatted: string[] = [];
+  content = content.replace(/<pre\b[^>]*>([\s\S]*?)<\/pre\s*>/gi, (_, inner: string) => {
+    const text = decodeEntities(inner.replace(/<br\s*\/?>/gi, "\n").replace(/<[^>]+>/g, ""));
+    preformatted.push(markdown ? `\n\n\`\`\`\n${text.replace(/\n+$/, "")}\n\`\`\`\n\n` : `\n\n${text}\n\n`);
+    return `\u0000${preformatted.length - 1}\u0000`;
+  });
+
+  // Whitespace in HTML source is insignificant; line breaks come from the tags below
+  content = content.replace(/\s+/g, " ");
+
+  content = content
+    .replace(/<img\b[^>]*>/gi, (tag) => {
+      if (isTrackingPixel(tag)) return "";
+      const alt = attribute(tag, "alt")?.trim();
+      const src = attribute(tag, "src");
+      if (!alt) return "";
+      return markdown && src && !src.startsWith("cid:") ? `![${alt}](${src})` : `[${alt}]`;
+    })
+    .replace(/<a\b([^>]*)>([\s\S]*?)<\/a\s*>/gi, (_, attributes: string, inner: string) => {
+      const href = attribute(` ${attributes}`, "href");
+      const label = inner.replace(/<[^>]+>/g, "").trim();
+      if (!href || /^(?:javascript:|#)/i.test(href)) return inner;
+      const target = href.replace(/^mailto:/i, "");
+      if (!label) return markdown ? `<${href}>` : target;
+      if (decodeEntities(label) === target) return label;
+      return markdown ? `[${label}](${href})` : `${label} (${target})`;
+    });
+
+  if (markdown) {
+    content = content
+      .replace(
+        /<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1\s*>/gi,
+        (_, level: string, inner: string) => `\n\n${"#".repeat(Number(level))} ${inner.trim()}\n\n`,
+      )
+      .replace(/<(strong|b)\b[^>]*>([\s\S]*?)<\/\1\s*>/gi, (_, _tag, inner: string) => (inner.trim() ? `**${inner.trim()}**` : inner))
+      .replace(/<(em|i)\b[^>]*>([\s\S]*?)<\/\1\s*>/gi, (_, _tag, inner: string) => (inner.trim() ? `_${inner.trim()}_` : inner))
+      .replace(/<code\b[^>]*>([\s\S]*?)<\/code\s*>/gi, "`$1`")
+      .replace(/<blockquote\b[^>]*>/gi, "\n\n> ")
+      .replace(/<hr\b[^>]*>/gi, "\n\n---\n\n");
+  } else {
+    content = content.replace(/<h[1-6]\b[^>]*>/gi, "\n\n").replace(/<hr\b[^>]*>/gi, "\n\n");
+  }
+
+  content = content
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<\/(?:p|h[1-6]|ul|ol|table|blockquote)\s*>/gi, "\n\n")
+    .replace(/<(?:p|ul|ol|table|blockquote)\b[^>]*>/gi, "\n\n")
+    .replace(/<\/?(?:div|tr|section|article|header|footer|center)\b[^>]*>/gi, "\n")
+    .replace(/<\/t[dh]\s*>/gi, " ")
+    .replace(/<[^>]+>/g, "");
+
+  content = decodeEntities(content)
+    .split("\n")
+    .map((line) => line.replace(/[ \t\u00a0]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .replace(/ ?\u0000(\d+)\u0000 ?/g, (_, index: string) => preformatted[Number(index)])
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+  return content;
+}
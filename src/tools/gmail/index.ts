@@ -1,96 +1,318 @@
 import { sendEmail } from "./send-email";
 import { draftEmail } from "./draft-email";
+import { deleteDraft, getDraft, listDrafts, previewDeleteDraft, sendDraft, updateDraft } from "./drafts";
 import { readEmail } from "./read-email";
+import { getEmailAttachment } from "./get-attachment";
+import { forwardEmail, readThread, replyToEmail } from "./threads";
 import { searchEmails } from "./search-emails";
 import { modifyEmail } from "./modify-email";
-import { deleteEmail } from "./delete-email";
+import { deleteEmail, previewDeleteEmail, trashEmail, untrashEmail } from "./delete-email";
 import { listEmailLabels } from "./labels";
 import { createLabel } from "./labels";
 import { updateLabel } from "./labels";
-import { deleteLabel } from "./labels";
+import { deleteLabel, previewDeleteLabel } from "./labels";
 import { getOrCreateLabel } from "./labels";
 import { batchModifyEmails } from "./batch";
-import { batchDeleteEmails } from "./batch";
+import { getSignature, getVacationResponder, listSendAsAliases, updateSignature, updateVacationResponder } from "./settings";
+import { createFilter, createFilterFromSearch, deleteFilter, listFilters, previewDeleteFilter } from "./filters";
+import { batchDeleteEmails, batchTrashEmails, previewBatchDeleteEmails } from "./batch";
+import { listSubscriptions, previewUnsubscribe, unsubscribe, unsubscribeSendsEmail } from "./unsubscribe";
 import {
   BatchDeleteEmailsSchema,
+  BatchTrashEmailsSchema,
   BatchModifyEmailsSchema,
+  ListFiltersSchema,
+  GetVacationResponderSchema,
+  UpdateVacationResponderSchema,
+  ListSendAsAliasesSchema,
+  GetSignatureSchema,
+  UpdateSignatureSchema,
+  CreateFilterSchema,
+  DeleteFilterSchema,
+  CreateFilterFromSearchSchema,
+  ListSubscriptionsSchema,
+  UnsubscribeSchema,
   CreateLabelSchema,
   DeleteEmailSchema,
+  TrashEmailSchema,
+  UntrashEmailSchema,
   DeleteLabelSchema,
   GetOrCreateLabelSchema,
   ListEmailLabelsSchema,
   ModifyEmailSchema,
   ReadEmailSchema,
+  GetEmailAttachmentSchema,
+  ListDraftsSchema,
+  GetDraftSchema,
+  UpdateDraftSchema,
+  SendDraftSchema,
+  DeleteDraftSchema,
+  ReadThreadSchema,
+  ReplyToEmailSchema,
+  ForwardEmailSchema,
   SearchEmailsSchema,
   SendEmailSchema,
   UpdateLabelSchema,
+  SentMessageOutputSchema,
+  DraftOutputSchema,
+  ListDraftsOutputSchema,
+  DraftDetailOutputSchema,
+  DeleteDraftOutputSchema,
+  ReadEmailOutputSchema,
+  EmailAttachmentOutputSchema,
+  ThreadOutputSchema,
+  SearchEmailsOutputSchema,
+  ModifyEmailOutputSchema,
+  DeleteEmailOutputSchema,
+  ListEmailLabelsOutputSchema,
+  LabelOutputSchema,
+  DeleteLabelOutputSchema,
+  GetOrCreateLabelOutputSchema,
+  BatchOperationOutputSchema,
+  FilterOutputSchema,
+  VacationResponderOutputSchema,
+  ListSendAsAliasesOutputSchema,
+  SignatureOutputSchema,
+  ListFiltersOutputSchema,
+  DeleteFilterOutputSchema,
+  FilterFromSearchOutputSchema,
+  ListSubscriptionsOutputSchema,
+  UnsubscribeOutputSchema,
 } from "./schemas";
+import { GMAIL_FULL_ACCESS_SCOPE } from "./context";
 
 // ── Export the complete tool registry ──────────────────────────────────
 export const gmailTools = {
   send_email: {
     schema: SendEmailSchema,
+    outputSchema: SentMessageOutputSchema,
     handler: sendEmail,
     description: "Send a new email via Gmail",
+    sendsEmail: true,
+    schedulable: true,
   },
   draft_email: {
     schema: SendEmailSchema,
+    outputSchema: DraftOutputSchema,
     handler: draftEmail,
     description: "Create a draft email in Gmail",
   },
+  list_drafts: {
+    schema: ListDraftsSchema,
+    outputSchema: ListDraftsOutputSchema,
+    handler: listDrafts,
+    description: "List Gmail drafts with their subject, recipients and snippet",
+  },
+  get_draft: {
+    schema: GetDraftSchema,
+    outputSchema: DraftDetailOutputSchema,
+    handler: getDraft,
+    description: "Retrieve the full content of a draft",
+  },
+  update_draft: {
+    schema: UpdateDraftSchema,
+    outputSchema: DraftOutputSchema,
+    handler: updateDraft,
+    description: "Update a draft's recipients, subject, body or attachments; fields left out are kept",
+  },
+  send_draft: {
+    schema: SendDraftSchema,
+    outputSchema: SentMessageOutputSchema,
+    handler: sendDraft,
+    description: "Send an existing draft",
+    sendsEmail: true,
+  },
+  delete_draft: {
+    schema: DeleteDraftSchema,
+    outputSchema: DeleteDraftOutputSchema,
+    handler: deleteDraft,
+    preview: previewDeleteDraft,
+    description: "Permanently delete a draft",
+  },
   read_email: {
     schema: ReadEmailSchema,
+    outputSchema: ReadEmailOutputSchema,
     handler: readEmail,
     description: "Retrieve the full content of a specific email",
   },
+  read_thread: {
+    schema: ReadThreadSchema,
+    outputSchema: ThreadOutputSchema,
+    handler: readThread,
+    description: "Retrieve every message of an email thread, oldest first, with quoted text collapsed",
+  },
+  reply_to_email: {
+    schema: ReplyToEmailSchema,
+    outputSchema: SentMessageOutputSchema,
+    handler: replyToEmail,
+    description: "Reply (or reply all) to an email in its thread. Recipients, Re: subject and threading headers come from the original",
+    sendsEmail: true,
+  },
+  forward_email: {
+    schema: ForwardEmailSchema,
+    outputSchema: SentMessageOutputSchema,
+    handler: forwardEmail,
+    description: "Forward an email, including its attachments, with an optional note",
+    sendsEmail: true,
+  },
+  get_email_attachment: {
+    schema: GetEmailAttachmentSchema,
+    outputSchema: EmailAttachmentOutputSchema,
+    handler: getEmailAttachment,
+    description:
+      "Download an email attachment: text files are returned decoded, binary files as an embedded resource (up to 5 MB), or save it to Google Drive",
+  },
   search_emails: {
     schema: SearchEmailsSchema,
+    outputSchema: SearchEmailsOutputSchema,
     handler: searchEmails,
     description: "Search for emails using Gmail search syntax",
   },
   modify_email: {
     schema: ModifyEmailSchema,
+    outputSchema: ModifyEmailOutputSchema,
     handler: modifyEmail,
     description: "Modify labels (move to folders, archive, etc.)",
   },
   delete_email: {
     schema: DeleteEmailSchema,
+    outputSchema: DeleteEmailOutputSchema,
     handler: deleteEmail,
-    description: "Permanently delete an email",
+    preview: previewDeleteEmail,
+    requiredScopes: (args: { permanent?: boolean }) => (args.permanent ? [GMAIL_FULL_ACCESS_SCOPE] : []),
+    description: "Delete an email: moves it to trash, or deletes it permanently with permanent: true",
+  },
+  trash_email: {
+    schema: TrashEmailSchema,
+    outputSchema: ModifyEmailOutputSchema,
+    handler: trashEmail,
+    description: "Move an email to trash (Gmail empties trash after 30 days)",
+  },
+  untrash_email: {
+    schema: UntrashEmailSchema,
+    outputSchema: ModifyEmailOutputSchema,
+    handler: untrashEmail,
+    description: "Restore an email from trash",
   },
   list_email_labels: {
     schema: ListEmailLabelsSchema,
+    outputSchema: ListEmailLabelsOutputSchema,
     handler: listEmailLabels,
     description: "List all Gmail labels (system + user)",
   },
   create_label: {
     schema: CreateLabelSchema,
+    outputSchema: LabelOutputSchema,
     handler: createLabel,
     description: "Create a new Gmail label",
   },
   update_label: {
     schema: UpdateLabelSchema,
+    outputSchema: LabelOutputSchema,
     handler: updateLabel,
     description: "Update an existing Gmail label",
   },
   delete_label: {
     schema: DeleteLabelSchema,
+    outputSchema: DeleteLabelOutputSchema,
     handler: deleteLabel,
+    preview: previewDeleteLabel,
     description: "Delete a Gmail label",
   },
   get_or_create_label: {
     schema: GetOrCreateLabelSchema,
+    outputSchema: GetOrCreateLabelOutputSchema,
     handler: getOrCreateLabel,
     description: "Get an existing label or create it if it doesn't exist",
   },
+  list_email_filters: {
+    schema: ListFiltersSchema,
+    outputSchema: ListFiltersOutputSchema,
+    handler: listFilters,
+    description: "List Gmail filters with their criteria and actions",
+  },
+  create_email_filter: {
+    schema: CreateFilterSchema,
+    outputSchema: FilterOutputSchema,
+    handler: createFilter,
+    description: "Create a Gmail filter that labels, archives or forwards incoming messages matching its criteria",
+  },
+  delete_email_filter: {
+    schema: DeleteFilterSchema,
+    outputSchema: DeleteFilterOutputSchema,
+    handler: deleteFilter,
+    preview: previewDeleteFilter,
+    description: "Delete a Gmail filter",
+  },
+  create_filter_from_search: {
+    schema: CreateFilterFromSearchSchema,
+    outputSchema: FilterFromSearchOutputSchema,
+    handler: createFilterFromSearch,
+    description: "Turn a search_emails query into a Gmail filter and apply its label changes to the messages that already match",
+  },
   batch_modify_emails: {
     schema: BatchModifyEmailsSchema,
+    outputSchema: BatchOperationOutputSchema,
     handler: batchModifyEmails,
     description: "Batch modify labels on multiple emails",
   },
   batch_delete_emails: {
     schema: BatchDeleteEmailsSchema,
+    outputSchema: BatchOperationOutputSchema,
     handler: batchDeleteEmails,
-    description: "Batch permanently delete multiple emails",
+    preview: previewBatchDeleteEmails,
+    requiredScopes: (args: { permanent?: boolean }) => (args.permanent ? [GMAIL_FULL_ACCESS_SCOPE] : []),
+    description: "Batch delete multiple emails: moves them to trash, or deletes them permanently with permanent: true",
+  },
+  batch_trash_emails: {
+    schema: BatchTrashEmailsSchema,
+    outputSchema: BatchOperationOutputSchema,
+    handler: batchTrashEmails,
+    description: "Batch move multiple emails to trash",
+  },
+  list_subscriptions: {
+    schema: ListSubscriptionsSchema,
+    outputSchema: ListSubscriptionsOutputSchema,
+    handler: listSubscriptions,
+    description: "Find newsletters and mailing lists: scans recent messages for List-Unsubscribe headers and groups the senders by volume",
+  },
+  unsubscribe: {
+    schema: UnsubscribeSchema,
+    outputSchema: UnsubscribeOutputSchema,
+    handler: unsubscribe,
+    preview: previewUnsubscribe,
+    sendsEmail: unsubscribeSendsEmail,
+    description:
+      "Unsubscribe from a mailing list using a message's List-Unsubscribe header (RFC 8058 one-click, or an email to the unsubscribe address), optionally archiving the sender's inbox messages",
+  },
+  get_vacation_responder: {
+    schema: GetVacationResponderSchema,
+    outputSchema: VacationResponderOutputSchema,
+    handler: getVacationResponder,
+    description: "Get the Gmail vacation (out-of-office) auto-reply settings",
+  },
+  update_vacation_responder: {
+    schema: UpdateVacationResponderSchema,
+    outputSchema: VacationResponderOutputSchema,
+    handler: updateVacationResponder,
+    description: "Turn the Gmail vacation (out-of-office) auto-reply on or off and set its message and dates",
+  },
+  list_send_as_aliases: {
+    schema: ListSendAsAliasesSchema,
+    outputSchema: ListSendAsAliasesOutputSchema,
+    handler: listSendAsAliases,
+    description: "List the addresses this account can send from (usable as send_email's from)",
+  },
+  get_signature: {
+    schema: GetSignatureSchema,
+    outputSchema: SignatureOutputSchema,
+    handler: getSignature,
+    description: "Get the email signature of a send-as address",
+  },
+  update_signature: {
+    schema: UpdateSignatureSchema,
+    outputSchema: SignatureOutputSchema,
+    handler: updateSignature,
+    description: "Update the email signature of a send-as address",
   },
 } as const;
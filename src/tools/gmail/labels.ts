@@ -1,6 +1,18 @@
 import { z } from "zod";
-import { GmailTool } from "./types";
+import { gmail_v1 } from "googleapis";
+import { GmailPreview, GmailTool } from "./types";
 import { CreateLabelSchema, UpdateLabelSchema, DeleteLabelSchema, GetOrCreateLabelSchema, ListEmailLabelsSchema } from "./schemas";
+import { structuredResult } from "../result";
+
+function toLabelOutput(label: gmail_v1.Schema$Label) {
+  return {
+    id: label.id || "",
+    name: label.name || "",
+    type: label.type,
+    messageListVisibility: label.messageListVisibility,
+    labelListVisibility: label.labelListVisibility,
+  };
+}
 
 export const listEmailLabels: GmailTool<z.infer<typeof ListEmailLabelsSchema>> = async ({ gmail }) => {
   const response = await gmail.users.labels.list({
@@ -11,19 +23,14 @@ export const listEmailLabels: GmailTool<z.infer<typeof ListEmailLabelsSchema>> =
   const systemLabels = labels.filter((l) => l.type === "system");
   const userLabels = labels.filter((l) => l.type === "user");
 
-  return {
-    content: [
-      {
-        type: "text" as const,
-        text:
-          `Found ${labels.length} labels (${systemLabels.length} system, ${userLabels.length} user):\n\n` +
-          "System Labels:\n" +
-          systemLabels.map((l) => `ID: ${l.id || "N/A"}\nName: ${l.name || "N/A"}\n`).join("\n") +
-          "\nUser Labels:\n" +
-          userLabels.map((l) => `ID: ${l.id || "N/A"}\nName: ${l.name || "N/A"}\n`).join("\n"),
-      },
-    ],
-  };
+  return structuredResult(
+    { labels: labels.map(toLabelOutput) },
+    `Found ${labels.length} labels (${systemLabels.length} system, ${userLabels.length} user):\n\n` +
+      "System Labels:\n" +
+      systemLabels.map((l) => `ID: ${l.id || "N/A"}\nName: ${l.name || "N/A"}\n`).join("\n") +
+      "\nUser Labels:\n" +
+      userLabels.map((l) => `ID: ${l.id || "N/A"}\nName: ${l.name || "N/A"}\n`).join("\n"),
+  );
 };
 
 export const createLabel: GmailTool<z.infer<typeof CreateLabelSchema>> = async ({ gmail }, args) => {
@@ -36,14 +43,7 @@ export const createLabel: GmailTool<z.infer<typeof CreateLabelSchema>> = async (
     },
   });
 
-  return {
-    content: [
-      {
-        type: "text",
-        text: JSON.stringify(res.data),
-      },
-    ],
-  };
+  return structuredResult(toLabelOutput(res.data));
 };
 
 export const updateLabel: GmailTool<z.infer<typeof UpdateLabelSchema>> = async ({ gmail }, args) => {
@@ -58,21 +58,20 @@ export const updateLabel: GmailTool<z.infer<typeof UpdateLabelSchema>> = async (
     requestBody: updates,
   });
 
+  return structuredResult(toLabelOutput(result.data));
+};
+
+export const previewDeleteLabel: GmailPreview<z.infer<typeof DeleteLabelSchema>> = async ({ gmail }, { id }) => {
+  const res = await gmail.users.labels.get({ userId: "me", id });
   return {
-    content: [
-      {
-        type: "text" as const,
-        text: JSON.stringify(result.data),
-      },
-    ],
+    summary: `Delete label "${res.data.name}" (messages keep their other labels)`,
+    items: [{ id, name: res.data.name, type: res.data.type, messagesTotal: res.data.messagesTotal }],
   };
 };
 
 export const deleteLabel: GmailTool<z.infer<typeof DeleteLabelSchema>> = async ({ gmail }, { id }) => {
   await gmail.users.labels.delete({ userId: "me", id });
-  return {
-    content: [{ type: "text", text: `Label ${id} deleted successfully` }],
-  };
+  return structuredResult({ id, deleted: true }, `Label ${id} deleted successfully`);
 };
 
 export const getOrCreateLabel: GmailTool<z.infer<typeof GetOrCreateLabelSchema>> = async ({ gmail }, args) => {
@@ -84,14 +83,10 @@ export const getOrCreateLabel: GmailTool<z.infer<typeof GetOrCreateLabelSchema>>
   const existingLabel = labels.data.labels?.find((l) => l.name === args.name);
 
   if (existingLabel) {
-    return {
-      content: [
-        {
-          type: "text" as const,
-          text: `Successfully found existing label:\nID: ${existingLabel.id}\nName: ${existingLabel.name}\nType: ${existingLabel.type}`,
-        },
-      ],
-    };
+    return structuredResult(
+      { ...toLabelOutput(existingLabel), created: false },
+      `Successfully found existing label:\nID: ${existingLabel.id}\nName: ${existingLabel.name}\nType: ${existingLabel.type}`,
+    );
   }
 
   // Create new label if not found
@@ -104,12 +99,8 @@ export const getOrCreateLabel: GmailTool<z.infer<typeof GetOrCreateLabelSchema>>
     },
   });
 
-  return {
-    content: [
-      {
-        type: "text" as const,
-        text: `Successfully created new label:\nID: ${result.data.id}\nName: ${result.data.name}\nType: ${result.data.type}`,
-      },
-    ],
-  };
+  return structuredResult(
+    { ...toLabelOutput(result.data), created: true },
+    `Successfully created new label:\nID: ${result.data.id}\nName: ${result.data.name}\nType: ${result.data.type}`,
+  );
 };
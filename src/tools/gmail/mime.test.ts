@@ -0,0 +1,182 @@
+import { describe, expect, it } from "vitest";
+import { composeMessage, encodeHeaderText, isValidEmail, MimeHeaderError } from "./mime";
+
+const CRLF = "\r\n";
+
+function headerBlock(message: string) {
+  return message.slice(0, message.indexOf(`${CRLF}${CRLF}`));
+}
+
+// Unfolds continuation lines so a header can be matched on one line
+function header(message: string, name: string) {
+  const unfolded = headerBlock(message).replace(/\r\n[ \t]/g, " ");
+  return new RegExp(`^${name}: (.*)$`, "m").exec(unfolded)?.[1];
+}
+
+// Whitespace between adjacent encoded-words is not part of the text (RFC 2047 section 6.2)
+function decodeEncodedWords(value: string) {
+  return value
+    .replace(/\?=\s+=\?/g, "?==?")
+    .replace(/=\?UTF-8\?B\?([^?]+)\?=/g, (_, base64: string) => Buffer.from(base64, "base64").toString("utf8"));
+}
+
+// The parts of a multipart entity, split on the boundary from its Content-Type
+function multipartParts(entity: string) {
+  const boundary = /boundary="([^"]+)"/.exec(entity)?.[1];
+  if (!boundary) throw new Error("not a multipart entity");
+  const body = entity.slice(entity.indexOf(`--${boundary}${CRLF}`), entity.indexOf(`--${boundary}--`));
+  return body
+    .split(`--${boundary}${CRLF}`)
+    .filter(Boolean)
+    .map((part) => part.replace(/\r\n$/, ""));
+}
+
+const sample = { to: ["jane@example.com"], subject: "Hello" };
+
+describe("encodeHeaderText", () => {
+  it("leaves plain ASCII alone", () => {
+    expect(encodeHeaderText("Quarterly report")).toBe("Quarterly report");
+  });
+
+  it("emits RFC 2047 encoded-words for non-ASCII text", () => {
+    const encoded = encodeHeaderText("Réunion à 10h");
+    expect(encoded).toMatch(/^=\?UTF-8\?B\?[A-Za-z0-9+/=]+\?=$/);
+    expect(decodeEncodedWords(encoded)).toBe("Réunion à 10h");
+  });
+
+  it("splits long text into words of at most 75 characters without cutting a character", () => {
+    const subject = "日本語の件名はとても長くなることがあります。".repeat(4);
+    const words = encodeHeaderText(subject).split(`${CRLF} `);
+
+    expect(words.length).toBeGreaterThan(1);
+    for (const word of words) {
+      expect(word.length).toBeLessThanOrEqual(75);
+      const base64 = /^=\?UTF-8\?B\?(.+)\?=$/.exec(word)![1];
+      // Every word decodes to whole characters on its own
+      expect(new TextDecoder("utf-8", { fatal: true, ignoreBOM: false }).decode(Buffer.from(base64, "base64"))).toBeTruthy();
+    }
+    expect(decodeEncodedWords(words.join(" "))).toBe(subject);
+  });
+});
+
+describe("composeMessage", () => {
+  it("encodes non-ASCII subjects and display names", () => {
+    const message = composeMessage({ ...sample, to: ["Zoë Martín <zoe@example.com>"], subject: "Café ☕ tomorrow?" });
+
+    expect(decodeEncodedWords(header(message, "Subject")!)).toBe("Café ☕ tomorrow?");
+    expect(header(message, "To")).toMatch(/^=\?UTF-8\?B\?.+\?= <zoe@example.com>$/);
+    expect(decodeEncodedWords(header(message, "To")!)).toBe("Zoë Martín <zoe@example.com>");
+  });
+
+  it("quotes display names containing specials", () => {
+    const message = composeMessage({ ...sample, to: ['"Doe, Jane" <jane@example.com>'] });
+    expect(header(message, "To")).toBe('"Doe, Jane" <jane@example.com>');
+  });
+
+  it("sends a text-only message as a single quoted-printable part", () => {
+    const message = composeMessage({ ...sample, text: "Prix: 10 €" });
+
+    expect(header(message, "Content-Type")).toBe("text/plain; charset=utf-8");
+    expect(header(message, "Content-Transfer-Encoding")).toBe("quoted-printable");
+    expect(message).toContain("Prix: 10 =E2=82=AC");
+  });
+
+  it("wraps quoted-printable lines at 76 characters with soft line breaks", () => {
+    const message = composeMessage({ ...sample, text: "a".repeat(200) });
+    const body = message.slice(message.indexOf(`${CRLF}${CRLF}`) + 4);
+
+    for (const line of body.split(CRLF)) expect(line.length).toBeLessThanOrEqual(76);
+    expect(body.replace(/=\r\n/g, "")).toBe("a".repeat(200));
+  });
+
+  it("puts text and HTML bodies in a multipart/alternative, plain text first", () => {
+    const message = composeMessage({ ...sample, text: "Hi", html: "<p>Hi</p>" });
+
+    expect(header(message, "Content-Type")).toMatch(/^multipart\/alternative; boundary="/);
+    const parts = multipartParts(message);
+    expect(parts).toHaveLength(2);
+    expect(parts[0]).toMatch(/^Content-Type: text\/plain; charset=utf-8/);
+    expect(parts[1]).toMatch(/^Content-Type: text\/html; charset=utf-8/);
+  });
+
+  it("wraps the bodies and attachments in a multipart/mixed", () => {
+    const message = composeMessage({
+      ...sample,
+      text: "See attached",
+      html: "<p>See attached</p>",
+      attachments: [{ filename: "notes.txt", mimeType: "text/plain", content: Buffer.from("hello") }],
+    });
+
+    expect(header(message, "Content-Type")).toMatch(/^multipart\/mixed; boundary="/);
+    const [bodies, attachment, ...rest] = multipartParts(message);
+    expect(rest).toHaveLength(0);
+    expect(bodies).toMatch(/^Content-Type: multipart\/alternative; boundary="/);
+    expect(multipartParts(bodies)).toHaveLength(2);
+
+    expect(attachment).toContain('Content-Type: text/plain; name="notes.txt"');
+    expect(attachment).toContain('Content-Disposition: attachment; filename="notes.txt"');
+    expect(attachment).toContain("Content-Transfer-Encoding: base64");
+    expect(attachment.endsWith(Buffer.from("hello").toString("base64"))).toBe(true);
+  });
+
+  it("adds an RFC 2231 filename* for non-ASCII filenames, with an ASCII fallback", () => {
+    const message = composeMessage({
+      ...sample,
+      text: "CV",
+      attachments: [{ filename: "résumé (final).pdf", mimeType: "application/pdf", content: Buffer.from("%PDF") }],
+    });
+    const attachment = multipartParts(message)[1];
+
+    expect(attachment).toContain(`filename="r_sum_ (final).pdf"; filename*=UTF-8''r%C3%A9sum%C3%A9%20%28final%29.pdf`);
+    expect(attachment).toContain('Content-Type: application/pdf; name="r_sum_ (final).pdf"');
+  });
+
+  it.each([
+    ["subject", { subject: "Hi\r\nBcc: attacker@example.com" }],
+    ["recipient", { to: ["jane@example.com\nBcc: attacker@example.com"] }],
+    ["sender", { from: "me@example.com\r\nX-Injected: 1" }],
+    ["In-Reply-To", { inReplyTo: "<abc@example.com>\r\nX-Injected: 1" }],
+    ["References", { references: ["<abc@example.com>\nX-Injected: 1"] }],
+  ])("rejects a line break in the %s", (_, options) => {
+    expect(() => composeMessage({ ...sample, ...options })).toThrow(MimeHeaderError);
+  });
+
+  it("rejects a line break in an attachment filename", () => {
+    const attachments = [{ filename: "a.txt\r\nX-Injected: 1", mimeType: "text/plain", content: Buffer.from("") }];
+    expect(() => composeMessage({ ...sample, attachments })).toThrow(MimeHeaderError);
+  });
+
+  it("threads replies with In-Reply-To and References", () => {
+    const message = composeMessage({
+      ...sample,
+      subject: "Re: Hello",
+      inReplyTo: "CAB123@mail.example.com",
+      references: ["<root@mail.example.com>", "CAB123@mail.example.com"],
+    });
+
+    expect(header(message, "In-Reply-To")).toBe("<CAB123@mail.example.com>");
+    expect(header(message, "References")).toBe("<root@mail.example.com> <CAB123@mail.example.com>");
+  });
+
+  it("defaults References to the message being replied to", () => {
+    const message = composeMessage({ ...sample, inReplyTo: "<CAB123@mail.example.com>" });
+    expect(header(message, "References")).toBe("<CAB123@mail.example.com>");
+  });
+});
+
+describe("isValidEmail", () => {
+  it.each(["jane@example.com", "list+unsubscribe.123@mail.example.co.uk"])("accepts %s", (address) => {
+    expect(isValidEmail(address)).toBe(true);
+  });
+
+  it.each([
+    "Jane <jane@example.com>",
+    "jane@example.com, attacker@example.com",
+    "jane@example.com\r\nBcc: attacker@example.com",
+    "jane@localhost",
+    "@example.com",
+    "jane@-example.com",
+  ])("rejects %j", (address) => {
+    expect(isValidEmail(address)).toBe(false);
+  });
+});
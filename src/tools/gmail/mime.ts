@@ -0,0 +1,261 @@
+/**
+ * RFC 5322 message composer for outgoing mail.
+ * - Non-ASCII header text (subjects, display names, filenames) is emitted as RFC 2047 encoded-words
+ * - Text and HTML bodies become a multipart/alternative, attachments a surrounding multipart/mixed
+ * - Header values containing CR or LF are rejected, so user input cannot inject headers
+ */
+
+const CRLF = "\r\n";
+const MAX_LINE_LENGTH = 76;
+// An encoded-word is at most 75 characters; "=?UTF-8?B?" and "?=" leave 63 for base64, i.e. 45 bytes
+const MAX_ENCODED_WORD_BYTES = 45;
+
+export class MimeHeaderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MimeHeaderError";
+  }
+}
+
+export interface MimeAttachment {
+  filename: string;
+  mimeType: string;
+  content: Buffer;
+}
+
+export interface ComposeMessageOptions {
+  from?: string;
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
+  subject: string;
+  /** Plain text body */
+  text?: string;
+  /** HTML body; sent alongside `text` as multipart/alternative when both are set */
+  html?: string;
+  /** Message-ID of the message being replied to */
+  inReplyTo?: string;
+  /** Message-IDs of the thread so far, oldest first */
+  references?: string[];
+  attachments?: MimeAttachment[];
+}
+
+function assertHeaderSafe(name: string, value: string) {
+  if (/[\r\n]/.test(value)) {
+    throw new MimeHeaderError(`${name} must not contain line breaks`);
+  }
+}
+
+function isAscii(value: string) {
+  return /^[\x20-\x7e]*$/.test(value);
+}
+
+/**
+ * Encodes header text as RFC 2047 encoded-words when it is not plain ASCII.
+ * Words are split on character boundaries and joined with folding whitespace.
+ */
+export function encodeHeaderText(value: string): string {
+  if (isAscii(value)) return value;
+
+  const words: string[] = [];
+  let chunk = "";
+  for (const char of value) {
+    if (Buffer.byteLength(chunk + char) > MAX_ENCODED_WORD_BYTES) {
+      words.push(chunk);
+      chunk = "";
+    }
+    chunk += char;
+  }
+  if (chunk) words.push(chunk);
+
+  return words.map((word) => `=?UTF-8?B?${Buffer.from(word).toString("base64")}?=`).join(`${CRLF} `);
+}
+
+// "Name <user@example.com>" keeps the address as-is and encodes or quotes the display name
+function formatAddress(address: string) {
+  const match = /^\s*(.*?)\s*<([^<>]+)>\s*$/.exec(address);
+  if (!match || !match[1]) return address.trim();
+
+  const name = match[1].replace(/^"(.*)"$/, "$1");
+  if (!isAscii(name)) return `${encodeHeaderText(name)} <${match[2]}>`;
+  // Display names with RFC 5322 specials must be quoted
+  if (/[()<>[\]:;@\\,."]/.test(name)) return `"${name.replace(/(["\\])/g, "\\$1")}" <${match[2]}>`;
+  return `${name} <${match[2]}>`;
+}
+
+function formatMessageId(id: string) {
+  const trimmed = id.trim();
+  return trimmed.startsWith("<") ? trimmed : `<${trimmed}>`;
+}
+
+function quotedPrintable(text: string): string {
+  const lines = text.replace(/\r?\n/g, "\n").split("\n");
+
+  return lines
+    .map((line) => {
+      const bytes = Buffer.from(line);
+      let encoded = "";
+      let current = "";
+
+      bytes.forEach((byte, index) => {
+        const isLast = index === bytes.length - 1;
+        // Printable ASCII except "=", and spaces or tabs not at the end of the line, pass through
+        const literal = (byte >= 33 && byte <= 126 && byte !== 61) || ((byte === 32 || byte === 9) && !isLast);
+        const token = literal ? String.fromCharCode(byte) : `=${byte.toString(16).toUpperCase().padStart(2, "0")}`;
+
+        // Soft line break: "=" at the end counts towards the 76 character limit
+        if (current.length + token.length > MAX_LINE_LENGTH - 1) {
+          encoded += `${current}=${CRLF}`;
+          current = "";
+        }
+        current += token;
+      });
+
+      return encoded + current;
+    })
+    .join(CRLF);
+}
+
+function base64Lines(content: Buffer) {
+  return (content.toString("base64").match(/.{1,76}/g) || []).join(CRLF);
+}
+
+function textPart(subtype: "plain" | "html", body: string) {
+  return [`Content-Type: text/${subtype}; charset=utf-8`, "Content-Transfer-Encoding: quoted-printable", "", quotedPrintable(body)].join(
+    CRLF,
+  );
+}
+
+// Quoted filename for clients without RFC 2231 support: ASCII only, no quotes or backslashes
+function asciiFilename(filename: string) {
+  return filename.replace(/[^\x20-\x7e]/g, "_").replace(/["\\]/g, "_");
+}
+
+// RFC 2231 extended value: percent-encoded UTF-8, also escaping the characters attr-char excludes
+function extendedFilename(filename: string) {
+  return "UTF-8''" + encodeURIComponent(filename).replace(/['()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function attachmentPart(attachment: MimeAttachment) {
+  assertHeaderSafe("Attachment filename", attachment.filename);
+  assertHeaderSafe("Attachment MIME type", attachment.mimeType);
+
+  const fallback = asciiFilename(attachment.filename);
+  const disposition =
+    fallback === attachment.filename
+      ? `attachment; filename="${fallback}"`
+      : `attachment; filename="${fallback}"; filename*=${extendedFilename(attachment.filename)}`;
+
+  return [
+    `Content-Type: ${attachment.mimeType}; name="${fallback}"`,
+    `Content-Disposition: ${disposition}`,
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(attachment.content),
+  ].join(CRLF);
+}
+
+function multipart(subtype: "alternative" | "mixed", parts: string[]) {
+  const boundary = `${subtype}_${crypto.randomUUID()}`;
+  const body = parts.map((part) => `--${boundary}${CRLF}${part}${CRLF}`).join("") + `--${boundary}--`;
+  return `Content-Type: multipart/${subtype}; boundary="${boundary}"${CRLF}${CRLF}${body}`;
+}
+
+/**
+ * Builds a complete RFC 5322 message. Throws MimeHeaderError when a header value
+ * contains a line break.
+ */
+export function composeMessage(options: ComposeMessageOptions): string {
+  const headers: string[] = [];
+  const addHeader = (name: string, value: string) => {
+    assertHeaderSafe(name, value);
+    headers.push(`${name}: ${value}`);
+  };
+  const addAddresses = (name: string, addresses: string[] | undefined) => {
+    if (!addresses?.length) return;
+    addresses.forEach((address) => assertHeaderSafe(name, address));
+    headers.push(`${name}: ${addresses.map(formatAddress).join(`,${CRLF} `)}`);
+  };
+
+  addAddresses("From", options.from ? [options.from] : undefined);
+  addAddresses("To", options.to);
+  addAddresses("Cc", options.cc);
+  // Gmail reads Bcc to deliver the copies and strips it from the sent message
+  addAddresses("Bcc", options.bcc);
+  assertHeaderSafe("Subject", options.subject);
+  headers.push(`Subject: ${encodeHeaderText(options.subject)}`);
+
+  if (options.inReplyTo) addHeader("In-Reply-To", formatMessageId(options.inReplyTo));
+  const references = options.references?.length ? options.references : options.inReplyTo ? [options.inReplyTo] : [];
+  if (references.length) {
+    references.forEach((id) => assertHeaderSafe("References", id));
+    headers.push(`References: ${references.map(formatMessageId).join(`${CRLF} `)}`);
+  }
+  headers.push("MIME-Version: 1.0");
+
+  const bodyParts: string[] = [];
+  if (options.text !== undefined || options.html === undefined) bodyParts.push(textPart("plain", options.text ?? ""));
+  if (options.html !== undefined) bodyParts.push(textPart("html", options.html));
+
+  let body = bodyParts.length > 1 ? multipart("alternative", bodyParts) : bodyParts[0];
+  if (options.attachments?.length) {
+    body = multipart("mixed", [body, ...options.attachments.map(attachmentPart)]);
+  }
+
+  return headers.join(CRLF) + CRLF + body;
+}
+
+/**
+ * Splits an address list header (`A <a@example.com>, "Doe, Jane" <jane@example.com>`) into its entries
+ */
+export function parseAddressList(value: string): string[] {
+  const entries: string[] = [];
+  let current = "";
+  let quoted = false;
+  let bracketed = false;
+
+  for (const char of value) {
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && char === "<") bracketed = true;
+    else if (!quoted && char === ">") bracketed = false;
+
+    if (char === "," && !quoted && !bracketed) {
+      if (current.trim()) entries.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) entries.push(current.trim());
+
+  return entries;
+}
+
+/**
+ * The bare, lower-cased email address of an address list entry, for comparisons
+ */
+export function emailAddressOf(entry: string): string {
+  return (/<([^<>]+)>/.exec(entry)?.[1] ?? entry).trim().toLowerCase();
+}
+
+/**
+ * Whether the value is a single bare address (local@domain.tld), without display name,
+ * comments or other addresses
+ */
+export function isValidEmail(address: string): boolean {
+  return /^[^\s@<>()[\]\\,;:"]+@[A-Za-z0-9](?:[A-Za-z0-9-]*[A-Za-z0-9])?(?:\.[A-Za-z0-9](?:[A-Za-z0-9-]*[A-Za-z0-9])?)+$/.test(address);
+}
+
+/**
+ * Escapes text for use in an HTML body or a double-quoted attribute
+ */
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/**
+ * Encodes a composed message for the `raw` field of the Gmail API (base64url, unpadded)
+ */
+export function encodeRawMessage(message: string): string {
+  return Buffer.from(message).toString("base64").replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
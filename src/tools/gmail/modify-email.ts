@@ -1,5 +1,6 @@
 import { z } from "zod";
 import { GmailTool } from "./types";
+import { structuredResult } from "../result";
 import { ModifyEmailSchema } from "./schemas";
 
 export const modifyEmail: GmailTool<z.infer<typeof ModifyEmailSchema>> = async ({ gmail }, args) => {
@@ -17,18 +18,14 @@ export const modifyEmail: GmailTool<z.infer<typeof ModifyEmailSchema>> = async (
     requestBody.removeLabelIds = args.removeLabelIds;
   }
 
-  await gmail.users.messages.modify({
+  const response = await gmail.users.messages.modify({
     userId: "me",
     id: args.messageId,
     requestBody: requestBody,
   });
 
-  return {
-    content: [
-      {
-        type: "text" as const,
-        text: `Email ${args.messageId} labels updated successfully`,
-      },
-    ],
-  };
+  return structuredResult(
+    { messageId: args.messageId, labelIds: response.data.labelIds || [] },
+    `Email ${args.messageId} labels updated successfully`,
+  );
 };
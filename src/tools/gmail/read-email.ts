@@ -1,10 +1,13 @@
 import { z } from "zod";
 import { gmail_v1 } from "googleapis";
 import { GmailTool } from "./types";
+import { structuredResult } from "../result";
 import { ReadEmailSchema } from "./schemas";
+import { collapseQuotedText, htmlToText } from "./html-to-text";
 
 interface EmailAttachment {
   id: string;
+  partId: string;
   filename: string;
   mimeType: string;
   size: number;
@@ -40,23 +43,15 @@ function extractContent(messagePart: gmail_v1.Schema$MessagePart): EmailContent
   return { text: textContent, html: htmlContent };
 }
 
-export const readEmail: GmailTool<z.infer<typeof ReadEmailSchema>> = async ({ gmail }, { messageId }) => {
-  const response = await gmail.users.messages.get({
-    userId: "me",
-    id: messageId,
-    format: "full",
-  });
-
-  const headers = response.data.payload?.headers || [];
-  const subject = headers.find((h) => h.name?.toLowerCase() === "subject")?.value || "";
-  const from = headers.find((h) => h.name?.toLowerCase() === "from")?.value || "";
-  const to = headers.find((h) => h.name?.toLowerCase() === "to")?.value || "";
-  const date = headers.find((h) => h.name?.toLowerCase() === "date")?.value || "";
-  const threadId = response.data.threadId || "";
+/**
+ * Headers, bodies and attachment list of a Gmail API message fetched with format "full".
+ * Shared by read_email, read_thread, reply_to_email and forward_email.
+ */
+export function parseMessage(message: gmail_v1.Schema$Message) {
+  const headers = message.payload?.headers || [];
+  const header = (name: string) => headers.find((h) => h.name?.toLowerCase() === name)?.value || "";
 
-  const { text, html } = extractContent((response.data.payload as gmail_v1.Schema$MessagePart) || {});
-  let body = text || html || "";
-  const contentTypeNote = !text && html ? "[Note: This email is HTML-formatted. Plain text version not available.]\n\n" : "";
+  const { text, html } = extractContent((message.payload as gmail_v1.Schema$MessagePart) || {});
 
   const attachments: EmailAttachment[] = [];
   const processAttachmentParts = (part: gmail_v1.Schema$MessagePart | undefined) => {
@@ -65,6 +60,7 @@ export const readEmail: GmailTool<z.infer<typeof ReadEmailSchema>> = async ({ gm
       const filename = part.filename || `attachment-${part.body.attachmentId}`;
       attachments.push({
         id: part.body.attachmentId,
+        partId: part.partId || "",
         filename: filename,
         mimeType: part.mimeType || "application/octet-stream",
         size: part.body.size || 0,
@@ -76,22 +72,93 @@ export const readEmail: GmailTool<z.infer<typeof ReadEmailSchema>> = async ({ gm
     }
   };
 
-  if (response.data.payload) {
-    processAttachmentParts(response.data.payload as gmail_v1.Schema$MessagePart);
+  if (message.payload) {
+    processAttachmentParts(message.payload as gmail_v1.Schema$MessagePart);
+  }
+
+  return {
+    id: message.id || "",
+    threadId: message.threadId || "",
+    subject: header("subject"),
+    from: header("from"),
+    to: header("to"),
+    cc: header("cc"),
+    bcc: header("bcc"),
+    replyTo: header("reply-to"),
+    date: header("date"),
+    /** The RFC 5322 Message-ID header, used to thread replies */
+    messageIdHeader: header("message-id"),
+    inReplyTo: header("in-reply-to"),
+    references: header("references"),
+    text,
+    html,
+    body: text || html || "",
+    bodyFormat: !text && html ? ("html" as const) : ("text" as const),
+    attachments,
+  };
+}
+
+export type ParsedMessage = ReturnType<typeof parseMessage>;
+
+/**
+ * The body of a message in the requested format, converting or falling back between the
+ * plain text and HTML parts when the preferred one is missing
+ */
+export function formatBody(message: ParsedMessage, format: "text" | "markdown" | "html" | "headers", collapseQuotes: boolean) {
+  const { text, html } = message;
+
+  if (format === "html") {
+    return html ? { body: html, bodyFormat: "html" as const } : { body: text, bodyFormat: "text" as const };
+  }
+  if (format === "markdown" && html) {
+    return { body: htmlToText(html, { markdown: true, collapseQuotes }), bodyFormat: "markdown" as const };
   }
+  if (text) {
+    return { body: collapseQuotes ? collapseQuotedText(text) : text, bodyFormat: "text" as const };
+  }
+  return { body: htmlToText(html, { collapseQuotes }), bodyFormat: "text" as const };
+}
+
+export const readEmail: GmailTool<z.infer<typeof ReadEmailSchema>> = async ({ gmail }, args) => {
+  const { messageId } = args;
+  const response = await gmail.users.messages.get({
+    userId: "me",
+    id: messageId,
+    format: "full",
+  });
+
+  const message = parseMessage(response.data);
+  const { threadId, subject, from, to, date, attachments } = message;
+  const { body, bodyFormat } = formatBody(message, args.format, args.collapseQuotedText);
+  const headers =
+    args.format === "headers"
+      ? (response.data.payload?.headers || []).map((header) => ({ name: header.name || "", value: header.value || "" }))
+      : undefined;
 
   const attachmentInfo =
     attachments.length > 0
       ? `\n\nAttachments (${attachments.length}):\n` +
-        attachments.map((a) => `- ${a.filename} (${a.mimeType}, ${Math.round(a.size / 1024)} KB, ID: ${a.id})`).join("\n")
+        attachments
+          .map((a) => `- ${a.filename} (${a.mimeType}, ${Math.round(a.size / 1024)} KB, ID: ${a.id}, part: ${a.partId})`)
+          .join("\n")
       : "";
+  const headerInfo = headers
+    ? headers.map((header) => `${header.name}: ${header.value}`).join("\n")
+    : `Subject: ${subject}\nFrom: ${from}\nTo: ${to}\nDate: ${date}`;
 
-  return {
-    content: [
-      {
-        type: "text" as const,
-        text: `Thread ID: ${threadId}\nSubject: ${subject}\nFrom: ${from}\nTo: ${to}\nDate: ${date}\n\n${contentTypeNote}${body}${attachmentInfo}`,
-      },
-    ],
-  };
+  return structuredResult(
+    {
+      id: messageId,
+      threadId,
+      subject,
+      from,
+      to,
+      date,
+      body,
+      bodyFormat,
+      attachments,
+      ...(headers && { headers }),
+    },
+    `Thread ID: ${threadId}\n${headerInfo}\n\n${body}${attachmentInfo}`,
+  );
 };
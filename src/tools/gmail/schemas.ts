@@ -1,24 +1,126 @@
 import { z } from "zod";
+import { NextCursorSchema, PaginationSchema } from "../pagination";
+
+export const AttachmentSchema = z.object({
+  filename: z.string().optional().describe("File name shown to the recipient (required with content; defaults to the source file's name)"),
+  mimeType: z.string().optional().describe("MIME type, e.g. application/pdf (defaults to the source file's type)"),
+  content: z.string().optional().describe("Base64-encoded file content"),
+  driveFileId: z.string().optional().describe("Google Drive file ID (requires the Drive integration; Google Docs are attached as PDF)"),
+  messageId: z.string().optional().describe("ID of the email holding an existing attachment (use with attachmentId)"),
+  attachmentId: z.string().optional().describe("Attachment ID as listed by read_email (use with messageId)"),
+  url: z.string().optional().describe("HTTPS URL to download the file from"),
+});
 
 export const SendEmailSchema = z.object({
+  from: z.string().optional().describe("Send-as alias to send from (see list_send_as_aliases); defaults to the account's default address"),
   to: z.array(z.string()).describe("List of recipient email addresses"),
   subject: z.string().describe("Email subject"),
   body: z.string().describe("Email body content (used for text/plain or when htmlBody not provided)"),
   htmlBody: z.string().optional().describe("HTML version of the email body"),
-  mimeType: z.enum(["text/plain", "text/html", "multipart/alternative"]).optional().default("text/plain").describe("Email content type"),
+  mimeType: z
+    .enum(["text/plain", "text/html", "multipart/alternative"])
+    .optional()
+    .default("text/plain")
+    .describe("Email content type. With text/html and no htmlBody, body is sent as HTML"),
   cc: z.array(z.string()).optional().describe("List of CC recipients"),
   bcc: z.array(z.string()).optional().describe("List of BCC recipients"),
   threadId: z.string().optional().describe("Thread ID to reply to"),
-  inReplyTo: z.string().optional().describe("Message ID being replied to"),
+  inReplyTo: z.string().optional().describe("Message-ID header of the email being replied to"),
+  references: z.array(z.string()).optional().describe("Message-ID headers of the thread, oldest first (defaults to inReplyTo)"),
+  attachments: z
+    .array(AttachmentSchema)
+    .optional()
+    .describe("Files to attach. Each sets exactly one source: content, driveFileId, messageId + attachmentId, or url"),
+});
+
+export const ListDraftsSchema = z.object({
+  query: z.string().optional().describe("Optional Gmail search query to filter drafts"),
+  maxResults: z.number().optional().default(20).describe("Maximum number of drafts to return per page"),
+  ...PaginationSchema.shape,
+});
+
+export const GetDraftSchema = z.object({
+  draftId: z.string().describe("ID of the draft"),
+});
+
+export const UpdateDraftSchema = SendEmailSchema.partial().extend({
+  draftId: z.string().describe("ID of the draft to update. Fields left out keep their current value"),
+  attachments: z
+    .array(AttachmentSchema)
+    .optional()
+    .describe("Replaces the draft's attachments (same sources as send_email); omit to keep the current ones"),
+});
+
+export const SendDraftSchema = z.object({
+  draftId: z.string().describe("ID of the draft to send"),
+});
+
+export const DeleteDraftSchema = z.object({
+  draftId: z.string().describe("ID of the draft to delete"),
 });
 
 export const ReadEmailSchema = z.object({
   messageId: z.string().describe("ID of the email message to retrieve"),
+  format: z
+    .enum(["text", "markdown", "html", "headers"])
+    .optional()
+    .default("text")
+    .describe(
+      "text: plain text (HTML-only emails are converted); markdown: HTML converted to markdown, keeping links and emphasis; html: the original HTML; headers: plain text plus every raw header",
+    ),
+  collapseQuotedText: z.boolean().optional().default(true).describe("Hide text quoted from earlier messages (ignored for html)"),
+});
+
+export const ReadThreadSchema = z.object({
+  threadId: z.string().describe("ID of the email thread to retrieve"),
+  format: z
+    .enum(["text", "markdown", "html"])
+    .optional()
+    .default("text")
+    .describe(
+      "text: plain text (HTML-only emails are converted); markdown: HTML converted to markdown, keeping links and emphasis; html: the original HTML",
+    ),
+  collapseQuotedText: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe("Hide text each message quotes from earlier messages (ignored for html)"),
+});
+
+export const ReplyToEmailSchema = z.object({
+  messageId: z.string().describe("ID of the email message to reply to"),
+  body: z.string().describe("Reply text"),
+  htmlBody: z.string().optional().describe("HTML version of the reply"),
+  replyAll: z.boolean().optional().default(false).describe("Also reply to everyone in the original To and Cc"),
+  cc: z.array(z.string()).optional().describe("Additional CC recipients"),
+  quoteOriginal: z.boolean().optional().default(true).describe("Quote the original message below the reply"),
+  attachments: z.array(AttachmentSchema).optional().describe("Files to attach (same sources as send_email)"),
+});
+
+export const ForwardEmailSchema = z.object({
+  messageId: z.string().describe("ID of the email message to forward"),
+  to: z.array(z.string()).describe("List of recipient email addresses"),
+  cc: z.array(z.string()).optional().describe("List of CC recipients"),
+  bcc: z.array(z.string()).optional().describe("List of BCC recipients"),
+  body: z.string().optional().describe("Note shown above the forwarded message"),
+  includeAttachments: z.boolean().optional().default(true).describe("Forward the original attachments"),
+});
+
+export const GetEmailAttachmentSchema = z.object({
+  messageId: z.string().describe("ID of the email message holding the attachment"),
+  attachmentId: z.string().describe("Attachment ID as listed by read_email"),
+  partId: z.string().optional().describe("Part ID as listed by read_email, used to find the attachment's filename and type"),
+  saveToDrive: z.boolean().optional().default(false).describe("Save the file to Google Drive instead of returning its content"),
+  driveFolderId: z.string().optional().describe("Drive folder to save into (defaults to My Drive)"),
 });
 
 export const SearchEmailsSchema = z.object({
   query: z.string().describe("Gmail search query (e.g., 'from:example@gmail.com')"),
-  maxResults: z.number().optional().describe("Maximum number of results to return"),
+  maxResults: z.number().optional().describe("Maximum number of results to return per page (at most 100)"),
+  ...PaginationSchema.shape,
+  fetchAll: PaginationSchema.shape.fetchAll.describe(
+    "Follow cursors and return every page, up to 100 messages. `nextCursor` is set if results remain",
+  ),
 });
 
 export const ModifyEmailSchema = z.object({
@@ -30,6 +132,15 @@ export const ModifyEmailSchema = z.object({
 
 export const DeleteEmailSchema = z.object({
   messageId: z.string().describe("ID of the email message to delete"),
+  permanent: z.boolean().optional().default(false).describe("Delete permanently instead of moving to trash (cannot be undone)"),
+});
+
+export const TrashEmailSchema = z.object({
+  messageId: z.string().describe("ID of the email message to move to trash"),
+});
+
+export const UntrashEmailSchema = z.object({
+  messageId: z.string().describe("ID of the email message to restore from trash"),
 });
 
 export const ListEmailLabelsSchema = z.object({}).describe("Retrieves all available Gmail labels");
@@ -75,35 +186,324 @@ export const GetOrCreateLabelSchema = z
   .describe("Gets an existing label by name or creates it if it doesn't exist");
 
 export const BatchModifyEmailsSchema = z.object({
-  messageIds: z.array(z.string()).describe("List of message IDs to modify"),
+  messageIds: z.array(z.string()).optional().describe("List of message IDs to modify (use this OR query)"),
+  query: z.string().optional().describe("Gmail search query; every matching message is modified (use this OR messageIds)"),
   addLabelIds: z.array(z.string()).optional().describe("List of label IDs to add to all messages"),
   removeLabelIds: z.array(z.string()).optional().describe("List of label IDs to remove from all messages"),
-  batchSize: z.number().optional().default(50).describe("Number of messages to process in each batch (default: 50)"),
+  batchSize: z.number().min(1).max(1000).optional().default(1000).describe("Number of messages per API call (max and default: 1000)"),
 });
 
 export const BatchDeleteEmailsSchema = z.object({
-  messageIds: z.array(z.string()).describe("List of message IDs to delete"),
-  batchSize: z.number().optional().default(50).describe("Number of messages to process in each batch (default: 50)"),
+  messageIds: z.array(z.string()).optional().describe("List of message IDs to delete (use this OR query)"),
+  query: z.string().optional().describe("Gmail search query; every matching message is deleted (use this OR messageIds)"),
+  batchSize: z.number().min(1).max(1000).optional().default(1000).describe("Number of messages per API call (max and default: 1000)"),
+  permanent: z.boolean().optional().default(false).describe("Delete permanently instead of moving to trash (cannot be undone)"),
 });
 
-export function createEmailMessage(args: any): string {
-  const headers = [`To: ${args.to.join(", ")}`, `Subject: ${args.subject}`];
+export const BatchTrashEmailsSchema = z.object({
+  messageIds: z.array(z.string()).optional().describe("List of message IDs to move to trash (use this OR query)"),
+  query: z.string().optional().describe("Gmail search query; every matching message is moved to trash (use this OR messageIds)"),
+  batchSize: z.number().min(1).max(1000).optional().default(1000).describe("Number of messages per API call (max and default: 1000)"),
+});
 
-  if (args.cc && args.cc.length > 0) {
-    headers.push(`Cc: ${args.cc.join(", ")}`);
-  }
+export const FilterCriteriaSchema = z.object({
+  from: z.string().optional().describe("Sender's display name or email address"),
+  to: z.string().optional().describe("Recipient's display name or email address (To, Cc or Bcc)"),
+  subject: z.string().optional().describe("Case-insensitive phrase in the subject"),
+  query: z.string().optional().describe("Messages matching this Gmail search query"),
+  negatedQuery: z.string().optional().describe("Messages not matching this Gmail search query"),
+  hasAttachment: z.boolean().optional().describe("Only messages with attachments"),
+  excludeChats: z.boolean().optional().describe("Exclude chat messages"),
+  size: z.number().optional().describe("Message size in bytes, compared using sizeComparison"),
+  sizeComparison: z.enum(["larger", "smaller"]).optional().describe("How size is compared"),
+});
 
-  if (args.bcc && args.bcc.length > 0) {
-    headers.push(`Bcc: ${args.bcc.join(", ")}`);
-  }
+export const FilterActionSchema = z.object({
+  addLabelIds: z.array(z.string()).optional().describe("Label IDs to apply (e.g. a user label, STARRED, IMPORTANT)"),
+  removeLabelIds: z.array(z.string()).optional().describe("Label IDs to remove (e.g. INBOX to skip the inbox, UNREAD to mark read)"),
+  forward: z.string().optional().describe("Verified forwarding address to forward matching messages to"),
+});
 
-  if (args.inReplyTo) {
-    headers.push(`In-Reply-To: ${args.inReplyTo}`);
-  }
+export const ListFiltersSchema = z.object({});
 
-  const contentType = args.mimeType || "text/plain";
-  headers.push(`Content-Type: ${contentType}; charset=utf-8`);
+export const CreateFilterSchema = z.object({
+  criteria: FilterCriteriaSchema.describe("Which incoming messages the filter matches"),
+  action: FilterActionSchema.describe("What happens to matching messages"),
+});
+
+export const DeleteFilterSchema = z.object({
+  filterId: z.string().describe("ID of the filter to delete"),
+});
+
+export const CreateFilterFromSearchSchema = z.object({
+  query: z.string().describe("Gmail search query, as used with search_emails"),
+  action: FilterActionSchema.describe("What happens to matching messages"),
+  applyToExisting: z
+    .boolean()
+    .optional()
+    .default(true)
+    .describe("Also apply the label changes to messages already matching the query (forwarding only applies to new mail)"),
+});
+
+export const ListSubscriptionsSchema = z.object({
+  query: z
+    .string()
+    .optional()
+    .default("newer_than:90d")
+    .describe("Gmail search query selecting the messages to scan (default: the last 90 days)"),
+  maxMessages: z.number().min(1).max(500).optional().default(200).describe("Maximum number of messages to scan (max 500)"),
+});
+
+export const UnsubscribeSchema = z.object({
+  messageId: z.string().describe("ID of a message from the sender carrying a List-Unsubscribe header (see list_subscriptions)"),
+  method: z
+    .enum(["auto", "one-click", "mailto"])
+    .optional()
+    .default("auto")
+    .describe("auto prefers RFC 8058 one-click and falls back to emailing the unsubscribe address"),
+  archive: z.boolean().optional().default(false).describe("Also archive every message from this sender still in the inbox"),
+});
 
-  const body = args.htmlBody || args.body;
-  return headers.join("\r\n") + "\r\n\r\n" + body;
-}
+export const GetVacationResponderSchema = z.object({});
+
+export const UpdateVacationResponderSchema = z.object({
+  enableAutoReply: z.boolean().describe("Turn the out-of-office auto-reply on or off"),
+  responseSubject: z.string().optional().describe("Subject of the auto-reply"),
+  responseBodyPlainText: z.string().optional().describe("Plain text body of the auto-reply"),
+  responseBodyHtml: z.string().optional().describe("HTML body of the auto-reply (takes precedence over plain text)"),
+  restrictToContacts: z.boolean().optional().describe("Only reply to senders in your contacts"),
+  restrictToDomain: z.boolean().optional().describe("Only reply to senders in your Google Workspace domain"),
+  startTime: z.string().optional().describe("When auto-replies start (ISO 8601)"),
+  endTime: z.string().optional().describe("When auto-replies stop (ISO 8601)"),
+});
+
+export const ListSendAsAliasesSchema = z.object({});
+
+export const GetSignatureSchema = z.object({
+  sendAsEmail: z.string().optional().describe("Send-as address whose signature to read (defaults to the primary address)"),
+});
+
+export const UpdateSignatureSchema = z.object({
+  sendAsEmail: z.string().optional().describe("Send-as address whose signature to update (defaults to the primary address)"),
+  signature: z.string().describe("New signature as HTML; an empty string removes it"),
+});
+
+// ── Output Schemas ─────────────────────────────────────────────────────
+
+export const SentMessageOutputSchema = z.object({
+  id: z.string().describe("ID of the sent message"),
+  threadId: z.string().describe("Thread the message belongs to"),
+  labelIds: z.array(z.string()).describe("Labels applied to the message"),
+});
+
+export const DraftOutputSchema = z.object({
+  draftId: z.string().describe("ID of the draft"),
+  messageId: z.string().describe("ID of the draft's message"),
+  threadId: z.string().describe("Thread the draft belongs to"),
+});
+
+export const AttachmentInfoSchema = z.object({
+  id: z.string().describe("Attachment ID"),
+  partId: z.string().describe("MIME part holding the attachment; unlike the attachment ID, stable across fetches"),
+  filename: z.string(),
+  mimeType: z.string(),
+  size: z.number().describe("Size in bytes"),
+});
+
+export const ListDraftsOutputSchema = z.object({
+  drafts: z.array(
+    DraftOutputSchema.extend({
+      subject: z.string(),
+      to: z.string(),
+      snippet: z.string(),
+    }),
+  ),
+  nextCursor: NextCursorSchema,
+});
+
+export const DraftDetailOutputSchema = DraftOutputSchema.extend({
+  subject: z.string(),
+  to: z.string(),
+  cc: z.string(),
+  bcc: z.string(),
+  body: z.string(),
+  bodyFormat: z.enum(["text", "html"]),
+  attachments: z.array(AttachmentInfoSchema),
+});
+
+export const DeleteDraftOutputSchema = z.object({
+  draftId: z.string(),
+  deleted: z.boolean(),
+});
+
+export const ReadEmailOutputSchema = z.object({
+  id: z.string(),
+  threadId: z.string(),
+  subject: z.string(),
+  from: z.string(),
+  to: z.string(),
+  date: z.string(),
+  body: z.string(),
+  bodyFormat: z
+    .enum(["text", "markdown", "html"])
+    .describe("Format of body, which may differ from the requested one when that part does not exist"),
+  attachments: z.array(AttachmentInfoSchema),
+  headers: z
+    .array(z.object({ name: z.string(), value: z.string() }))
+    .optional()
+    .describe("Every header in message order, for the headers format"),
+});
+
+export const ThreadOutputSchema = z.object({
+  threadId: z.string(),
+  messages: z.array(
+    ReadEmailOutputSchema.omit({ threadId: true, headers: true }).extend({
+      cc: z.string(),
+    }),
+  ),
+});
+
+export const EmailAttachmentOutputSchema = z.object({
+  messageId: z.string(),
+  attachmentId: z.string(),
+  filename: z.string(),
+  mimeType: z.string(),
+  size: z.number().describe("Size in bytes"),
+  text: z.string().optional().describe("Decoded content, for text attachments"),
+  resourceUri: z.string().optional().describe("URI of the embedded resource holding binary content"),
+  driveFile: z
+    .object({ id: z.string(), name: z.string().nullish(), webViewLink: z.string().nullish() })
+    .optional()
+    .describe("The Drive file created when saveToDrive is set"),
+});
+
+export const SearchEmailsOutputSchema = z.object({
+  messages: z.array(
+    z.object({
+      id: z.string(),
+      threadId: z.string(),
+      subject: z.string(),
+      from: z.string(),
+      to: z.string(),
+      cc: z.string(),
+      date: z.string(),
+      snippet: z.string(),
+      labelIds: z.array(z.string()),
+      unread: z.boolean(),
+      starred: z.boolean(),
+      hasAttachments: z.boolean().describe("Whether the message is multipart/mixed, i.e. carries attachments"),
+    }),
+  ),
+  nextCursor: NextCursorSchema,
+});
+
+export const ModifyEmailOutputSchema = z.object({
+  messageId: z.string(),
+  labelIds: z.array(z.string()).describe("Labels on the message after the change"),
+});
+
+export const DeleteEmailOutputSchema = z.object({
+  messageId: z.string(),
+  deleted: z.boolean(),
+  permanent: z.boolean().describe("False when the message was moved to trash and can still be restored"),
+});
+
+export const LabelOutputSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  type: z.string().nullish().describe("'system' or 'user'"),
+  messageListVisibility: z.string().nullish(),
+  labelListVisibility: z.string().nullish(),
+});
+
+export const ListEmailLabelsOutputSchema = z.object({
+  labels: z.array(LabelOutputSchema),
+});
+
+export const GetOrCreateLabelOutputSchema = LabelOutputSchema.extend({
+  created: z.boolean().describe("Whether the label was created by this call"),
+});
+
+export const DeleteLabelOutputSchema = z.object({
+  id: z.string(),
+  deleted: z.boolean(),
+});
+
+export const BatchOperationOutputSchema = z.object({
+  matched: z.number().optional().describe("Number of messages matching the query, for query-driven batches"),
+  succeeded: z.number().describe("Number of messages processed successfully"),
+  failed: z.array(z.object({ id: z.string(), error: z.string() })),
+});
+
+export const VacationResponderOutputSchema = z.object({
+  enableAutoReply: z.boolean(),
+  responseSubject: z.string().nullish(),
+  responseBodyPlainText: z.string().nullish(),
+  responseBodyHtml: z.string().nullish(),
+  restrictToContacts: z.boolean().nullish(),
+  restrictToDomain: z.boolean().nullish(),
+  startTime: z.string().nullish().describe("ISO 8601"),
+  endTime: z.string().nullish().describe("ISO 8601"),
+});
+
+export const SendAsAliasOutputSchema = z.object({
+  sendAsEmail: z.string(),
+  displayName: z.string().nullish(),
+  isPrimary: z.boolean(),
+  isDefault: z.boolean(),
+  verificationStatus: z.string().nullish().describe("Only accepted aliases can be sent from"),
+  signature: z.string().nullish().describe("HTML signature"),
+});
+
+export const ListSendAsAliasesOutputSchema = z.object({
+  aliases: z.array(SendAsAliasOutputSchema),
+});
+
+export const SignatureOutputSchema = z.object({
+  sendAsEmail: z.string(),
+  signature: z.string(),
+});
+
+export const FilterOutputSchema = z.object({
+  id: z.string(),
+  criteria: FilterCriteriaSchema,
+  action: FilterActionSchema,
+});
+
+export const ListFiltersOutputSchema = z.object({
+  filters: z.array(FilterOutputSchema),
+});
+
+export const DeleteFilterOutputSchema = z.object({
+  filterId: z.string(),
+  deleted: z.boolean(),
+});
+
+export const FilterFromSearchOutputSchema = z.object({
+  filter: FilterOutputSchema,
+  existingMessages: BatchOperationOutputSchema.optional().describe("Result of applying the label changes to existing matches"),
+});
+
+export const ListSubscriptionsOutputSchema = z.object({
+  scanned: z.number().describe("Number of messages scanned"),
+  senders: z.array(
+    z.object({
+      sender: z.string().describe("Sender address"),
+      name: z.string().describe("From header of the most recent message"),
+      messageCount: z.number().describe("Scanned messages from this sender"),
+      latestMessageId: z.string().describe("Pass to unsubscribe"),
+      latestDate: z.string(),
+      oneClick: z.boolean().describe("Whether the sender supports RFC 8058 one-click unsubscribe"),
+      unsubscribeUrl: z.string().nullable(),
+      unsubscribeMailto: z.string().nullable(),
+    }),
+  ),
+});
+
+export const UnsubscribeOutputSchema = z.object({
+  sender: z.string(),
+  method: z.enum(["one-click", "mailto", "manual"]).describe("manual when the sender only offers a web page to visit"),
+  unsubscribed: z.boolean().describe("Whether the unsubscribe request was sent; false for manual"),
+  url: z.string().nullable().describe("The unsubscribe page, for manual"),
+  archived: BatchOperationOutputSchema.optional().describe("Result of archiving the sender's messages"),
+});
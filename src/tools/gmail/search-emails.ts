@@ -1,39 +1,56 @@
 import { z } from "zod";
 import { GmailTool } from "./types";
+import { structuredResult } from "../result";
 import { SearchEmailsSchema } from "./schemas";
+import { paginate } from "../pagination";
+import { DEFAULT_CONCURRENCY, mapWithConcurrency } from "../concurrency";
 
-export const searchEmails: GmailTool<z.infer<typeof SearchEmailsSchema>> = async ({ gmail }, args) => {
-  const response = await gmail.users.messages.list({
-    userId: "me",
-    q: args.query,
-    maxResults: args.maxResults || 10,
-  });
+// Every result costs a messages.get call, so one search returns at most this many; `nextCursor` pages the rest
+const SEARCH_RESULTS_LIMIT = 100;
 
-  const messages = response.data.messages || [];
-  const results = await Promise.all(
-    messages.map(async (msg) => {
-      const detail = await gmail.users.messages.get({
+export const searchEmails: GmailTool<z.infer<typeof SearchEmailsSchema>> = async ({ gmail }, args) => {
+  const { items: messages, nextCursor } = await paginate(
+    args,
+    Math.min(args.maxResults || 10, SEARCH_RESULTS_LIMIT),
+    async (cursor, limit) => {
+      const response = await gmail.users.messages.list({
         userId: "me",
-        id: msg.id!,
-        format: "metadata",
-        metadataHeaders: ["Subject", "From", "Date"],
+        q: args.query,
+        maxResults: limit,
+        pageToken: cursor,
       });
-      const headers = detail.data.payload?.headers || [];
-      return {
-        id: msg.id,
-        subject: headers.find((h) => h.name === "Subject")?.value || "",
-        from: headers.find((h) => h.name === "From")?.value || "",
-        date: headers.find((h) => h.name === "Date")?.value || "",
-      };
-    }),
+      return { items: response.data.messages || [], nextCursor: response.data.nextPageToken };
+    },
+    SEARCH_RESULTS_LIMIT,
   );
 
-  return {
-    content: [
-      {
-        type: "text" as const,
-        text: JSON.stringify(results),
-      },
-    ],
-  };
+  const results = await mapWithConcurrency(messages, DEFAULT_CONCURRENCY, async (msg) => {
+    const detail = await gmail.users.messages.get({
+      userId: "me",
+      id: msg.id!,
+      format: "metadata",
+      metadataHeaders: ["Subject", "From", "To", "Cc", "Date", "Content-Type"],
+    });
+    const headers = detail.data.payload?.headers || [];
+    const header = (name: string) => headers.find((h) => h.name?.toLowerCase() === name.toLowerCase())?.value || "";
+    const labelIds = detail.data.labelIds || [];
+
+    return {
+      id: msg.id!,
+      threadId: detail.data.threadId || "",
+      subject: header("Subject"),
+      from: header("From"),
+      to: header("To"),
+      cc: header("Cc"),
+      date: header("Date"),
+      snippet: detail.data.snippet || "",
+      labelIds,
+      unread: labelIds.includes("UNREAD"),
+      starred: labelIds.includes("STARRED"),
+      // Metadata responses omit the MIME parts; messages with attachments are multipart/mixed
+      hasAttachments: /^multipart\/mixed/i.test(detail.data.payload?.mimeType || header("Content-Type")),
+    };
+  });
+
+  return structuredResult({ messages: results, nextCursor });
 };
@@ -1,25 +1,49 @@
 import { z } from "zod";
 import { GmailTool } from "./types";
-import { createEmailMessage, SendEmailSchema } from "./schemas";
+import { structuredResult } from "../result";
+import { SendEmailSchema } from "./schemas";
+import { resolveAttachments } from "./attachments";
+import { resolveFromAlias } from "./settings";
+import { composeMessage, encodeRawMessage, MimeAttachment } from "./mime";
 
-export const sendEmail: GmailTool<z.infer<typeof SendEmailSchema>> = async ({ gmail }, args) => {
-  const message = createEmailMessage(args);
-  const encodedMessage = Buffer.from(message).toString("base64").replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+/**
+ * Builds the raw message for send_email/draft_email arguments. `from` must already be
+ * validated with resolveFromAlias.
+ */
+export function composeEmail(args: z.infer<typeof SendEmailSchema>, attachments: MimeAttachment[], from?: string): string {
+  // Without htmlBody, mimeType text/html means the body itself is HTML
+  const bodyIsHtml = args.mimeType === "text/html" && !args.htmlBody;
+
+  return composeMessage({
+    from,
+    to: args.to,
+    cc: args.cc,
+    bcc: args.bcc,
+    subject: args.subject,
+    text: bodyIsHtml ? undefined : args.body,
+    html: bodyIsHtml ? args.body : args.htmlBody,
+    inReplyTo: args.inReplyTo,
+    references: args.references,
+    attachments,
+  });
+}
+
+export const sendEmail: GmailTool<z.infer<typeof SendEmailSchema>> = async (ctx, args, linked) => {
+  const { gmail } = ctx;
+  const from = args.from ? await resolveFromAlias(gmail, args.from) : undefined;
+  const attachments = await resolveAttachments(ctx, linked, args.attachments);
 
   const result = await gmail.users.messages.send({
     userId: "me",
     requestBody: {
-      raw: encodedMessage,
+      raw: encodeRawMessage(composeEmail(args, attachments, from)),
       ...(args.threadId && { threadId: args.threadId }),
     },
   });
 
-  return {
-    content: [
-      {
-        type: "text" as const,
-        text: JSON.stringify(result.data),
-      },
-    ],
-  };
+  return structuredResult({
+    id: result.data.id || "",
+    threadId: result.data.threadId || "",
+    labelIds: result.data.labelIds || [],
+  });
 };
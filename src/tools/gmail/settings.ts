@@ -0,0 +1,135 @@
+import { z } from "zod";
+import { gmail_v1 } from "googleapis";
+import { GmailTool } from "./types";
+import {
+  GetSignatureSchema,
+  GetVacationResponderSchema,
+  ListSendAsAliasesSchema,
+  UpdateSignatureSchema,
+  UpdateVacationResponderSchema,
+} from "./schemas";
+import { errorResult, structuredResult } from "../result";
+
+function toVacationOutput(vacation: gmail_v1.Schema$VacationSettings) {
+  // Gmail stores the window as epoch milliseconds
+  const toIso = (ms?: string | null) => (ms ? new Date(Number(ms)).toISOString() : null);
+  return {
+    enableAutoReply: !!vacation.enableAutoReply,
+    responseSubject: vacation.responseSubject,
+    responseBodyPlainText: vacation.responseBodyPlainText,
+    responseBodyHtml: vacation.responseBodyHtml,
+    restrictToContacts: vacation.restrictToContacts,
+    restrictToDomain: vacation.restrictToDomain,
+    startTime: toIso(vacation.startTime),
+    endTime: toIso(vacation.endTime),
+  };
+}
+
+function toAliasOutput(alias: gmail_v1.Schema$SendAs) {
+  return {
+    sendAsEmail: alias.sendAsEmail || "",
+    displayName: alias.displayName,
+    isPrimary: !!alias.isPrimary,
+    isDefault: !!alias.isDefault,
+    verificationStatus: alias.verificationStatus,
+    signature: alias.signature,
+  };
+}
+
+async function listAliases(gmail: gmail_v1.Gmail) {
+  const response = await gmail.users.settings.sendAs.list({ userId: "me" });
+  return (response.data.sendAs || []).map(toAliasOutput);
+}
+
+async function findAlias(gmail: gmail_v1.Gmail, sendAsEmail?: string) {
+  const aliases = await listAliases(gmail);
+  return sendAsEmail
+    ? aliases.find((alias) => alias.sendAsEmail.toLowerCase() === sendAsEmail.toLowerCase())
+    : aliases.find((alias) => alias.isPrimary);
+}
+
+/**
+ * Validates a `from` address against the account's send-as aliases and returns it as a
+ * From header value with the alias's display name. Throws when it is not a usable alias.
+ */
+export async function resolveFromAlias(gmail: gmail_v1.Gmail, from: string): Promise<string> {
+  const address = (/<([^<>]+)>/.exec(from)?.[1] ?? from).trim();
+  const aliases = await listAliases(gmail);
+  // The primary address never needs verification
+  const usable = aliases.filter((alias) => alias.isPrimary || alias.verificationStatus === "accepted");
+
+  const alias = usable.find((candidate) => candidate.sendAsEmail.toLowerCase() === address.toLowerCase());
+  if (!alias) {
+    throw new Error(`${address} is not a verified send-as alias. Available: ${usable.map((a) => a.sendAsEmail).join(", ")}`);
+  }
+  return alias.displayName ? `${alias.displayName} <${alias.sendAsEmail}>` : alias.sendAsEmail;
+}
+
+export const getVacationResponder: GmailTool<z.infer<typeof GetVacationResponderSchema>> = async ({ gmail }) => {
+  const response = await gmail.users.settings.getVacation({ userId: "me" });
+  return structuredResult(toVacationOutput(response.data));
+};
+
+export const updateVacationResponder: GmailTool<z.infer<typeof UpdateVacationResponderSchema>> = async ({ gmail }, args) => {
+  const toMs = (iso?: string) => {
+    if (!iso) return undefined;
+    const ms = Date.parse(iso);
+    if (Number.isNaN(ms)) throw new Error(`Invalid date: ${iso}`);
+    return String(ms);
+  };
+
+  const response = await gmail.users.settings.updateVacation({
+    userId: "me",
+    requestBody: {
+      enableAutoReply: args.enableAutoReply,
+      responseSubject: args.responseSubject,
+      responseBodyPlainText: args.responseBodyPlainText,
+      responseBodyHtml: args.responseBodyHtml,
+      restrictToContacts: args.restrictToContacts,
+      restrictToDomain: args.restrictToDomain,
+      startTime: toMs(args.startTime),
+      endTime: toMs(args.endTime),
+    },
+  });
+
+  const vacation = toVacationOutput(response.data);
+  return structuredResult(vacation, vacation.enableAutoReply ? "Vacation responder enabled" : "Vacation responder disabled");
+};
+
+export const listSendAsAliases: GmailTool<z.infer<typeof ListSendAsAliasesSchema>> = async ({ gmail }) => {
+  const aliases = await listAliases(gmail);
+  return structuredResult(
+    { aliases },
+    aliases
+      .map(
+        (alias) =>
+          `${alias.displayName ? `${alias.displayName} <${alias.sendAsEmail}>` : alias.sendAsEmail}` +
+          `${alias.isPrimary ? " (primary)" : ""}${alias.isDefault ? " (default)" : ""}` +
+          `${alias.verificationStatus && alias.verificationStatus !== "accepted" ? ` [${alias.verificationStatus}]` : ""}`,
+      )
+      .join("\n"),
+  );
+};
+
+export const getSignature: GmailTool<z.infer<typeof GetSignatureSchema>> = async ({ gmail }, args) => {
+  const alias = await findAlias(gmail, args.sendAsEmail);
+  if (!alias) return errorResult(`No send-as alias found for ${args.sendAsEmail}`);
+
+  return structuredResult({ sendAsEmail: alias.sendAsEmail, signature: alias.signature || "" }, alias.signature || "(no signature)");
+};
+
+export const updateSignature: GmailTool<z.infer<typeof UpdateSignatureSchema>> = async ({ gmail }, args) => {
+  const alias = await findAlias(gmail, args.sendAsEmail);
+  if (!alias) return errorResult(`No send-as alias found for ${args.sendAsEmail}`);
+
+  const response = await gmail.users.settings.sendAs.patch({
+    userId: "me",
+    sendAsEmail: alias.sendAsEmail,
+    requestBody: { signature: args.signature },
+  });
+
+  return structuredResult(
+    { sendAsEmail: alias.sendAsEmail, signature: response.data.signature || "" },
+    `Signature updated for ${alias.sendAsEmail}`,
+  );
+};
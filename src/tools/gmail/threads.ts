@@ -0,0 +1,155 @@
+import { z } from "zod";
+import { GmailTool } from "./types";
+import { GmailContext } from "./context";
+import { structuredResult } from "../result";
+import { ForwardEmailSchema, ReadThreadSchema, ReplyToEmailSchema } from "./schemas";
+import { formatBody, parseMessage } from "./read-email";
+import { resolveAttachments } from "./attachments";
+import { composeMessage, emailAddressOf, encodeRawMessage, escapeHtml, parseAddressList } from "./mime";
+
+function withPrefix(prefix: string, subject: string) {
+  return new RegExp(`^${prefix}\\s`, "i").test(subject) ? subject : `${prefix} ${subject}`;
+}
+
+async function getMessage({ gmail }: GmailContext, messageId: string) {
+  const response = await gmail.users.messages.get({ userId: "me", id: messageId, format: "full" });
+  return parseMessage(response.data);
+}
+
+export const readThread: GmailTool<z.infer<typeof ReadThreadSchema>> = async ({ gmail }, args) => {
+  const response = await gmail.users.threads.get({ userId: "me", id: args.threadId, format: "full" });
+
+  // Gmail returns thread messages oldest first
+  const messages = (response.data.messages || []).map(parseMessage).map((message) => ({
+    id: message.id,
+    subject: message.subject,
+    from: message.from,
+    to: message.to,
+    cc: message.cc,
+    date: message.date,
+    ...formatBody(message, args.format, args.collapseQuotedText),
+    attachments: message.attachments,
+  }));
+
+  const text = messages
+    .map(
+      (message, index) =>
+        `[${index + 1}/${messages.length}] ID: ${message.id}\nFrom: ${message.from}\nTo: ${message.to}${message.cc ? `\nCc: ${message.cc}` : ""}\nDate: ${message.date}\nSubject: ${message.subject}\n\n${message.body}` +
+        (message.attachments.length ? `\n\nAttachments: ${message.attachments.map((a) => `${a.filename} (ID: ${a.id})`).join(", ")}` : ""),
+    )
+    .join("\n\n---\n\n");
+
+  return structuredResult({ threadId: args.threadId, messages }, text);
+};
+
+export const replyToEmail: GmailTool<z.infer<typeof ReplyToEmailSchema>> = async (ctx, args, linked) => {
+  const { gmail } = ctx;
+  const [original, profile] = await Promise.all([getMessage(ctx, args.messageId), gmail.users.getProfile({ userId: "me" })]);
+  const me = profile.data.emailAddress?.toLowerCase();
+
+  // Replying to one of our own messages goes back to its recipients
+  const fromMe = emailAddressOf(original.from) === me;
+  const to = fromMe ? parseAddressList(original.to) : parseAddressList(original.replyTo || original.from);
+
+  const seen = new Set([me, ...to.map(emailAddressOf)]);
+  const cc: string[] = [];
+  const candidates = [...(args.replyAll ? [...parseAddressList(original.to), ...parseAddressList(original.cc)] : []), ...(args.cc || [])];
+  for (const entry of candidates) {
+    const address = emailAddressOf(entry);
+    if (seen.has(address)) continue;
+    seen.add(address);
+    cc.push(entry);
+  }
+
+  let text = args.body;
+  let html = args.htmlBody;
+  if (args.quoteOriginal) {
+    const attribution = `On ${original.date}, ${original.from} wrote:`;
+    if (original.text) {
+      text += `\n\n${attribution}\n${original.text
+        .split(/\r?\n/)
+        .map((line) => `> ${line}`)
+        .join("\n")}`;
+    }
+    if (html !== undefined && original.html) {
+      html += `<div class="gmail_quote"><div>${escapeHtml(attribution)}</div><blockquote style="margin:0 0 0 .8ex;border-left:1px solid #ccc;padding-left:1ex">${original.html}</blockquote></div>`;
+    }
+  }
+
+  const references = [...original.references.split(/\s+/).filter(Boolean), ...(original.messageIdHeader ? [original.messageIdHeader] : [])];
+  const message = composeMessage({
+    to,
+    cc,
+    subject: withPrefix("Re:", original.subject),
+    text,
+    html,
+    inReplyTo: original.messageIdHeader || undefined,
+    references,
+    attachments: await resolveAttachments(ctx, linked, args.attachments),
+  });
+
+  const result = await gmail.users.messages.send({
+    userId: "me",
+    requestBody: { raw: encodeRawMessage(message), threadId: original.threadId },
+  });
+
+  return structuredResult({
+    id: result.data.id || "",
+    threadId: result.data.threadId || "",
+    labelIds: result.data.labelIds || [],
+  });
+};
+
+export const forwardEmail: GmailTool<z.infer<typeof ForwardEmailSchema>> = async (ctx, args, linked) => {
+  const { gmail } = ctx;
+  const original = await getMessage(ctx, args.messageId);
+
+  const headerLines = [
+    "---------- Forwarded message ---------",
+    `From: ${original.from}`,
+    `Date: ${original.date}`,
+    `Subject: ${original.subject}`,
+    `To: ${original.to}`,
+    ...(original.cc ? [`Cc: ${original.cc}`] : []),
+  ];
+  const note = args.body ? `${args.body}\n\n` : "";
+
+  const text = original.text || !original.html ? `${note}${headerLines.join("\n")}\n\n${original.text}` : undefined;
+  const html = original.html
+    ? `${args.body ? `<div>${escapeHtml(args.body).replace(/\n/g, "<br>")}</div><br>` : ""}<div class="gmail_quote">${headerLines.map(escapeHtml).join("<br>")}<br><br>${original.html}</div>`
+    : undefined;
+
+  const attachments = args.includeAttachments
+    ? await resolveAttachments(
+        ctx,
+        linked,
+        original.attachments.map((attachment) => ({
+          messageId: original.id,
+          attachmentId: attachment.id,
+          filename: attachment.filename,
+          mimeType: attachment.mimeType,
+        })),
+      )
+    : [];
+
+  const message = composeMessage({
+    to: args.to,
+    cc: args.cc,
+    bcc: args.bcc,
+    subject: withPrefix("Fwd:", original.subject),
+    text,
+    html,
+    attachments,
+  });
+
+  const result = await gmail.users.messages.send({
+    userId: "me",
+    requestBody: { raw: encodeRawMessage(message) },
+  });
+
+  return structuredResult({
+    id: result.data.id || "",
+    threadId: result.data.threadId || "",
+    labelIds: result.data.labelIds || [],
+  });
+};
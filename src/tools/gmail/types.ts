@@ -1,8 +1,6 @@
+import type { ActionPreview, LinkedContexts, ToolResult } from "../../providers/types";
 import { GmailContext } from "./context";
 
-export type GmailTool<T> = (
-  ctx: GmailContext,
-  args: T,
-) => Promise<{
-  content: { type: "text"; text: string }[];
-}>;
+export type GmailTool<T> = (ctx: GmailContext, args: T, linked: LinkedContexts) => Promise<ToolResult>;
+
+export type GmailPreview<T> = (ctx: GmailContext, args: T) => Promise<ActionPreview>;
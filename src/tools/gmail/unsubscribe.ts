@@ -0,0 +1,216 @@
+import { z } from "zod";
+import { gmail_v1 } from "googleapis";
+import { GmailPreview, GmailTool } from "./types";
+import { ListSubscriptionsSchema, UnsubscribeSchema } from "./schemas";
+import { errorResult, structuredResult } from "../result";
+import { DEFAULT_CONCURRENCY, mapWithConcurrency } from "../concurrency";
+import { composeMessage, emailAddressOf, encodeRawMessage, isValidEmail } from "./mime";
+import { batchModifyEmails } from "./batch";
+import { fetchPublicUrl } from "../public-url";
+
+// How long a sender's one-click endpoint gets to answer
+const ONE_CLICK_TIMEOUT_MS = 15000;
+
+interface UnsubscribeInfo {
+  messageId: string;
+  from: string;
+  sender: string;
+  date: string;
+  url: string | null;
+  mailto: string | null;
+  oneClick: boolean;
+}
+
+/**
+ * Recipient, subject and body of a mailto: URI (RFC 6068), e.g.
+ * mailto:list@example.com?subject=unsubscribe. The header comes from the sender, so
+ * anything but a single valid address is treated as no mailto option at all.
+ */
+function parseMailto(uri: string) {
+  let url: URL;
+  let to: string;
+  try {
+    url = new URL(uri);
+    to = decodeURIComponent(url.pathname).trim();
+  } catch {
+    return null;
+  }
+  if (!isValidEmail(to)) return null;
+
+  const field = (name: string) => (url.searchParams.get(name) || "unsubscribe").replace(/[\r\n]+/g, " ");
+  return { to, subject: field("subject"), body: field("body") };
+}
+
+/**
+ * Reads the unsubscribe options a message advertises. List-Unsubscribe holds one or more
+ * <uri> entries (RFC 2369); one-click additionally needs an https URI and
+ * "List-Unsubscribe-Post: List-Unsubscribe=One-Click" (RFC 8058).
+ */
+function toUnsubscribeInfo(message: gmail_v1.Schema$Message): UnsubscribeInfo {
+  const headers = message.payload?.headers || [];
+  const header = (name: string) => headers.find((h) => h.name?.toLowerCase() === name.toLowerCase())?.value || "";
+
+  const uris = [...header("List-Unsubscribe").matchAll(/<([^<>]+)>/g)].map((match) => match[1].trim());
+  const url = uris.find((uri) => /^https?:\/\//i.test(uri)) ?? null;
+  const mailto = uris.find((uri) => /^mailto:/i.test(uri) && parseMailto(uri)) ?? null;
+
+  return {
+    messageId: message.id || "",
+    from: header("From"),
+    sender: emailAddressOf(header("From")),
+    date: header("Date"),
+    url,
+    mailto,
+    oneClick: !!url?.startsWith("https://") && /List-Unsubscribe=One-Click/i.test(header("List-Unsubscribe-Post")),
+  };
+}
+
+async function getUnsubscribeInfo(gmail: gmail_v1.Gmail, messageId: string) {
+  const response = await gmail.users.messages.get({
+    userId: "me",
+    id: messageId,
+    format: "metadata",
+    metadataHeaders: ["From", "Date", "List-Unsubscribe", "List-Unsubscribe-Post"],
+  });
+  return toUnsubscribeInfo(response.data);
+}
+
+/**
+ * The method an unsubscribe request will use, or an error message when the requested one
+ * is not offered. Senders that only link to a web page fall back to "manual".
+ */
+function chooseMethod(
+  info: UnsubscribeInfo,
+  requested: z.infer<typeof UnsubscribeSchema>["method"],
+): { method: "one-click" | "mailto" | "manual" } | { error: string } {
+  if (!info.url && !info.mailto) {
+    return { error: `Message ${info.messageId} has no List-Unsubscribe header` };
+  }
+  if (requested === "one-click") {
+    return info.oneClick ? { method: "one-click" } : { error: `${info.sender} does not support one-click unsubscribe` };
+  }
+  if (requested === "mailto") {
+    return info.mailto ? { method: "mailto" } : { error: `${info.sender} does not offer an unsubscribe address` };
+  }
+  if (info.oneClick) return { method: "one-click" };
+  return info.mailto ? { method: "mailto" } : { method: "manual" };
+}
+
+export const listSubscriptions: GmailTool<z.infer<typeof ListSubscriptionsSchema>> = async ({ gmail }, args) => {
+  const list = await gmail.users.messages.list({ userId: "me", q: args.query, maxResults: args.maxMessages });
+  const messages = await mapWithConcurrency(list.data.messages || [], DEFAULT_CONCURRENCY, (message) =>
+    getUnsubscribeInfo(gmail, message.id!),
+  );
+
+  // Messages are listed newest first, so the first one seen per sender is its latest
+  const senders = new Map<string, { latest: UnsubscribeInfo; messageCount: number }>();
+  for (const message of messages) {
+    if (!message.url && !message.mailto) continue;
+    const entry = senders.get(message.sender);
+    if (entry) entry.messageCount++;
+    else senders.set(message.sender, { latest: message, messageCount: 1 });
+  }
+
+  const output = [...senders.values()]
+    .sort((a, b) => b.messageCount - a.messageCount)
+    .map(({ latest, messageCount }) => ({
+      sender: latest.sender,
+      name: latest.from,
+      messageCount,
+      latestMessageId: latest.messageId,
+      latestDate: latest.date,
+      oneClick: latest.oneClick,
+      unsubscribeUrl: latest.url,
+      unsubscribeMailto: latest.mailto,
+    }));
+
+  return structuredResult(
+    { scanned: messages.length, senders: output },
+    output.length
+      ? `Found ${output.length} senders with unsubscribe links in ${messages.length} messages:\n\n` +
+          output
+            .map((s) => `- ${s.name} (${s.messageCount} messages${s.oneClick ? ", one-click" : ""}) latest message: ${s.latestMessageId}`)
+            .join("\n")
+      : `No unsubscribe links found in ${messages.length} messages.`,
+  );
+};
+
+// The mailto method sends an email, and "auto" may pick it
+export const unsubscribeSendsEmail = (args: z.infer<typeof UnsubscribeSchema>) => args.method !== "one-click";
+
+function invalidSenderError(info: UnsubscribeInfo) {
+  return `Cannot archive messages from "${info.from}": the sender address is not a valid email address`;
+}
+
+export const previewUnsubscribe: GmailPreview<z.infer<typeof UnsubscribeSchema>> = async ({ gmail }, args) => {
+  const info = await getUnsubscribeInfo(gmail, args.messageId);
+  const choice = chooseMethod(info, args.method);
+  if ("error" in choice) throw new Error(choice.error);
+  if (args.archive && !isValidEmail(info.sender)) throw new Error(invalidSenderError(info));
+
+  const target = choice.method === "mailto" ? info.mailto : info.url;
+  return {
+    summary:
+      `Unsubscribe from ${info.sender} (${choice.method === "manual" ? "returns a page to visit" : choice.method})` +
+      (args.archive ? " and archive its messages in the inbox" : ""),
+    items: [{ messageId: info.messageId, from: info.from, method: choice.method, target }],
+  };
+};
+
+export const unsubscribe: GmailTool<z.infer<typeof UnsubscribeSchema>> = async (ctx, args, linked) => {
+  const { gmail } = ctx;
+  const info = await getUnsubscribeInfo(gmail, args.messageId);
+  const choice = chooseMethod(info, args.method);
+  if ("error" in choice) return errorResult(choice.error);
+  // The address goes into a search query, so anything unusual could widen what gets archived
+  if (args.archive && !isValidEmail(info.sender)) return errorResult(invalidSenderError(info));
+
+  if (choice.method === "one-click") {
+    const { response } = await fetchPublicUrl(
+      info.url!,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: "List-Unsubscribe=One-Click",
+        signal: AbortSignal.timeout(ONE_CLICK_TIMEOUT_MS),
+      },
+      "Unsubscribe URL",
+    );
+    if (!response.ok) {
+      return errorResult(`${info.sender} rejected the unsubscribe request: HTTP ${response.status}`, response.status);
+    }
+  } else if (choice.method === "mailto") {
+    const mailto = parseMailto(info.mailto!);
+    if (!mailto) return errorResult(`${info.sender} advertises an invalid unsubscribe address`);
+    await gmail.users.messages.send({
+      userId: "me",
+      requestBody: {
+        raw: encodeRawMessage(composeMessage({ to: [mailto.to], subject: mailto.subject, text: mailto.body })),
+      },
+    });
+  }
+
+  const archived = args.archive
+    ? (await batchModifyEmails(ctx, { query: `from:"${info.sender}" in:inbox`, removeLabelIds: ["INBOX"], batchSize: 1000 }, linked))
+        .structuredContent
+    : undefined;
+
+  const unsubscribed = choice.method !== "manual";
+  let text = unsubscribed
+    ? `Unsubscribed from ${info.sender} (${choice.method})`
+    : `${info.sender} only offers an unsubscribe page; open ${info.url} to finish`;
+  if (archived) {
+    text += `\nArchived ${(archived as { succeeded: number }).succeeded} messages from the inbox`;
+  }
+
+  return structuredResult(
+    {
+      sender: info.sender,
+      method: choice.method,
+      unsubscribed,
+      url: unsubscribed ? null : info.url,
+      ...(archived && { archived }),
+    },
+    text,
+  );
+};
@@ -1,6 +1,7 @@
 import { z } from "zod";
 import { CalendarTool } from "./types";
 import { CreateEventSchema } from "./schemas";
+import { structuredResult } from "../result";
 
 export const createEvent: CalendarTool<z.infer<typeof CreateEventSchema>> = async ({ calendar }, args) => {
   const event = {
@@ -24,23 +25,12 @@ export const createEvent: CalendarTool<z.infer<typeof CreateEventSchema>> = asyn
     sendUpdates: "all",
   });
 
-  return {
-    content: [
-      {
-        type: "text" as const,
-        text: JSON.stringify(
-          {
-            success: true,
-            eventId: response.data.id,
-            htmlLink: response.data.htmlLink,
-            summary: response.data.summary,
-            start: response.data.start,
-            end: response.data.end,
-          },
-          null,
-          2,
-        ),
-      },
-    ],
-  };
+  return structuredResult({
+    success: true,
+    eventId: response.data.id!,
+    htmlLink: response.data.htmlLink,
+    summary: response.data.summary,
+    start: response.data.start,
+    end: response.data.end,
+  });
 };
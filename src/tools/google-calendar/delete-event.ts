@@ -1,20 +1,43 @@
 import { z } from "zod";
-import { CalendarTool } from "./types";
+import { CalendarPreview, CalendarTool } from "./types";
 import { DeleteEventSchema } from "./schemas";
+import { structuredResult } from "../result";
 
-export const deleteEvent: CalendarTool<z.infer<typeof DeleteEventSchema>> = async ({ calendar }, args) => {
-  await calendar.events.delete({
+export const previewDeleteEvent: CalendarPreview<z.infer<typeof DeleteEventSchema>> = async ({ calendar }, args) => {
+  const res = await calendar.events.get({
     calendarId: args.calendarId,
     eventId: args.eventId,
-    sendUpdates: args.sendUpdates,
   });
+  const event = res.data;
+  const attendees = event.attendees?.length || 0;
+
+  let summary = "Delete 1 calendar event";
+  if (attendees && args.sendUpdates !== "none") {
+    summary += ` and send cancellations to ${args.sendUpdates === "externalOnly" ? "external" : "all"} attendees`;
+  }
 
   return {
-    content: [
+    summary,
+    items: [
       {
-        type: "text" as const,
-        text: `Event ${args.eventId} deleted successfully`,
+        id: event.id,
+        summary: event.summary,
+        start: event.start?.dateTime || event.start?.date,
+        end: event.end?.dateTime || event.end?.date,
+        organizer: event.organizer?.email,
+        attendees,
+        recurring: !!event.recurrence || !!event.recurringEventId,
       },
     ],
   };
 };
+
+export const deleteEvent: CalendarTool<z.infer<typeof DeleteEventSchema>> = async ({ calendar }, args) => {
+  await calendar.events.delete({
+    calendarId: args.calendarId,
+    eventId: args.eventId,
+    sendUpdates: args.sendUpdates,
+  });
+
+  return structuredResult({ eventId: args.eventId, deleted: true }, `Event ${args.eventId} deleted successfully`);
+};
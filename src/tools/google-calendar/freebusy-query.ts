@@ -1,6 +1,7 @@
 import { z } from "zod";
 import { CalendarTool } from "./types";
 import { FreeBusyQuerySchema } from "./schemas";
+import { structuredResult } from "../result";
 
 export const freeBusyQuery: CalendarTool<z.infer<typeof FreeBusyQuerySchema>> = async ({ calendar }, args) => {
   const response = await calendar.freebusy.query({
@@ -14,27 +15,17 @@ export const freeBusyQuery: CalendarTool<z.infer<typeof FreeBusyQuerySchema>> =
 
   const calendars = Object.entries(response.data.calendars || {}).map(([calendarId, data]) => ({
     calendarId,
-    busy: data.busy?.map((period) => ({
-      start: period.start,
-      end: period.end,
-    })),
+    busy:
+      data.busy?.map((period) => ({
+        start: period.start,
+        end: period.end,
+      })) || [],
     errors: data.errors,
   }));
 
-  return {
-    content: [
-      {
-        type: "text" as const,
-        text: JSON.stringify(
-          {
-            timeMin: args.timeMin,
-            timeMax: args.timeMax,
-            calendars,
-          },
-          null,
-          2,
-        ),
-      },
-    ],
-  };
+  return structuredResult({
+    timeMin: args.timeMin,
+    timeMax: args.timeMax,
+    calendars,
+  });
 };
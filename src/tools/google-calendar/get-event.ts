@@ -1,6 +1,7 @@
 import { z } from "zod";
 import { CalendarTool } from "./types";
 import { GetEventSchema } from "./schemas";
+import { structuredResult } from "../result";
 
 export const getEvent: CalendarTool<z.infer<typeof GetEventSchema>> = async ({ calendar }, args) => {
   const response = await calendar.events.get({
@@ -9,7 +10,7 @@ export const getEvent: CalendarTool<z.infer<typeof GetEventSchema>> = async ({ c
   });
 
   const event = {
-    id: response.data.id,
+    id: response.data.id!,
     summary: response.data.summary,
     description: response.data.description,
     location: response.data.location,
@@ -27,12 +28,5 @@ export const getEvent: CalendarTool<z.infer<typeof GetEventSchema>> = async ({ c
     organizer: response.data.organizer,
   };
 
-  return {
-    content: [
-      {
-        type: "text" as const,
-        text: JSON.stringify(event, null, 2),
-      },
-    ],
-  };
+  return structuredResult(event);
 };
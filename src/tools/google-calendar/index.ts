@@ -1,6 +1,6 @@
 import { createEvent } from "./create-event";
 import { updateEvent } from "./update-event";
-import { deleteEvent } from "./delete-event";
+import { deleteEvent, previewDeleteEvent } from "./delete-event";
 import { getEvent } from "./get-event";
 import { listEvents } from "./list-events";
 import { listCalendars } from "./list-calendars";
@@ -15,6 +15,13 @@ import {
   ListCalendarsSchema,
   QuickAddEventSchema,
   FreeBusyQuerySchema,
+  SavedEventOutputSchema,
+  UpdatedEventOutputSchema,
+  DeleteEventOutputSchema,
+  EventOutputSchema,
+  ListEventsOutputSchema,
+  ListCalendarsOutputSchema,
+  FreeBusyOutputSchema,
 } from "./schemas";
 
 // ── Export context creator ─────────────────────────────────────────────
@@ -24,41 +31,50 @@ export { createCalendarContext } from "./context";
 export const calendarTools = {
   create_event: {
     schema: CreateEventSchema,
+    outputSchema: SavedEventOutputSchema,
     handler: createEvent,
     description: "Create a new calendar event with specified details",
   },
   update_event: {
     schema: UpdateEventSchema,
+    outputSchema: UpdatedEventOutputSchema,
     handler: updateEvent,
     description: "Update an existing calendar event",
   },
   delete_event: {
     schema: DeleteEventSchema,
+    outputSchema: DeleteEventOutputSchema,
     handler: deleteEvent,
+    preview: previewDeleteEvent,
     description: "Delete a calendar event",
   },
   get_event: {
     schema: GetEventSchema,
+    outputSchema: EventOutputSchema,
     handler: getEvent,
     description: "Get detailed information about a specific event",
   },
   list_events: {
     schema: ListEventsSchema,
+    outputSchema: ListEventsOutputSchema,
     handler: listEvents,
     description: "List calendar events with optional filtering",
   },
   list_calendars: {
     schema: ListCalendarsSchema,
+    outputSchema: ListCalendarsOutputSchema,
     handler: listCalendars,
     description: "List all available calendars",
   },
   quick_add_event: {
     schema: QuickAddEventSchema,
+    outputSchema: SavedEventOutputSchema,
     handler: quickAddEvent,
     description: "Quickly add an event using natural language (e.g., 'Dinner tomorrow at 7pm')",
   },
   freebusy_query: {
     schema: FreeBusyQuerySchema,
+    outputSchema: FreeBusyOutputSchema,
     handler: freeBusyQuery,
     description: "Query free/busy information for calendars",
   },
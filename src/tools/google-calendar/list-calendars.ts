@@ -1,6 +1,7 @@
 import { z } from "zod";
 import { CalendarTool } from "./types";
 import { ListCalendarsSchema } from "./schemas";
+import { structuredResult } from "../result";
 
 export const listCalendars: CalendarTool<z.infer<typeof ListCalendarsSchema>> = async ({ calendar }, args) => {
   const response = await calendar.calendarList.list({
@@ -10,7 +11,7 @@ export const listCalendars: CalendarTool<z.infer<typeof ListCalendarsSchema>> =
 
   const calendars =
     response.data.items?.map((cal) => ({
-      id: cal.id,
+      id: cal.id!,
       summary: cal.summary,
       description: cal.description,
       timeZone: cal.timeZone,
@@ -20,19 +21,8 @@ export const listCalendars: CalendarTool<z.infer<typeof ListCalendarsSchema>> =
       accessRole: cal.accessRole,
     })) || [];
 
-  return {
-    content: [
-      {
-        type: "text" as const,
-        text: JSON.stringify(
-          {
-            totalCalendars: calendars.length,
-            calendars,
-          },
-          null,
-          2,
-        ),
-      },
-    ],
-  };
+  return structuredResult({
+    totalCalendars: calendars.length,
+    calendars,
+  });
 };
@@ -1,6 +1,7 @@
 import { z } from "zod";
 import { CalendarTool } from "./types";
 import { QuickAddEventSchema } from "./schemas";
+import { structuredResult } from "../result";
 
 export const quickAddEvent: CalendarTool<z.infer<typeof QuickAddEventSchema>> = async ({ calendar }, args) => {
   const response = await calendar.events.quickAdd({
@@ -9,23 +10,12 @@ export const quickAddEvent: CalendarTool<z.infer<typeof QuickAddEventSchema>> =
     sendUpdates: "all",
   });
 
-  return {
-    content: [
-      {
-        type: "text" as const,
-        text: JSON.stringify(
-          {
-            success: true,
-            eventId: response.data.id,
-            summary: response.data.summary,
-            start: response.data.start,
-            end: response.data.end,
-            htmlLink: response.data.htmlLink,
-          },
-          null,
-          2,
-        ),
-      },
-    ],
-  };
+  return structuredResult({
+    success: true,
+    eventId: response.data.id!,
+    summary: response.data.summary,
+    start: response.data.start,
+    end: response.data.end,
+    htmlLink: response.data.htmlLink,
+  });
 };
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { NextCursorSchema, PaginationSchema } from "../pagination";
 
 // ── Event Schemas ──────────────────────────────────────────────────────
 
@@ -40,10 +41,11 @@ export const ListEventsSchema = z.object({
   calendarId: z.string().default("primary").describe("Calendar ID"),
   timeMin: z.string().optional().describe("Lower bound for event start time (ISO 8601)"),
   timeMax: z.string().optional().describe("Upper bound for event start time (ISO 8601)"),
-  maxResults: z.number().min(1).max(250).default(10).describe("Maximum number of events to return"),
+  maxResults: z.number().min(1).max(250).default(10).describe("Maximum number of events to return per page"),
   query: z.string().optional().describe("Free text search terms"),
   singleEvents: z.boolean().default(true).describe("Expand recurring events into instances"),
   orderBy: z.enum(["startTime", "updated"]).default("startTime").describe("Order of events"),
+  ...PaginationSchema.shape,
 });
 
 // ── Calendar Schemas ───────────────────────────────────────────────────
@@ -91,3 +93,99 @@ export const FreeBusyQuerySchema = z.object({
     .describe("List of calendars to query"),
   timeZone: z.string().optional().describe("Time zone for response"),
 });
+
+// ── Output Schemas ─────────────────────────────────────────────────────
+
+const EventTimeSchema = z.object({
+  dateTime: z.string().nullish().describe("Start/end time for timed events (RFC 3339)"),
+  date: z.string().nullish().describe("Date for all-day events (yyyy-mm-dd)"),
+  timeZone: z.string().nullish(),
+});
+
+const AttendeeSchema = z.object({
+  email: z.string().nullish(),
+  responseStatus: z.string().nullish().describe("needsAction, declined, tentative or accepted"),
+  displayName: z.string().nullish(),
+});
+
+export const EventOutputSchema = z.object({
+  id: z.string(),
+  summary: z.string().nullish(),
+  description: z.string().nullish(),
+  location: z.string().nullish(),
+  start: EventTimeSchema.nullish(),
+  end: EventTimeSchema.nullish(),
+  attendees: z.array(AttendeeSchema).nullish(),
+  htmlLink: z.string().nullish(),
+  created: z.string().nullish(),
+  updated: z.string().nullish(),
+  status: z.string().nullish(),
+  organizer: z.object({ email: z.string().nullish(), displayName: z.string().nullish() }).nullish(),
+});
+
+export const ListEventsOutputSchema = z.object({
+  totalEvents: z.number(),
+  events: z.array(
+    EventOutputSchema.pick({
+      id: true,
+      summary: true,
+      description: true,
+      location: true,
+      start: true,
+      end: true,
+      attendees: true,
+      htmlLink: true,
+      status: true,
+    }),
+  ),
+  nextCursor: NextCursorSchema,
+});
+
+export const SavedEventOutputSchema = z.object({
+  success: z.boolean(),
+  eventId: z.string(),
+  summary: z.string().nullish(),
+  start: EventTimeSchema.nullish(),
+  end: EventTimeSchema.nullish(),
+  htmlLink: z.string().nullish(),
+});
+
+export const UpdatedEventOutputSchema = z.object({
+  success: z.boolean(),
+  eventId: z.string(),
+  summary: z.string().nullish(),
+  updated: z.string().nullish(),
+});
+
+export const DeleteEventOutputSchema = z.object({
+  eventId: z.string(),
+  deleted: z.boolean(),
+});
+
+export const ListCalendarsOutputSchema = z.object({
+  totalCalendars: z.number(),
+  calendars: z.array(
+    z.object({
+      id: z.string(),
+      summary: z.string().nullish(),
+      description: z.string().nullish(),
+      timeZone: z.string().nullish(),
+      primary: z.boolean().nullish(),
+      backgroundColor: z.string().nullish(),
+      foregroundColor: z.string().nullish(),
+      accessRole: z.string().nullish(),
+    }),
+  ),
+});
+
+export const FreeBusyOutputSchema = z.object({
+  timeMin: z.string(),
+  timeMax: z.string(),
+  calendars: z.array(
+    z.object({
+      calendarId: z.string(),
+      busy: z.array(z.object({ start: z.string().nullish(), end: z.string().nullish() })),
+      errors: z.array(z.object({ domain: z.string().nullish(), reason: z.string().nullish() })).nullish(),
+    }),
+  ),
+});
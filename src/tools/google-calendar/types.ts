@@ -1,8 +1,6 @@
+import type { ActionPreview, ToolResult } from "../../providers/types";
 import { CalendarContext } from "./context";
 
-export type CalendarTool<T> = (
-  ctx: CalendarContext,
-  args: T,
-) => Promise<{
-  content: { type: "text"; text: string }[];
-}>;
+export type CalendarTool<T> = (ctx: CalendarContext, args: T) => Promise<ToolResult>;
+
+export type CalendarPreview<T> = (ctx: CalendarContext, args: T) => Promise<ActionPreview>;
@@ -1,6 +1,7 @@
 import { z } from "zod";
 import { CalendarTool } from "./types";
 import { UpdateEventSchema } from "./schemas";
+import { structuredResult } from "../result";
 
 export const updateEvent: CalendarTool<z.infer<typeof UpdateEventSchema>> = async ({ calendar }, args) => {
   // First, get the existing event
@@ -43,21 +44,10 @@ export const updateEvent: CalendarTool<z.infer<typeof UpdateEventSchema>> = asyn
     sendUpdates: "all",
   });
 
-  return {
-    content: [
-      {
-        type: "text" as const,
-        text: JSON.stringify(
-          {
-            success: true,
-            eventId: response.data.id,
-            summary: response.data.summary,
-            updated: response.data.updated,
-          },
-          null,
-          2,
-        ),
-      },
-    ],
-  };
+  return structuredResult({
+    success: true,
+    eventId: response.data.id!,
+    summary: response.data.summary,
+    updated: response.data.updated,
+  });
 };
@@ -1,6 +1,7 @@
 import { z } from "zod";
 import { DriveTool } from "./types";
 import { CreateDriveTextFileSchema } from "./schemas";
+import { structuredResult } from "../result";
 
 export const createDriveTextFile: DriveTool<z.infer<typeof CreateDriveTextFileSchema>> = async ({ drive }, args) => {
   const fileMetadata = {
@@ -20,12 +21,8 @@ export const createDriveTextFile: DriveTool<z.infer<typeof CreateDriveTextFileSc
     fields: "id, name, webViewLink",
   });
 
-  return {
-    content: [
-      {
-        type: "text",
-        text: `Created file "${data.name}" (ID: ${data.id})\nView link: ${data.webViewLink || "N/A"}`,
-      },
-    ],
-  };
+  return structuredResult(
+    { id: data.id!, name: data.name, webViewLink: data.webViewLink },
+    `Created file "${data.name}" (ID: ${data.id})\nView link: ${data.webViewLink || "N/A"}`,
+  );
 };
@@ -1,13 +1,34 @@
 import { z } from "zod";
-import { DriveTool } from "./types";
+import { DrivePreview, DriveTool } from "./types";
 import { DeleteDriveFileSchema } from "./schemas";
+import { structuredResult } from "../result";
 
-export const deleteDriveFile: DriveTool<z.infer<typeof DeleteDriveFileSchema>> = async ({ drive }, args) => {
-  await drive.files.delete({
+export const previewDeleteDriveFile: DrivePreview<z.infer<typeof DeleteDriveFileSchema>> = async ({ drive }, args) => {
+  const res = await drive.files.get({
     fileId: args.fileId,
+    fields: "id, name, mimeType, size, modifiedTime, owners(emailAddress)",
   });
+  const file = res.data;
 
   return {
-    content: [{ type: "text", text: "File permanently deleted." }],
+    summary: `Permanently delete ${file.mimeType === "application/vnd.google-apps.folder" ? "folder" : "file"} "${file.name}" (it will not go to the trash)`,
+    items: [
+      {
+        id: file.id,
+        name: file.name,
+        mimeType: file.mimeType,
+        size: file.size,
+        modifiedTime: file.modifiedTime,
+        owners: file.owners?.map((o) => o.emailAddress),
+      },
+    ],
   };
 };
+
+export const deleteDriveFile: DriveTool<z.infer<typeof DeleteDriveFileSchema>> = async ({ drive }, args) => {
+  await drive.files.delete({
+    fileId: args.fileId,
+  });
+
+  return structuredResult({ fileId: args.fileId, deleted: true }, "File permanently deleted.");
+};
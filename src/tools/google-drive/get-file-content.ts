@@ -1,6 +1,7 @@
 import { z } from "zod";
 import { DriveTool } from "./types";
 import { GetDriveFileContentSchema } from "./schemas";
+import { errorResult, structuredResult } from "../result";
 
 export const getDriveFileContent: DriveTool<z.infer<typeof GetDriveFileContentSchema>> = async ({ drive }, args) => {
   try {
@@ -12,12 +13,9 @@ export const getDriveFileContent: DriveTool<z.infer<typeof GetDriveFileContentSc
       { responseType: "text" },
     );
 
-    return {
-      content: [{ type: "text", text: res.data as string }],
-    };
+    const content = res.data as string;
+    return structuredResult({ fileId: args.fileId, content }, content);
   } catch (err: any) {
-    return {
-      content: [{ type: "text", text: `Error downloading content: ${err.message}` }],
-    };
+    return errorResult(`Downloading content failed: ${err.message}`);
   }
 };
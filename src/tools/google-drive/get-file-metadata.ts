@@ -1,6 +1,7 @@
 import { z } from "zod";
 import { DriveTool } from "./types";
 import { GetDriveFileMetadataSchema } from "./schemas";
+import { structuredResult } from "../result";
 
 export const getDriveFileMetadata: DriveTool<z.infer<typeof GetDriveFileMetadataSchema>> = async ({ drive }, args) => {
   const { data } = await drive.files.get({
@@ -8,7 +9,5 @@ export const getDriveFileMetadata: DriveTool<z.infer<typeof GetDriveFileMetadata
     fields: "id, name, mimeType, size, createdTime, modifiedTime, parents, webViewLink, webContentLink",
   });
 
-  return {
-    content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
-  };
+  return structuredResult({ ...data, id: data.id! });
 };
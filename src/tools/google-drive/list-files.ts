@@ -1,18 +1,22 @@
 import { z } from "zod";
 import { DriveTool } from "./types";
 import { ListDriveFilesSchema } from "./schemas";
+import { structuredResult } from "../result";
+import { paginate } from "../pagination";
 
 export const listDriveFiles: DriveTool<z.infer<typeof ListDriveFilesSchema>> = async ({ drive }, args) => {
-  const { data } = await drive.files.list({
-    q: args.query,
-    pageSize: args.pageSize,
-    fields: "files(id, name, mimeType, size, createdTime, modifiedTime, parents, webViewLink)",
+  const { items: files, nextCursor } = await paginate(args, args.pageSize, async (cursor, limit) => {
+    const { data } = await drive.files.list({
+      q: args.query,
+      pageSize: limit,
+      pageToken: cursor,
+      fields: "nextPageToken, files(id, name, mimeType, size, createdTime, modifiedTime, parents, webViewLink)",
+    });
+    return { items: (data.files || []).map((file) => ({ ...file, id: file.id! })), nextCursor: data.nextPageToken };
   });
 
-  const files = data.files || [];
-  const text = files.length === 0 ? "No files found." : `Found ${files.length} files:\n${JSON.stringify(files, null, 2)}`;
+  let text = files.length === 0 ? "No files found." : `Found ${files.length} files:\n${JSON.stringify(files, null, 2)}`;
+  if (nextCursor) text += `\nMore files available, nextCursor: ${nextCursor}`;
 
-  return {
-    content: [{ type: "text", text }],
-  };
+  return structuredResult({ files, nextCursor }, text);
 };
@@ -1,8 +1,10 @@
 import { z } from "zod";
+import { NextCursorSchema, PaginationSchema } from "../pagination";
 
 export const ListDriveFilesSchema = z.object({
   query: z.string().optional().describe("Optional search query (GDrive query syntax)"),
-  pageSize: z.number().optional().default(20).describe("Number of files to return"),
+  pageSize: z.number().optional().default(20).describe("Number of files to return per page"),
+  ...PaginationSchema.shape,
 });
 
 export const CreateDriveTextFileSchema = z.object({
@@ -22,3 +24,38 @@ export const GetDriveFileContentSchema = z.object({
 export const DeleteDriveFileSchema = z.object({
   fileId: z.string().describe("ID of the file to delete"),
 });
+
+// ── Output Schemas ─────────────────────────────────────────────────────
+
+export const DriveFileOutputSchema = z.object({
+  id: z.string(),
+  name: z.string().nullish(),
+  mimeType: z.string().nullish(),
+  size: z.string().nullish().describe("Size in bytes (absent for Google Docs and folders)"),
+  createdTime: z.string().nullish(),
+  modifiedTime: z.string().nullish(),
+  parents: z.array(z.string()).nullish(),
+  webViewLink: z.string().nullish(),
+  webContentLink: z.string().nullish(),
+});
+
+export const ListDriveFilesOutputSchema = z.object({
+  files: z.array(DriveFileOutputSchema),
+  nextCursor: NextCursorSchema,
+});
+
+export const CreatedDriveFileOutputSchema = z.object({
+  id: z.string(),
+  name: z.string().nullish(),
+  webViewLink: z.string().nullish(),
+});
+
+export const DriveFileContentOutputSchema = z.object({
+  fileId: z.string(),
+  content: z.string(),
+});
+
+export const DeleteDriveFileOutputSchema = z.object({
+  fileId: z.string(),
+  deleted: z.boolean(),
+});
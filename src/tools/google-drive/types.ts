@@ -1,8 +1,6 @@
+import type { ActionPreview, ToolResult } from "../../providers/types";
 import { DriveContext } from "./context";
 
-export type DriveTool<T> = (
-  ctx: DriveContext,
-  args: T,
-) => Promise<{
-  content: { type: "text"; text: string }[];
-}>;
+export type DriveTool<T> = (ctx: DriveContext, args: T) => Promise<ToolResult>;
+
+export type DrivePreview<T> = (ctx: DriveContext, args: T) => Promise<ActionPreview>;
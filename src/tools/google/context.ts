@@ -0,0 +1,7 @@
+export interface GoogleContext {
+  accessToken: string;
+}
+
+export function createGoogleContext(accessToken: string): GoogleContext {
+  return { accessToken };
+}
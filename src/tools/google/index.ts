@@ -0,0 +1,14 @@
+import { userInfoGoogle } from "./user-info";
+import { UserInfoGoogleOutputSchema, UserInfoGoogleSchema } from "./schemas";
+
+// ── Export the complete tool registry ──────────────────────────────────
+export const googleTools = {
+  userInfoGoogle: {
+    schema: UserInfoGoogleSchema,
+    outputSchema: UserInfoGoogleOutputSchema,
+    handler: userInfoGoogle,
+    description: "Get authenticated user information from Google",
+    title: "userInfoGoogle",
+    annotations: { readOnlyHint: true, idempotentHint: true },
+  },
+} as const;
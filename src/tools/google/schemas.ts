@@ -0,0 +1,14 @@
+import { z } from "zod";
+
+export const UserInfoGoogleSchema = z.object({}).strict();
+
+export const UserInfoGoogleOutputSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  verified_email: z.boolean().nullish(),
+  name: z.string().nullish(),
+  given_name: z.string().nullish(),
+  family_name: z.string().nullish(),
+  picture: z.string().nullish(),
+  locale: z.string().nullish(),
+});
@@ -0,0 +1,4 @@
+import type { ToolResult } from "../../providers/types";
+import { GoogleContext } from "./context";
+
+export type GoogleTool<T> = (ctx: GoogleContext, args: T) => Promise<ToolResult>;
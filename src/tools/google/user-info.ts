@@ -0,0 +1,19 @@
+import { z } from "zod";
+import { GoogleTool } from "./types";
+import { UserInfoGoogleOutputSchema, UserInfoGoogleSchema } from "./schemas";
+import { structuredResult } from "../result";
+
+export const userInfoGoogle: GoogleTool<z.infer<typeof UserInfoGoogleSchema>> = async ({ accessToken }) => {
+  const response = await fetch("https://www.googleapis.com/oauth2/v2/userinfo", {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch user info: ${response.statusText}`);
+  }
+
+  const user = (await response.json()) as z.infer<typeof UserInfoGoogleOutputSchema>;
+  return structuredResult(user);
+};
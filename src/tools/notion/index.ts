@@ -19,52 +19,68 @@ import {
   AppendBlocksSchema,
   GetBlockChildrenSchema,
   ListDatabasesSchema,
+  SearchPagesOutputSchema,
+  PageOutputSchema,
+  DatabaseOutputSchema,
+  QueryDatabaseOutputSchema,
+  PageSummaryOutputSchema,
+  BlocksOutputSchema,
+  ListDatabasesOutputSchema,
 } from "./schemas";
 
 // ── Export the complete tool registry ──────────────────────────────────
 export const notionTools = {
   search_pages: {
     schema: SearchPagesSchema,
+    outputSchema: SearchPagesOutputSchema,
     handler: searchPages,
     description: "Search for pages in Notion workspace",
   },
   get_page: {
     schema: GetPageSchema,
+    outputSchema: PageOutputSchema,
     handler: getPage,
     description: "Retrieve a specific Notion page by ID",
   },
   get_database: {
     schema: GetDatabaseSchema,
+    outputSchema: DatabaseOutputSchema,
     handler: getDatabase,
     description: "Retrieve a specific Notion database by ID",
   },
   query_database: {
     schema: QueryDatabaseSchema,
+    outputSchema: QueryDatabaseOutputSchema,
     handler: queryDatabase,
     description: "Query a Notion database with optional filters and sorting",
   },
   create_page: {
     schema: CreatePageSchema,
+    outputSchema: PageSummaryOutputSchema,
     handler: createPage,
     description: "Create a new page in Notion (in a page or database)",
   },
   update_page: {
     schema: UpdatePageSchema,
+    outputSchema: PageSummaryOutputSchema,
     handler: updatePage,
     description: "Update an existing Notion page",
   },
   append_blocks: {
     schema: AppendBlocksSchema,
+    outputSchema: BlocksOutputSchema,
     handler: appendBlocks,
     description: "Append content blocks to an existing Notion page",
   },
   get_block_children: {
     schema: GetBlockChildrenSchema,
+    outputSchema: BlocksOutputSchema,
     handler: getBlockChildren,
     description: "Get child blocks of a page or block",
   },
   list_databases: {
     schema: ListDatabasesSchema,
+    outputSchema: ListDatabasesOutputSchema,
     handler: listDatabases,
     description: "List all databases in the Notion workspace",
   },
@@ -1,8 +1,10 @@
 import { z } from "zod";
+import { NextCursorSchema, PaginationSchema } from "../pagination";
 
 export const SearchPagesSchema = z.object({
   query: z.string().describe("Search query to find pages"),
-  pageSize: z.number().optional().default(10).describe("Number of results to return (max 100)"),
+  pageSize: z.number().optional().default(10).describe("Number of results to return per page (max 100)"),
+  ...PaginationSchema.shape,
 });
 
 export const GetPageSchema = z.object({
@@ -15,9 +17,10 @@ export const GetDatabaseSchema = z.object({
 
 export const QueryDatabaseSchema = z.object({
   databaseId: z.string().describe("ID of the Notion database to query"),
-  pageSize: z.number().optional().default(10).describe("Number of results to return (max 100)"),
+  pageSize: z.number().optional().default(10).describe("Number of results to return per page (max 100)"),
   filterBy: z.string().optional().describe("JSON string of filter object (Notion API format)"),
   sortBy: z.string().optional().describe("JSON string of sort array (Notion API format)"),
+  ...PaginationSchema.shape,
 });
 
 export const CreatePageSchema = z.object({
@@ -48,3 +51,69 @@ export const GetBlockChildrenSchema = z.object({
 export const ListDatabasesSchema = z.object({
   pageSize: z.number().optional().default(10).describe("Number of results to return (max 100)"),
 });
+
+// ── Output Schemas ─────────────────────────────────────────────────────
+
+export const PageSummaryOutputSchema = z.object({
+  id: z.string(),
+  title: z.string().nullish(),
+  url: z.string().nullish(),
+  createdTime: z.string().nullish(),
+  lastEditedTime: z.string().nullish(),
+  archived: z.boolean().nullish(),
+  parent: z
+    .object({
+      type: z.string().describe("page_id, database_id, data_source_id, block_id or workspace"),
+      id: z.string().nullish(),
+    })
+    .nullish(),
+});
+
+export const PageOutputSchema = PageSummaryOutputSchema.extend({
+  properties: z.record(z.string(), z.unknown()).nullish().describe("Property values keyed by name, simplified to plain values"),
+});
+
+export const SearchPagesOutputSchema = z.object({
+  pages: z.array(PageSummaryOutputSchema),
+  nextCursor: NextCursorSchema,
+});
+
+export const DatabaseOutputSchema = z.object({
+  id: z.string(),
+  title: z.string().nullish(),
+  url: z.string().nullish(),
+  dataSources: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string().nullish(),
+      properties: z.record(z.string(), z.string()).nullish().describe("Property types keyed by property name"),
+    }),
+  ),
+});
+
+export const QueryDatabaseOutputSchema = z.object({
+  results: z.array(PageOutputSchema),
+  nextCursor: NextCursorSchema,
+});
+
+export const BlocksOutputSchema = z.object({
+  blocks: z.array(
+    z.object({
+      id: z.string(),
+      type: z.string().nullish(),
+      text: z.string().nullish().describe("Plain text of the block, when it has any"),
+      hasChildren: z.boolean().nullish(),
+    }),
+  ),
+});
+
+export const ListDatabasesOutputSchema = z.object({
+  databases: z.array(
+    z.object({
+      id: z.string().describe("Database ID (use with query_database)"),
+      dataSourceId: z.string(),
+      title: z.string().nullish(),
+      url: z.string().nullish(),
+    }),
+  ),
+});
@@ -1,6 +1,10 @@
 // tools/notion/tools-implementation.ts
 import { z } from "zod";
+import { isFullBlock, isFullDatabase, isFullDataSource, isFullPage } from "@notionhq/client";
 import { NotionTool } from "./types";
+import { NotionContext } from "./context";
+import { errorResult, structuredResult } from "../result";
+import { paginate } from "../pagination";
 import {
   SearchPagesSchema,
   GetPageSchema,
@@ -60,47 +64,147 @@ function markdownToBlocks(markdown: string): any[] {
   return blocks;
 }
 
-export const searchPages: NotionTool<z.infer<typeof SearchPagesSchema>> = async ({ notion }, args) => {
-  const response = await notion.search({
-    query: args.query,
-    page_size: args.pageSize,
-    filter: { property: "object", value: "page" },
-  });
+function plainText(richText: { plain_text: string }[] | undefined): string {
+  return (richText || []).map((t) => t.plain_text).join("");
+}
+
+// Reduces a Notion property value to a plain JSON value (string, number, list of names...)
+function simplifyProperty(property: any): unknown {
+  const value = property[property.type];
+  switch (property.type) {
+    case "title":
+    case "rich_text":
+      return plainText(value);
+    case "select":
+    case "status":
+      return value?.name ?? null;
+    case "multi_select":
+      return value.map((option: any) => option.name);
+    case "people":
+      return value.map((person: any) => person.name || person.id);
+    case "relation":
+      return value.map((relation: any) => relation.id);
+    case "files":
+      return value.map((file: any) => file.name);
+    case "date":
+      return value ? { start: value.start, end: value.end } : null;
+    case "formula":
+      return value[value.type] ?? null;
+    case "unique_id":
+      return value.prefix ? `${value.prefix}-${value.number}` : value.number;
+    case "created_by":
+    case "last_edited_by":
+      return value.name || value.id;
+    case "rollup":
+      return value.type === "array" ? value.array.map(simplifyProperty) : (value[value.type] ?? null);
+    default:
+      return value ?? null;
+  }
+}
+
+function parentInfo(parent: any) {
+  return { type: parent.type, id: parent[parent.type] === true ? null : parent[parent.type] };
+}
+
+function toPageSummary(page: any) {
+  if (!isFullPage(page)) return { id: page.id };
+
+  const titleProperty = Object.values(page.properties).find((p) => p.type === "title") as any;
+  return {
+    id: page.id,
+    title: titleProperty ? plainText(titleProperty.title) : null,
+    url: page.url,
+    createdTime: page.created_time,
+    lastEditedTime: page.last_edited_time,
+    archived: page.in_trash ?? page.archived,
+    parent: parentInfo(page.parent),
+  };
+}
+
+function toPage(page: any) {
+  if (!isFullPage(page)) return { id: page.id };
 
   return {
-    content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
+    ...toPageSummary(page),
+    properties: Object.fromEntries(Object.entries(page.properties).map(([name, value]) => [name, simplifyProperty(value)])),
   };
+}
+
+function toBlock(block: any) {
+  if (!isFullBlock(block)) return { id: block.id };
+
+  return {
+    id: block.id,
+    type: block.type,
+    text: plainText((block as any)[block.type]?.rich_text) || null,
+    hasChildren: block.has_children,
+  };
+}
+
+// Databases hold one or more data sources; queries run against the first one
+async function resolveDataSourceId(notion: NotionContext["notion"], databaseId: string): Promise<string> {
+  const database = await notion.databases.retrieve({ database_id: databaseId });
+  const dataSourceId = isFullDatabase(database) ? database.data_sources[0]?.id : undefined;
+  if (!dataSourceId) {
+    throw new Error(`Database ${databaseId} has no data sources`);
+  }
+  return dataSourceId;
+}
+
+export const searchPages: NotionTool<z.infer<typeof SearchPagesSchema>> = async ({ notion }, args) => {
+  const { items, nextCursor } = await paginate(args, args.pageSize, async (cursor, limit) => {
+    const response = await notion.search({
+      query: args.query,
+      page_size: limit,
+      start_cursor: cursor,
+      filter: { property: "object", value: "page" },
+    });
+    return { items: response.results, nextCursor: response.next_cursor };
+  });
+
+  return structuredResult({ pages: items.map(toPageSummary), nextCursor });
 };
 
 export const getPage: NotionTool<z.infer<typeof GetPageSchema>> = async ({ notion }, args) => {
   const response = await notion.pages.retrieve({ page_id: args.pageId });
 
-  return {
-    content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-  };
+  return structuredResult(toPage(response));
 };
 
 export const getDatabase: NotionTool<z.infer<typeof GetDatabaseSchema>> = async ({ notion }, args) => {
   const response = await notion.databases.retrieve({ database_id: args.databaseId });
+  if (!isFullDatabase(response)) {
+    return structuredResult({ id: response.id, dataSources: [] });
+  }
 
-  return {
-    content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-  };
+  // Property schemas live on the database's data sources
+  const dataSources = await Promise.all(
+    response.data_sources.map(async (source) => {
+      const dataSource = await notion.dataSources.retrieve({ data_source_id: source.id });
+      return {
+        id: source.id,
+        name: source.name,
+        properties: Object.fromEntries(Object.entries(dataSource.properties).map(([name, property]) => [name, property.type])),
+      };
+    }),
+  );
+
+  return structuredResult({
+    id: response.id,
+    title: plainText(response.title),
+    url: response.url,
+    dataSources,
+  });
 };
 
 export const queryDatabase: NotionTool<z.infer<typeof QueryDatabaseSchema>> = async ({ notion }, args) => {
-  const queryParams: any = {
-    database_id: args.databaseId,
-    page_size: args.pageSize,
-  };
+  const queryParams: any = {};
 
   if (args.filterBy) {
     try {
       queryParams.filter = JSON.parse(args.filterBy);
     } catch (e) {
-      return {
-        content: [{ type: "text", text: `Error parsing filter: ${e}` }],
-      };
+      return errorResult(`Parsing filter failed: ${e}`);
     }
   }
 
@@ -108,24 +212,22 @@ export const queryDatabase: NotionTool<z.infer<typeof QueryDatabaseSchema>> = as
     try {
       queryParams.sorts = JSON.parse(args.sortBy);
     } catch (e) {
-      return {
-        content: [{ type: "text", text: `Error parsing sorts: ${e}` }],
-      };
+      return errorResult(`Parsing sorts failed: ${e}`);
     }
   }
 
-  const response = await notion.databases.retrieve(queryParams);
+  queryParams.data_source_id = await resolveDataSourceId(notion, args.databaseId);
+  const { items, nextCursor } = await paginate(args, args.pageSize, async (cursor, limit) => {
+    const response = await notion.dataSources.query({ ...queryParams, page_size: limit, start_cursor: cursor });
+    return { items: response.results, nextCursor: response.next_cursor };
+  });
 
-  return {
-    content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-  };
+  return structuredResult({ results: items.filter((r) => r.object === "page").map(toPage), nextCursor });
 };
 
 export const createPage: NotionTool<z.infer<typeof CreatePageSchema>> = async ({ notion }, args) => {
   if (!args.parentPageId && !args.parentDatabaseId) {
-    return {
-      content: [{ type: "text", text: "Error: Either parentPageId or parentDatabaseId must be provided" }],
-    };
+    return errorResult("Either parentPageId or parentDatabaseId must be provided");
   }
 
   const parent = args.parentDatabaseId ? { database_id: args.parentDatabaseId } : { page_id: args.parentPageId! };
@@ -142,9 +244,7 @@ export const createPage: NotionTool<z.infer<typeof CreatePageSchema>> = async ({
       const customProps = JSON.parse(args.properties);
       Object.assign(properties, customProps);
     } catch (e) {
-      return {
-        content: [{ type: "text", text: `Error parsing properties: ${e}` }],
-      };
+      return errorResult(`Parsing properties failed: ${e}`);
     }
   }
 
@@ -160,9 +260,7 @@ export const createPage: NotionTool<z.infer<typeof CreatePageSchema>> = async ({
 
   const response = await notion.pages.create(pageData);
 
-  return {
-    content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-  };
+  return structuredResult(toPageSummary(response));
 };
 
 export const updatePage: NotionTool<z.infer<typeof UpdatePageSchema>> = async ({ notion }, args) => {
@@ -183,9 +281,7 @@ export const updatePage: NotionTool<z.infer<typeof UpdatePageSchema>> = async ({
       const customProps = JSON.parse(args.properties);
       updateData.properties = { ...updateData.properties, ...customProps };
     } catch (e) {
-      return {
-        content: [{ type: "text", text: `Error parsing properties: ${e}` }],
-      };
+      return errorResult(`Parsing properties failed: ${e}`);
     }
   }
 
@@ -195,9 +291,7 @@ export const updatePage: NotionTool<z.infer<typeof UpdatePageSchema>> = async ({
 
   const response = await notion.pages.update(updateData);
 
-  return {
-    content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-  };
+  return structuredResult(toPageSummary(response));
 };
 
 export const appendBlocks: NotionTool<z.infer<typeof AppendBlocksSchema>> = async ({ notion }, args) => {
@@ -208,9 +302,7 @@ export const appendBlocks: NotionTool<z.infer<typeof AppendBlocksSchema>> = asyn
     children: blocks,
   });
 
-  return {
-    content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-  };
+  return structuredResult({ blocks: response.results.map(toBlock) });
 };
 
 export const getBlockChildren: NotionTool<z.infer<typeof GetBlockChildrenSchema>> = async ({ notion }, args) => {
@@ -219,9 +311,7 @@ export const getBlockChildren: NotionTool<z.infer<typeof GetBlockChildrenSchema>
     page_size: args.pageSize,
   });
 
-  return {
-    content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-  };
+  return structuredResult({ blocks: response.results.map(toBlock) });
 };
 
 export const listDatabases: NotionTool<z.infer<typeof ListDatabasesSchema>> = async ({ notion }, args) => {
@@ -230,7 +320,12 @@ export const listDatabases: NotionTool<z.infer<typeof ListDatabasesSchema>> = as
     filter: { property: "object", value: "data_source" },
   });
 
-  return {
-    content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-  };
+  const databases = response.results.filter(isFullDataSource).map((dataSource) => ({
+    id: dataSource.parent.type === "database_id" ? dataSource.parent.database_id : dataSource.id,
+    dataSourceId: dataSource.id,
+    title: plainText(dataSource.title),
+    url: dataSource.url,
+  }));
+
+  return structuredResult({ databases });
 };
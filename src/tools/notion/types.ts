@@ -1,8 +1,4 @@
+import type { ToolResult } from "../../providers/types";
 import { NotionContext } from "./context";
 
-export type NotionTool<T> = (
-  ctx: NotionContext,
-  args: T,
-) => Promise<{
-  content: { type: "text"; text: string }[];
-}>;
+export type NotionTool<T> = (ctx: NotionContext, args: T) => Promise<ToolResult>;
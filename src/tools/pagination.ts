@@ -0,0 +1,47 @@
+import { z } from "zod";
+
+// Upper bound on the items a single `fetchAll` call collects, however many pages that takes
+export const FETCH_ALL_LIMIT = 500;
+
+export const PaginationSchema = z.object({
+  cursor: z.string().optional().describe("Cursor returned as `nextCursor` by a previous call, to fetch the next page"),
+  fetchAll: z
+    .boolean()
+    .optional()
+    .describe(`Follow cursors and return every page, up to ${FETCH_ALL_LIMIT} items. \`nextCursor\` is set if results remain`),
+});
+
+export const NextCursorSchema = z
+  .string()
+  .nullish()
+  .describe("Pass as `cursor` to fetch the next page; absent when there are no more results");
+
+export interface Page<T> {
+  items: T[];
+  nextCursor?: string | null;
+}
+
+/**
+ * Fetches one page starting at `cursor`, or with `fetchAll` keeps following cursors until the
+ * results run out or `maxItems` is reached. The last request is shrunk to the remaining
+ * allowance so the returned `nextCursor` resumes exactly after the last returned item.
+ */
+export async function paginate<T>(
+  args: { cursor?: string; fetchAll?: boolean },
+  pageSize: number,
+  fetchPage: (cursor: string | undefined, limit: number) => Promise<Page<T>>,
+  maxItems = FETCH_ALL_LIMIT,
+): Promise<{ items: T[]; nextCursor?: string }> {
+  const items: T[] = [];
+  let cursor = args.cursor || undefined;
+
+  do {
+    const limit = args.fetchAll ? Math.min(pageSize, maxItems - items.length) : pageSize;
+    const page = await fetchPage(cursor, limit);
+    items.push(...page.items);
+    // Slack signals the last page with an empty cursor
+    cursor = page.nextCursor || undefined;
+  } while (args.fetchAll && cursor && items.length < maxItems);
+
+  return { items, nextCursor: cursor };
+}
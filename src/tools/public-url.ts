@@ -0,0 +1,74 @@
+// Redirects followed by fetchPublicUrl, each hop checked like the original URL
+const MAX_REDIRECTS = 5;
+
+function ipv4Octets(host: string) {
+  const octets = host.split(".").map(Number);
+  return octets.length === 4 && octets.every((octet) => Number.isInteger(octet) && octet >= 0 && octet <= 255) ? octets : null;
+}
+
+/**
+ * Loopback, private, link-local and local-only names and addresses. The URL parser has already
+ * normalised numeric hosts (http://2130706433 becomes 127.0.0.1) and bracketed IPv6 ones.
+ */
+function isPrivateHost(hostname: string) {
+  const host = hostname
+    .toLowerCase()
+    .replace(/^\[|\]$/g, "")
+    .replace(/\.$/, "");
+  if (host === "localhost" || /\.(?:localhost|local|internal)$/.test(host)) return true;
+
+  let octets = ipv4Octets(host);
+  if (host.includes(":")) {
+    if (host === "::" || host === "::1") return true;
+    // fc00::/7 unique local, fe80::/10 link-local
+    if (/^f[cd][0-9a-f]{0,2}:/.test(host) || /^fe[89ab][0-9a-f]?:/.test(host)) return true;
+    // IPv4-mapped addresses (::ffff:7f00:1) are checked as the IPv4 address they map to
+    const mapped = /^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/.exec(host);
+    if (!mapped) return false;
+    const [high, low] = [parseInt(mapped[1], 16), parseInt(mapped[2], 16)];
+    octets = [high >> 8, high & 0xff, low >> 8, low & 0xff];
+  }
+  if (!octets) return false;
+
+  const [a, b] = octets;
+  return a === 0 || a === 10 || a === 127 || (a === 169 && b === 254) || (a === 172 && b >= 16 && b <= 31) || (a === 192 && b === 168);
+}
+
+/**
+ * Throws unless the URL is https on a public host. `label` names the URL in the error,
+ * e.g. "Attachment URL".
+ */
+export function assertPublicHttpsUrl(url: URL, label = "URL") {
+  if (url.protocol !== "https:") {
+    throw new Error(`${label} must use https: ${url}`);
+  }
+  if (isPrivateHost(url.hostname)) {
+    throw new Error(`${label} must point to a public host: ${url}`);
+  }
+}
+
+/**
+ * fetch for URLs that come from users or senders: the URL and every redirect it leads to
+ * must pass assertPublicHttpsUrl, so it cannot be used to reach internal services.
+ * Redirects are followed as browsers do: 307/308 repeat the request, others become a GET.
+ */
+export async function fetchPublicUrl(url: string | URL, init: RequestInit = {}, label?: string) {
+  let target = new URL(url);
+  let request = init;
+  for (let redirects = 0; ; redirects++) {
+    assertPublicHttpsUrl(target, label);
+    const response = await fetch(target, { ...request, redirect: "manual" });
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return { response, url: target };
+    }
+    if (redirects >= MAX_REDIRECTS) throw new Error(`Fetching ${url} failed: too many redirects`);
+
+    await response.body?.cancel();
+    target = new URL(location, target);
+    if (response.status !== 307 && response.status !== 308) {
+      const { body: _body, method: _method, ...rest } = request;
+      request = { ...rest, method: "GET" };
+    }
+  }
+}
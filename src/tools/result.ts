@@ -0,0 +1,48 @@
+import type { ToolResult } from "../providers/types";
+
+/**
+ * Builds a tool result from its structured output. The text content defaults to the
+ * same data as JSON, for clients that do not read `structuredContent`.
+ */
+export function structuredResult<T extends Record<string, unknown>>(data: T, text = JSON.stringify(data, null, 2)): ToolResult {
+  return {
+    content: [{ type: "text", text }],
+    structuredContent: data,
+  };
+}
+
+/**
+ * Tool-level failure (bad input, upstream rejection) reported to the model instead of thrown.
+ * `upstreamStatus` is the HTTP status of the upstream response that caused it, if any.
+ */
+export function errorResult(message: string, upstreamStatus?: number): ToolResult {
+  return {
+    content: [{ type: "text", text: `Error: ${message}` }],
+    isError: true,
+    ...(upstreamStatus && { _meta: { upstreamStatus } }),
+  };
+}
+
+/**
+ * An HTTP request to a service other than the provider's SDK failed
+ */
+export class UpstreamError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+  ) {
+    super(message);
+    this.name = "UpstreamError";
+  }
+}
+
+/**
+ * HTTP status of the upstream response behind an error thrown by googleapis, the Slack or
+ * Notion clients, or UpstreamError; undefined for anything else
+ */
+export function upstreamStatusOf(error: any): number | undefined {
+  // @slack/web-api reports rate limiting as its own error code rather than a status
+  if (error?.code === "slack_webapi_rate_limited_error") return 429;
+  const status = Number(error?.status ?? error?.response?.status ?? error?.statusCode ?? error?.code);
+  return Number.isInteger(status) && status >= 400 && status < 600 ? status : undefined;
+}
@@ -3,6 +3,7 @@ import {
   postMessage,
   updateMessage,
   deleteMessage,
+  previewDeleteMessage,
   getChannelHistory,
   getThreadReplies,
   listChannels,
@@ -34,87 +35,115 @@ import {
   SetChannelPurposeSchema,
   AddReactionSchema,
   UploadFileSchema,
+  MessageOutputSchema,
+  DeleteMessageOutputSchema,
+  MessagesOutputSchema,
+  ListChannelsOutputSchema,
+  ChannelOutputSchema,
+  SearchMessagesOutputSchema,
+  UserOutputSchema,
+  ListUsersOutputSchema,
+  ReactionOutputSchema,
+  UploadFileOutputSchema,
 } from "./schemas";
 
 // ── Export the complete tool registry ──────────────────────────────────
 export const slackTools = {
   post_message: {
     schema: PostMessageSchema,
+    outputSchema: MessageOutputSchema,
     handler: postMessage,
     description: "Post a message to a Slack channel",
+    schedulable: true,
   },
   update_message: {
     schema: UpdateMessageSchema,
+    outputSchema: MessageOutputSchema,
     handler: updateMessage,
     description: "Update an existing Slack message",
   },
   delete_message: {
     schema: DeleteMessageSchema,
+    outputSchema: DeleteMessageOutputSchema,
     handler: deleteMessage,
+    preview: previewDeleteMessage,
     description: "Delete a Slack message",
   },
   get_channel_history: {
     schema: GetChannelHistorySchema,
+    outputSchema: MessagesOutputSchema,
     handler: getChannelHistory,
     description: "Get message history from a Slack channel",
   },
   get_thread_replies: {
     schema: GetThreadRepliesSchema,
+    outputSchema: MessagesOutputSchema,
     handler: getThreadReplies,
     description: "Get replies to a thread in Slack",
   },
   list_channels: {
     schema: ListChannelsSchema,
+    outputSchema: ListChannelsOutputSchema,
     handler: listChannels,
     description: "List Slack channels",
   },
   get_channel_info: {
     schema: GetChannelInfoSchema,
+    outputSchema: ChannelOutputSchema,
     handler: getChannelInfo,
     description: "Get information about a Slack channel",
   },
   create_channel: {
     schema: CreateChannelSchema,
+    outputSchema: ChannelOutputSchema,
     handler: createChannel,
     description: "Create a new Slack channel",
   },
   invite_to_channel: {
     schema: InviteToChannelSchema,
+    outputSchema: ChannelOutputSchema,
     handler: inviteToChannel,
     description: "Invite users to a Slack channel",
   },
   search_messages: {
     schema: SearchMessagesSchema,
+    outputSchema: SearchMessagesOutputSchema,
     handler: searchMessages,
     description: "Search for messages in Slack",
   },
   get_user_info: {
     schema: GetUserInfoSchema,
+    outputSchema: UserOutputSchema,
     handler: getUserInfo,
     description: "Get information about a Slack user",
   },
   list_users: {
     schema: ListUsersSchema,
+    outputSchema: ListUsersOutputSchema,
     handler: listUsers,
     description: "List users in the Slack workspace",
   },
   set_channel_topic: {
     schema: SetChannelTopicSchema,
+    outputSchema: ChannelOutputSchema,
     handler: setChannelTopic,
     description: "Set the topic for a Slack channel",
   },
   set_channel_purpose: {
     schema: SetChannelPurposeSchema,
+    outputSchema: ChannelOutputSchema,
     handler: setChannelPurpose,
     description: "Set the purpose for a Slack channel",
   },
   add_reaction: {
     schema: AddReactionSchema,
+    outputSchema: ReactionOutputSchema,
     handler: addReaction,
     description: "Add a reaction emoji to a Slack message",
   },
   upload_file: {
     schema: UploadFileSchema,
+    outputSchema: UploadFileOutputSchema,
     handler: uploadFile,
     description: "Upload a file to Slack",
   },
@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { NextCursorSchema, PaginationSchema } from "../pagination";
 
 export const PostMessageSchema = z.object({
   channel: z.string().describe("Channel ID or name (e.g., 'C1234567890' or '#general')"),
@@ -17,13 +18,15 @@ export const UpdateMessageSchema = z.object({
 export const DeleteMessageSchema = z.object({
   channel: z.string().describe("Channel ID where the message is"),
   ts: z.string().describe("Timestamp of the message to delete"),
+  threadTs: z.string().optional().describe("Thread timestamp, when deleting a reply"),
 });
 
 export const GetChannelHistorySchema = z.object({
   channel: z.string().describe("Channel ID"),
-  limit: z.number().optional().default(10).describe("Number of messages to retrieve (max 100)"),
+  limit: z.number().optional().default(10).describe("Number of messages to retrieve per page (max 100)"),
   oldest: z.string().optional().describe("Start of time range (timestamp)"),
   latest: z.string().optional().describe("End of time range (timestamp)"),
+  ...PaginationSchema.shape,
 });
 
 export const GetThreadRepliesSchema = z.object({
@@ -34,7 +37,8 @@ export const GetThreadRepliesSchema = z.object({
 
 export const ListChannelsSchema = z.object({
   types: z.string().optional().default("public_channel,private_channel").describe("Comma-separated channel types"),
-  limit: z.number().optional().default(20).describe("Number of channels to retrieve"),
+  limit: z.number().optional().default(20).describe("Number of channels to retrieve per page"),
+  ...PaginationSchema.shape,
 });
 
 export const GetChannelInfoSchema = z.object({
@@ -62,7 +66,8 @@ export const GetUserInfoSchema = z.object({
 });
 
 export const ListUsersSchema = z.object({
-  limit: z.number().optional().default(20).describe("Number of users to retrieve"),
+  limit: z.number().optional().default(20).describe("Number of users to retrieve per page"),
+  ...PaginationSchema.shape,
 });
 
 export const SetChannelTopicSchema = z.object({
@@ -88,3 +93,98 @@ export const UploadFileSchema = z.object({
   title: z.string().optional().describe("File title"),
   initialComment: z.string().optional().describe("Initial comment about the file"),
 });
+
+// ── Output Schemas ─────────────────────────────────────────────────────
+
+export const MessageOutputSchema = z.object({
+  channel: z.string().nullish(),
+  ts: z.string().nullish().describe("Message timestamp (its ID within the channel)"),
+  text: z.string().nullish(),
+});
+
+export const DeleteMessageOutputSchema = z.object({
+  channel: z.string(),
+  ts: z.string(),
+  deleted: z.boolean(),
+});
+
+const HistoryMessageSchema = z.object({
+  ts: z.string().nullish(),
+  user: z.string().nullish().describe("User ID (or bot ID) of the author"),
+  text: z.string().nullish(),
+  threadTs: z.string().nullish(),
+  replyCount: z.number().nullish(),
+});
+
+export const MessagesOutputSchema = z.object({
+  messages: z.array(HistoryMessageSchema),
+  hasMore: z.boolean(),
+  nextCursor: NextCursorSchema,
+});
+
+export const ChannelOutputSchema = z.object({
+  id: z.string(),
+  name: z.string().nullish(),
+  isPrivate: z.boolean().nullish(),
+  isArchived: z.boolean().nullish(),
+  numMembers: z.number().nullish(),
+  topic: z.string().nullish(),
+  purpose: z.string().nullish(),
+  created: z.number().nullish().describe("Creation time (Unix seconds)"),
+});
+
+export const ListChannelsOutputSchema = z.object({
+  channels: z.array(ChannelOutputSchema),
+  nextCursor: NextCursorSchema,
+});
+
+export const SearchMessagesOutputSchema = z.object({
+  total: z.number(),
+  matches: z.array(
+    z.object({
+      ts: z.string().nullish(),
+      channelId: z.string().nullish(),
+      channelName: z.string().nullish(),
+      user: z.string().nullish(),
+      username: z.string().nullish(),
+      text: z.string().nullish(),
+      permalink: z.string().nullish(),
+    }),
+  ),
+});
+
+export const UserOutputSchema = z.object({
+  id: z.string(),
+  name: z.string().nullish(),
+  realName: z.string().nullish(),
+  displayName: z.string().nullish(),
+  email: z.string().nullish(),
+  title: z.string().nullish(),
+  timeZone: z.string().nullish(),
+  isBot: z.boolean().nullish(),
+  isAdmin: z.boolean().nullish(),
+  deleted: z.boolean().nullish(),
+});
+
+export const ListUsersOutputSchema = z.object({
+  users: z.array(UserOutputSchema),
+  nextCursor: NextCursorSchema,
+});
+
+export const ReactionOutputSchema = z.object({
+  channel: z.string(),
+  timestamp: z.string(),
+  name: z.string(),
+  added: z.boolean(),
+});
+
+export const UploadFileOutputSchema = z.object({
+  files: z.array(
+    z.object({
+      id: z.string().nullish(),
+      name: z.string().nullish(),
+      title: z.string().nullish(),
+      permalink: z.string().nullish(),
+    }),
+  ),
+});
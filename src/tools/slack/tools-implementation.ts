@@ -1,6 +1,8 @@
 // tools/slack/tools-implementation.ts
 import { z } from "zod";
-import { SlackTool } from "./types";
+import { SlackPreview, SlackTool } from "./types";
+import { errorResult, structuredResult } from "../result";
+import { paginate } from "../pagination";
 import {
   PostMessageSchema,
   UpdateMessageSchema,
@@ -20,6 +22,44 @@ import {
   UploadFileSchema,
 } from "./schemas";
 
+function toMessage(message: any) {
+  return {
+    ts: message.ts,
+    user: message.user || message.bot_id,
+    text: message.text,
+    threadTs: message.thread_ts,
+    replyCount: message.reply_count,
+  };
+}
+
+function toChannel(channel: any) {
+  return {
+    id: channel.id,
+    name: channel.name,
+    isPrivate: channel.is_private,
+    isArchived: channel.is_archived,
+    numMembers: channel.num_members,
+    topic: channel.topic?.value,
+    purpose: channel.purpose?.value,
+    created: channel.created,
+  };
+}
+
+function toUser(user: any) {
+  return {
+    id: user.id,
+    name: user.name,
+    realName: user.real_name || user.profile?.real_name,
+    displayName: user.profile?.display_name,
+    email: user.profile?.email,
+    title: user.profile?.title,
+    timeZone: user.tz,
+    isBot: user.is_bot,
+    isAdmin: user.is_admin,
+    deleted: user.deleted,
+  };
+}
+
 export const postMessage: SlackTool<z.infer<typeof PostMessageSchema>> = async ({ slack }, args) => {
   const options: any = {
     channel: args.channel,
@@ -34,17 +74,13 @@ export const postMessage: SlackTool<z.infer<typeof PostMessageSchema>> = async (
     try {
       options.blocks = JSON.parse(args.blocks);
     } catch (e) {
-      return {
-        content: [{ type: "text", text: `Error parsing blocks: ${e}` }],
-      };
+      return errorResult(`Parsing blocks failed: ${e}`);
     }
   }
 
   const response = await slack.chat.postMessage(options);
 
-  return {
-    content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-  };
+  return structuredResult({ channel: response.channel, ts: response.ts, text: response.message?.text ?? args.text });
 };
 
 export const updateMessage: SlackTool<z.infer<typeof UpdateMessageSchema>> = async ({ slack }, args) => {
@@ -58,44 +94,78 @@ export const updateMessage: SlackTool<z.infer<typeof UpdateMessageSchema>> = asy
     try {
       options.blocks = JSON.parse(args.blocks);
     } catch (e) {
-      return {
-        content: [{ type: "text", text: `Error parsing blocks: ${e}` }],
-      };
+      return errorResult(`Parsing blocks failed: ${e}`);
     }
   }
 
   const response = await slack.chat.update(options);
 
+  return structuredResult({ channel: response.channel, ts: response.ts, text: response.text ?? args.text });
+};
+
+export const previewDeleteMessage: SlackPreview<z.infer<typeof DeleteMessageSchema>> = async ({ slack }, args) => {
+  // history with latest = oldest = ts and inclusive returns exactly that message
+  const history = args.threadTs
+    ? undefined
+    : await slack.conversations.history({
+        channel: args.channel,
+        latest: args.ts,
+        oldest: args.ts,
+        inclusive: true,
+        limit: 1,
+      });
+  let message = history?.messages?.find((m) => m.ts === args.ts);
+  // Thread replies are not part of the channel history; replies accepts the ts of any message in the thread
+  if (!message) {
+    const replies = await slack.conversations.replies({
+      channel: args.channel,
+      ts: args.threadTs ?? args.ts,
+      latest: args.ts,
+      oldest: args.ts,
+      inclusive: true,
+    });
+    message = replies.messages?.find((m) => m.ts === args.ts);
+  }
+
   return {
-    content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
+    summary: "Delete 1 Slack message",
+    items: [
+      {
+        channel: args.channel,
+        ts: args.ts,
+        user: message?.user || message?.bot_id,
+        text: message?.text,
+        replyCount: message?.reply_count,
+      },
+    ],
   };
 };
 
 export const deleteMessage: SlackTool<z.infer<typeof DeleteMessageSchema>> = async ({ slack }, args) => {
-  const response = await slack.chat.delete({
+  await slack.chat.delete({
     channel: args.channel,
     ts: args.ts,
   });
 
-  return {
-    content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-  };
+  return structuredResult({ channel: args.channel, ts: args.ts, deleted: true });
 };
 
 export const getChannelHistory: SlackTool<z.infer<typeof GetChannelHistorySchema>> = async ({ slack }, args) => {
-  const options: any = {
-    channel: args.channel,
-    limit: args.limit,
-  };
-
-  if (args.oldest) options.oldest = args.oldest;
-  if (args.latest) options.latest = args.latest;
-
-  const response = await slack.conversations.history(options);
+  const { items, nextCursor } = await paginate(args, args.limit, async (cursor, limit) => {
+    const options: any = {
+      channel: args.channel,
+      limit,
+      cursor,
+    };
+
+    if (args.oldest) options.oldest = args.oldest;
+    if (args.latest) options.latest = args.latest;
+
+    const response = await slack.conversations.history(options);
+    return { items: response.messages || [], nextCursor: response.response_metadata?.next_cursor };
+  });
 
-  return {
-    content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-  };
+  return structuredResult({ messages: items.map(toMessage), hasMore: !!nextCursor, nextCursor });
 };
 
 export const getThreadReplies: SlackTool<z.infer<typeof GetThreadRepliesSchema>> = async ({ slack }, args) => {
@@ -105,20 +175,20 @@ export const getThreadReplies: SlackTool<z.infer<typeof GetThreadRepliesSchema>>
     limit: args.limit,
   });
 
-  return {
-    content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-  };
+  return structuredResult({ messages: (response.messages || []).map(toMessage), hasMore: !!response.has_more });
 };
 
 export const listChannels: SlackTool<z.infer<typeof ListChannelsSchema>> = async ({ slack }, args) => {
-  const response = await slack.conversations.list({
-    types: args.types,
-    limit: args.limit,
+  const { items, nextCursor } = await paginate(args, args.limit, async (cursor, limit) => {
+    const response = await slack.conversations.list({
+      types: args.types,
+      limit,
+      cursor,
+    });
+    return { items: response.channels || [], nextCursor: response.response_metadata?.next_cursor };
   });
 
-  return {
-    content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-  };
+  return structuredResult({ channels: items.map(toChannel), nextCursor });
 };
 
 export const getChannelInfo: SlackTool<z.infer<typeof GetChannelInfoSchema>> = async ({ slack }, args) => {
@@ -126,9 +196,7 @@ export const getChannelInfo: SlackTool<z.infer<typeof GetChannelInfoSchema>> = a
     channel: args.channel,
   });
 
-  return {
-    content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-  };
+  return structuredResult(toChannel(response.channel));
 };
 
 export const createChannel: SlackTool<z.infer<typeof CreateChannelSchema>> = async ({ slack }, args) => {
@@ -137,9 +205,7 @@ export const createChannel: SlackTool<z.infer<typeof CreateChannelSchema>> = asy
     is_private: args.isPrivate,
   });
 
-  return {
-    content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-  };
+  return structuredResult(toChannel(response.channel));
 };
 
 export const inviteToChannel: SlackTool<z.infer<typeof InviteToChannelSchema>> = async ({ slack }, args) => {
@@ -148,9 +214,7 @@ export const inviteToChannel: SlackTool<z.infer<typeof InviteToChannelSchema>> =
     users: args.users.join(","),
   });
 
-  return {
-    content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-  };
+  return structuredResult(toChannel(response.channel));
 };
 
 export const searchMessages: SlackTool<z.infer<typeof SearchMessagesSchema>> = async ({ slack }, args) => {
@@ -160,9 +224,18 @@ export const searchMessages: SlackTool<z.infer<typeof SearchMessagesSchema>> = a
     sort: args.sort,
   });
 
-  return {
-    content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-  };
+  return structuredResult({
+    total: response.messages?.total ?? 0,
+    matches: (response.messages?.matches || []).map((match) => ({
+      ts: match.ts,
+      channelId: match.channel?.id,
+      channelName: match.channel?.name,
+      user: match.user,
+      username: match.username,
+      text: match.text,
+      permalink: match.permalink,
+    })),
+  });
 };
 
 export const getUserInfo: SlackTool<z.infer<typeof GetUserInfoSchema>> = async ({ slack }, args) => {
@@ -170,19 +243,19 @@ export const getUserInfo: SlackTool<z.infer<typeof GetUserInfoSchema>> = async (
     user: args.user,
   });
 
-  return {
-    content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-  };
+  return structuredResult(toUser(response.user));
 };
 
 export const listUsers: SlackTool<z.infer<typeof ListUsersSchema>> = async ({ slack }, args) => {
-  const response = await slack.users.list({
-    limit: args.limit,
+  const { items, nextCursor } = await paginate(args, args.limit, async (cursor, limit) => {
+    const response = await slack.users.list({
+      limit,
+      cursor,
+    });
+    return { items: response.members || [], nextCursor: response.response_metadata?.next_cursor };
   });
 
-  return {
-    content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-  };
+  return structuredResult({ users: items.map(toUser), nextCursor });
 };
 
 export const setChannelTopic: SlackTool<z.infer<typeof SetChannelTopicSchema>> = async ({ slack }, args) => {
@@ -191,9 +264,7 @@ export const setChannelTopic: SlackTool<z.infer<typeof SetChannelTopicSchema>> =
     topic: args.topic,
   });
 
-  return {
-    content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-  };
+  return structuredResult(toChannel(response.channel));
 };
 
 export const setChannelPurpose: SlackTool<z.infer<typeof SetChannelPurposeSchema>> = async ({ slack }, args) => {
@@ -202,21 +273,17 @@ export const setChannelPurpose: SlackTool<z.infer<typeof SetChannelPurposeSchema
     purpose: args.purpose,
   });
 
-  return {
-    content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-  };
+  return structuredResult(toChannel(response.channel));
 };
 
 export const addReaction: SlackTool<z.infer<typeof AddReactionSchema>> = async ({ slack }, args) => {
-  const response = await slack.reactions.add({
+  await slack.reactions.add({
     channel: args.channel,
     timestamp: args.timestamp,
     name: args.name,
   });
 
-  return {
-    content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-  };
+  return structuredResult({ channel: args.channel, timestamp: args.timestamp, name: args.name, added: true });
 };
 
 export const uploadFile: SlackTool<z.infer<typeof UploadFileSchema>> = async ({ slack }, args) => {
@@ -229,9 +296,11 @@ export const uploadFile: SlackTool<z.infer<typeof UploadFileSchema>> = async ({
   if (args.title) options.title = args.title;
   if (args.initialComment) options.initial_comment = args.initialComment;
 
-  const response = await slack.files.uploadV2(options);
+  const response = (await slack.files.uploadV2(options)) as any;
 
-  return {
-    content: [{ type: "text", text: JSON.stringify(response, null, 2) }],
-  };
+  // uploadV2 returns one completeUploadExternal response per upload, each listing its files
+  const files = (response.files || []).flatMap((upload: any) => upload.files || []);
+  return structuredResult({
+    files: files.map((file: any) => ({ id: file.id, name: file.name, title: file.title, permalink: file.permalink })),
+  });
 };
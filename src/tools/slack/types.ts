@@ -1,8 +1,6 @@
+import type { ActionPreview, ToolResult } from "../../providers/types";
 import { SlackContext } from "./context";
 
-export type SlackTool<T> = (
-  ctx: SlackContext,
-  args: T,
-) => Promise<{
-  content: { type: "text"; text: string }[];
-}>;
+export type SlackTool<T> = (ctx: SlackContext, args: T) => Promise<ToolResult>;
+
+export type SlackPreview<T> = (ctx: SlackContext, args: T) => Promise<ActionPreview>;
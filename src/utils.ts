@@ -1,3 +1,5 @@
+import { OAuthError } from "./workers-oauth-utils";
+
 /**
  * Constructs an authorization URL for an upstream service.
  */
@@ -117,41 +119,31 @@ export async function fetchUpstreamAuthToken({
   }
 
   if (!tokenData.access_token) {
-    console.error("Missing access_token in response:", tokenData);
+    console.error("Missing access_token in response, fields:", Object.keys(tokenData));
     return [null, new Response("Missing access token in response", { status: 400 })];
   }
 
   return [tokenData, null];
 }
 
+/**
+ * A connected provider. Its tokens stay encrypted in the integration table and are
+ * decrypted by IntegrationService when a tool uses them.
+ */
+export interface ProviderIntegration {
+  integrationId: string;
+}
+
 // Context from the auth process, encrypted & stored in the auth token
 export interface Props {
   [key: string]: unknown; // Index signature
 
-  // Google base auth (replaces GitHub)
-  accessToken: string;
+  // Google identity (replaces GitHub)
   email: string;
   name: string;
 
-  // Gmail integration
-  gmailAccessToken?: string;
-  gmailRefreshToken?: string;
-
-  // Calendar integration
-  calendarAccessToken?: string;
-  calendarRefreshToken?: string;
-
-  // Drive integration
-  driveAccessToken?: string;
-  driveRefreshToken?: string;
-
-  // Notion integration
-  notionAccessToken?: string;
-  notionRefreshToken?: string;
-
-  // Slack integration
-  slackAccessToken?: string;
-  slackRefreshToken?: string;
+  // Integrations keyed by provider id (see src/providers)
+  providers?: Record<string, ProviderIntegration>;
 
   // Metadata
   connectedIntegrations: string[];
@@ -159,40 +151,54 @@ export interface Props {
 }
 
 /**
- * Refreshes a Google OAuth token using a refresh token
+ * Converts a token endpoint `expires_in` (seconds) into an absolute expiry date
+ */
+export function getTokenExpiry(expiresIn?: number): Date | undefined {
+  return expiresIn ? new Date(Date.now() + expiresIn * 1000) : undefined;
+}
+
+/**
+ * Refreshes a Google OAuth token using a refresh token.
+ * Throws an OAuthError carrying Google's error code (e.g. "invalid_grant" when the
+ * refresh token was revoked or expired) if the token endpoint rejects the request.
  */
 export async function refreshGoogleToken(params: {
   client_id: string;
   client_secret: string;
   refresh_token: string;
-}): Promise<string | null> {
-  try {
-    const response = await fetch("https://oauth2.googleapis.com/token", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/x-www-form-urlencoded",
-      },
-      body: new URLSearchParams({
-        client_id: params.client_id,
-        client_secret: params.client_secret,
-        refresh_token: params.refresh_token,
-        grant_type: "refresh_token",
-      }),
+}): Promise<TokenResponse> {
+  const response = await fetch("https://oauth2.googleapis.com/token", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+    },
+    body: new URLSearchParams({
+      client_id: params.client_id,
+      client_secret: params.client_secret,
+      refresh_token: params.refresh_token,
+      grant_type: "refresh_token",
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("Token refresh failed:", {
+      status: response.status,
+      body: errorText,
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error("Token refresh failed:", {
-        status: response.status,
-        body: errorText,
-      });
-      return null;
+    let error: { error?: string; error_description?: string } = {};
+    try {
+      error = JSON.parse(errorText);
+    } catch {
+      // Non-JSON error body
     }
+    throw new OAuthError(error.error || "refresh_failed", error.error_description || errorText || response.statusText, response.status);
+  }
 
-    const data = (await response.json()) as Record<string, any>;
-    return data.access_token;
-  } catch (error: any) {
-    console.error("Token refresh error:", error);
-    return null;
+  const data = (await response.json()) as TokenResponse;
+  if (!data.access_token) {
+    throw new OAuthError("refresh_failed", "Missing access token in refresh response", 500);
   }
+  return data;
 }
@@ -249,6 +249,28 @@ export async function createOAuthState<T = unknown>(data: T, kv: KVNamespace, st
   return { stateToken };
 }
 
+/**
+ * Reads and deletes state created with createOAuthState, without session binding.
+ * Only for server-issued single-use links (e.g. dashboard actions) where the token
+ * itself is the credential and no browser consent step took place.
+ * @param stateToken - The state token from the link
+ * @param kv - Cloudflare KV namespace for storing OAuth state data
+ * @returns The stored data, or null if the token is unknown or expired
+ */
+export async function consumeOAuthState<T = unknown>(stateToken: string, kv: KVNamespace): Promise<T | null> {
+  const storedDataJson = await kv.get(`oauth:state:${stateToken}`);
+  if (!storedDataJson) return null;
+
+  // Delete state from KV (one-time use)
+  await kv.delete(`oauth:state:${stateToken}`);
+
+  try {
+    return JSON.parse(storedDataJson) as T;
+  } catch (_e) {
+    return null;
+  }
+}
+
 /**
  * Binds an OAuth state token to the user's browser session using a secure cookie.
  * This prevents CSRF attacks where an attacker's state token is used by a victim.
@@ -25,6 +25,13 @@ declare namespace Cloudflare {
 		CLOUDFLARE_DATABASE_ID: string;
 		CLOUDFLARE_D1_TOKEN: string;
 		AUTH_SECRET: string;
+		TOKEN_ENCRYPTION_KEY: string;
+		TOKEN_ENCRYPTION_KEY_ID: string;
+		TOKEN_ENCRYPTION_PREVIOUS_KEYS: string;
+		ADMIN_EMAILS: string;
+		STRIPE_WEBHOOK_SECRET: string;
+		GMAIL_PUBSUB_TOPIC: string;
+		GMAIL_PUSH_TOKEN: string;
 		MCP_OBJECT: DurableObjectNamespace<import("./src/index").MyMCP>;
 	}
 }